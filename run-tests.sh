@@ -327,138 +327,1183 @@ test_output_directory() {
     fi
 }
 
+# Function to test Mermaid output
+test_mermaid_output() {
+    print_status "TEST" "Testing Mermaid flowchart output..."
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json *.mmd *.md
+    
+    local project_path="${MOCK_PROJECTS_DIR}/angular-simple"
+    if node "${MAIN_JS_PATH}" "${project_path}" --output mermaid --layout TB > /dev/null 2>&1; then
+        if [ -f "user-flows.mmd" ] && grep -q "^flowchart TB" user-flows.mmd && grep -q "linkStyle" user-flows.mmd; then
+            print_status "SUCCESS" "Mermaid flowchart generated with layout and edge styling"
+            record_test_result "PASS"
+        else
+            print_status "FAIL" "Mermaid flowchart missing or malformed"
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "Mermaid output command failed"
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test HTML viewer output
+test_html_output() {
+    print_status "TEST" "Testing interactive HTML viewer output..."
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json *.html
+    
+    local project_path="${MOCK_PROJECTS_DIR}/angular-lazy-loading"
+    if node "${MAIN_JS_PATH}" "${project_path}" --output html > /dev/null 2>&1; then
+        if [ -f "user-flows.html" ] && grep -q "const DATA = " user-flows.html && grep -q '"loadChildren"' user-flows.html && ! grep -q "<script src=" user-flows.html; then
+            print_status "SUCCESS" "Self-contained HTML viewer generated with route details"
+            record_test_result "PASS"
+        else
+            print_status "FAIL" "HTML viewer missing, incomplete or not self-contained"
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "HTML output command failed"
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test source locations on routes and flows
+test_source_locations() {
+    print_status "TEST" "Testing source locations in JSON output..."
+    
+    if ! command -v jq >/dev/null 2>&1; then
+        print_status "WARN" "jq not available, skipping source location checks"
+        record_test_result "PASS"
+        return
+    fi
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json
+    
+    local all_passed=true
+    for project in angular-simple react-sample; do
+        rm -f user-flows.json
+        if node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/${project}" --output json > /dev/null 2>&1 && [ -f "user-flows.json" ]; then
+            local missing=$(jq '[.flows[] | select(.source.line == null)] | length' user-flows.json)
+            local route_file=$(jq -r '.routes[0].source.file // empty' user-flows.json)
+            if [ "$missing" -eq 0 ] && [ -n "$route_file" ] && [ -f "${MOCK_PROJECTS_DIR}/${project}/${route_file}" ]; then
+                print_status "SUCCESS" "${project}: routes and flows carry source locations"
+            else
+                print_status "FAIL" "${project}: ${missing} flows without a source location (first route file: '${route_file}')"
+                all_passed=false
+            fi
+        else
+            print_status "FAIL" "${project}: JSON output command failed"
+            all_passed=false
+        fi
+    done
+    
+    if [ "$all_passed" = true ]; then
+        record_test_result "PASS"
+    else
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test project configuration files
+test_config_file() {
+    print_status "TEST" "Testing userpravah config file support..."
+    
+    local config_project="${TEMP_TEST_DIR}/config-project"
+    local cli_output_dir="${TEMP_TEST_DIR}/cli-out"
+    local invalid_config="${TEMP_TEST_DIR}/invalid-config.json"
+    rm -rf "${config_project}" "${cli_output_dir}"
+    cp -r "${MOCK_PROJECTS_DIR}/vue-sample" "${config_project}"
+    cat > "${config_project}/.userpravah.json" << 'EOF'
+{
+  "output": ["json", "mermaid"],
+  "outputDir": "flows",
+  "generateImage": false,
+  "generators": { "mermaid": { "markdown": true } }
+}
+EOF
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json *.mmd *.md
+    
+    local all_passed=true
+    
+    # Discovered from the project root
+    if node "${MAIN_JS_PATH}" "${config_project}" > output.log 2>&1 && \
+        [ -f "${config_project}/flows/user-flows.json" ] && [ -f "${config_project}/flows/user-flows.md" ] && [ ! -f "user-flows.dot" ]; then
+        print_status "SUCCESS" "Config file discovered in project root"
+    else
+        print_status "FAIL" "Config file in project root was not applied"
+        cat output.log
+        all_passed=false
+    fi
+    
+    # Command-line flags win over the config file
+    mkdir -p "${cli_output_dir}"
+    if node "${MAIN_JS_PATH}" "${config_project}" --output json --output-dir "${cli_output_dir}" > output.log 2>&1 && \
+        [ -f "${cli_output_dir}/user-flows.json" ] && [ ! -f "${cli_output_dir}/user-flows.md" ]; then
+        print_status "SUCCESS" "CLI flags override config values"
+    else
+        print_status "FAIL" "CLI flags did not override config values"
+        all_passed=false
+    fi
+    
+    # Explicit --config path with validation errors
+    echo '{ "output": 3 }' > "${invalid_config}"
+    if node "${MAIN_JS_PATH}" "${config_project}" --config "${invalid_config}" > output.log 2>&1; then
+        print_status "FAIL" "Invalid config file was accepted"
+        all_passed=false
+    elif grep -q "output must be a string or an array of strings" output.log; then
+        print_status "SUCCESS" "Invalid --config file rejected with a clear error"
+    else
+        print_status "FAIL" "Invalid config file failed without a validation message"
+        cat output.log
+        all_passed=false
+    fi
+    
+    rm -rf "${config_project}" "${cli_output_dir}" "${invalid_config}"
+    
+    if [ "$all_passed" = true ]; then
+        record_test_result "PASS"
+    else
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test ignore globs
+test_ignore_globs() {
+    print_status "TEST" "Testing --ignore globs..."
+    
+    if ! command -v jq >/dev/null 2>&1; then
+        print_status "WARN" "jq not available, skipping ignore glob checks"
+        record_test_result "PASS"
+        return
+    fi
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json
+    
+    local all_passed=true
+    
+    # Files listed by the Angular tsconfig are dropped too
+    if node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/angular-advanced" --framework angular --ignore "src/app/layout/**" --output json --no-image > output.log 2>&1 && [ -f "user-flows.json" ]; then
+        local header_menus=$(jq '[.menus[] | select(.title == "My Profile")] | length' user-flows.json)
+        local layout_flows=$(jq '[.flows[] | select(.source.file | startswith("src/app/layout/"))] | length' user-flows.json)
+        if [ "$header_menus" -eq 0 ] && [ "$layout_flows" -eq 0 ]; then
+            print_status "SUCCESS" "Ignored Angular files contribute no menus or flows"
+        else
+            print_status "FAIL" "Ignored Angular files still analyzed (menus=${header_menus}, flows=${layout_flows})"
+            all_passed=false
+        fi
+    else
+        print_status "FAIL" "Angular analysis with --ignore failed"
+        cat output.log
+        all_passed=false
+    fi
+    
+    # File-based routes under an ignored folder disappear
+    rm -f user-flows.json
+    if node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/nuxt-sample" --ignore "pages/blog/**" --output json --no-image > output.log 2>&1 && [ -f "user-flows.json" ]; then
+        local blog_routes=$(jq '[.routes[] | select(.fullPath | startswith("/blog"))] | length' user-flows.json)
+        if [ "$blog_routes" -eq 0 ]; then
+            print_status "SUCCESS" "Ignored Nuxt pages produce no routes"
+        else
+            print_status "FAIL" "Ignored Nuxt pages still produced ${blog_routes} routes"
+            all_passed=false
+        fi
+    else
+        print_status "FAIL" "Nuxt analysis with --ignore failed"
+        cat output.log
+        all_passed=false
+    fi
+    
+    # Ignored folders are skipped during framework detection
+    local workspace="${TEMP_TEST_DIR}/ignore-workspace"
+    rm -rf "${workspace}"
+    mkdir -p "${workspace}/apps"
+    cp -r "${MOCK_PROJECTS_DIR}/vue-sample" "${workspace}/apps/web"
+    cp -r "${MOCK_PROJECTS_DIR}/sveltekit-sample" "${workspace}/storybook"
+    if node "${MAIN_JS_PATH}" "${workspace}" --ignore "storybook/**" --output json --no-image > output.log 2>&1 && \
+        grep -q "Found vue project" output.log && ! grep -q "Found sveltekit project" output.log; then
+        print_status "SUCCESS" "Ignored folders skipped during framework detection"
+    else
+        print_status "FAIL" "Ignored folder was still searched for projects"
+        all_passed=false
+    fi
+    rm -rf "${workspace}"
+    
+    if [ "$all_passed" = true ]; then
+        record_test_result "PASS"
+    else
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test monorepo mode
+test_monorepo_mode() {
+    print_status "TEST" "Testing --monorepo workspace analysis..."
+    
+    local workspace="${TEMP_TEST_DIR}/monorepo-workspace"
+    local output_dir="${TEMP_TEST_DIR}/monorepo-output"
+    rm -rf "${workspace}" "${output_dir}"
+    mkdir -p "${workspace}/apps" "${workspace}/libs/ui" "${output_dir}"
+    
+    # npm workspaces for the Vue and SvelteKit apps, Nx project.json for the Angular one
+    cp -r "${MOCK_PROJECTS_DIR}/vue-sample" "${workspace}/apps/web"
+    cp -r "${MOCK_PROJECTS_DIR}/sveltekit-sample" "${workspace}/apps/docs"
+    cp -r "${MOCK_PROJECTS_DIR}/angular-advanced" "${workspace}/apps/admin"
+    rm -f "${workspace}/apps/admin/package.json"
+    echo '{ "private": true, "workspaces": ["apps/*", "libs/*"] }' > "${workspace}/package.json"
+    echo '{}' > "${workspace}/nx.json"
+    echo '{ "name": "web", "dependencies": { "vue": "^3.4.0" } }' > "${workspace}/apps/web/package.json"
+    echo '{ "name": "@acme/docs", "devDependencies": { "@sveltejs/kit": "^2.0.0" } }' > "${workspace}/apps/docs/package.json"
+    echo '{ "name": "admin", "projectType": "application", "targets": { "build": { "executor": "@nx/angular:application" } } }' > "${workspace}/apps/admin/project.json"
+    echo '{ "name": "ui", "projectType": "library" }' > "${workspace}/libs/ui/project.json"
+    echo '{ "name": "@acme/ui", "dependencies": { "react": "^18.0.0" } }' > "${workspace}/libs/ui/package.json"
+    
+    cd "${TEMP_TEST_DIR}"
+    
+    if node "${MAIN_JS_PATH}" "${workspace}" --monorepo --output json --no-image --output-dir "${output_dir}" > output.log 2>&1; then
+        if [ -f "${output_dir}/index.json" ] && [ -f "${output_dir}/index.md" ] && command -v jq >/dev/null 2>&1; then
+            local projects=$(jq -r '[.projects[] | "\(.name):\(.framework)"] | sort | join(",")' "${output_dir}/index.json")
+            if [ "$projects" = "@acme/docs:sveltekit,admin:angular,web:vue" ] && \
+                [ -f "${output_dir}/admin/user-flows.json" ] && [ -f "${output_dir}/acme-docs/user-flows.json" ] && [ -f "${output_dir}/web/user-flows.json" ]; then
+                print_status "SUCCESS" "Monorepo analysis produced one output set per app plus an index"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected monorepo projects: ${projects}"
+                record_test_result "FAIL"
+            fi
+        elif [ -f "${output_dir}/index.json" ]; then
+            print_status "SUCCESS" "Monorepo index generated (jq not available for validation)"
+            record_test_result "PASS"
+        else
+            print_status "FAIL" "Monorepo index was not generated"
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "Monorepo analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    rm -rf "${workspace}" "${output_dir}"
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test the baseline diff report
+test_diff_baseline() {
+    print_status "TEST" "Testing --diff against a saved baseline..."
+    
+    if ! command -v jq >/dev/null 2>&1; then
+        print_status "WARN" "jq not available, skipping baseline diff checks"
+        record_test_result "PASS"
+        return
+    fi
+    
+    local diff_dir="${TEMP_TEST_DIR}/diff-test"
+    rm -rf "${diff_dir}"
+    mkdir -p "${diff_dir}/baseline" "${diff_dir}/current"
+    
+    cd "${TEMP_TEST_DIR}"
+    
+    if ! node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/angular-simple" --output json --no-image --output-dir "${diff_dir}/baseline" > output.log 2>&1; then
+        print_status "FAIL" "Could not generate the baseline JSON"
+        record_test_result "FAIL"
+        cd "${SCRIPT_DIR}"
+        return
+    fi
+    
+    # Pretend the baseline had /legacy instead of /contact, a guarded /settings
+    # and a /settings -> /billing link, but no links to /dashboard
+    jq '.routes |= (map(select(.fullPath != "/contact")) + [{"path": "legacy", "fullPath": "/legacy", "component": "LegacyComponent"}])
+        | .routes |= map(if .fullPath == "/settings" then .guards = ["AuthGuard"] else . end)
+        | .flows |= (map(select(.to != "/dashboard")) + [{"from": "SettingsComponent", "to": "/billing", "type": "static"}])' \
+        "${diff_dir}/baseline/user-flows.json" > "${diff_dir}/baseline.json"
+    
+    if node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/angular-simple" --output json --no-image --output-dir "${diff_dir}/current" --diff "${diff_dir}/baseline.json" > output.log 2>&1 && \
+        [ -f "${diff_dir}/current/user-flows-diff.json" ] && [ -f "${diff_dir}/current/user-flows-diff.md" ]; then
+        local summary=$(jq -r '.metadata.summary | "\(.routesAdded),\(.routesRemoved),\(.routesChanged),\(.flowsRemoved)"' "${diff_dir}/current/user-flows-diff.json")
+        local dashboard_flows=$(jq '[.flows.added[] | select(.flow.to == "/dashboard")] | length' "${diff_dir}/current/user-flows-diff.json")
+        if [ "$summary" = "1,1,1,1" ] && [ "$dashboard_flows" -ge 1 ] && \
+            grep -q 'SettingsComponent (`/settings`) → `/billing`' "${diff_dir}/current/user-flows-diff.md" && \
+            grep -q 'guards: removed `AuthGuard`' "${diff_dir}/current/user-flows-diff.md"; then
+            print_status "SUCCESS" "Diff report lists added/removed routes, guard changes and removed links"
+            record_test_result "PASS"
+        else
+            print_status "FAIL" "Unexpected diff report (summary=${summary}, dashboard flows=${dashboard_flows})"
+            cat "${diff_dir}/current/user-flows-diff.md"
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "Diff command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    rm -rf "${diff_dir}"
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test that the diff compares every guard type and resolver
+test_diff_guard_details() {
+    print_status "TEST" "Testing --diff on canMatch guards and resolvers..."
+    
+    if ! command -v jq >/dev/null 2>&1; then
+        print_status "WARN" "jq not available, skipping guard diff checks"
+        record_test_result "PASS"
+        return
+    fi
+    
+    local diff_dir="${TEMP_TEST_DIR}/diff-guards-test"
+    rm -rf "${diff_dir}"
+    mkdir -p "${diff_dir}/baseline" "${diff_dir}/current"
+    
+    cd "${TEMP_TEST_DIR}"
+    
+    if ! node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/angular-advanced" --framework angular --output json --no-image --output-dir "${diff_dir}/baseline" > output.log 2>&1; then
+        print_status "FAIL" "Could not generate the baseline JSON"
+        record_test_result "FAIL"
+        cd "${SCRIPT_DIR}"
+        return
+    fi
+    
+    # Pretend /admin/settings used to match with legacyMatchGuard and /profile
+    # loaded its data with LegacyProfileResolver
+    jq '(.. | objects | select(.fullPath? == "/admin/settings")).guardDetails.canMatch = [{"name": "legacyMatchGuard", "kind": "function"}]
+        | (.. | objects | select(.fullPath? == "/profile")).resolve.profile = {"name": "LegacyProfileResolver", "kind": "class"}' \
+        "${diff_dir}/baseline/user-flows.json" > "${diff_dir}/baseline.json"
+    
+    if ! node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/angular-advanced" --framework angular --output json --no-image --output-dir "${diff_dir}/current" --diff "${diff_dir}/baseline.json" > output.log 2>&1; then
+        print_status "FAIL" "Diff command failed"
+        cat output.log
+        record_test_result "FAIL"
+        rm -rf "${diff_dir}"
+        cd "${SCRIPT_DIR}"
+        return
+    fi
+    
+    local diff_json="${diff_dir}/current/user-flows-diff.json"
+    local diff_md="${diff_dir}/current/user-flows-diff.md"
+    local changed_paths=$(jq -r '[.routes.changed[].fullPath] | sort | join(",")' "${diff_json}")
+    local settings_changes=$(jq -c '.routes.changed[] | select(.fullPath == "/admin/settings") | .changes' "${diff_json}")
+    if [ "$changed_paths" = "/admin/settings,/profile" ] && \
+        [ "$settings_changes" = '[{"field":"canMatch","before":["legacyMatchGuard"],"after":["adminMatchGuard"]}]' ] && \
+        grep -q 'canMatch: added `adminMatchGuard`; removed `legacyMatchGuard`' "${diff_md}" && \
+        grep -q 'resolve: added `profile: ProfileResolver`; removed `profile: LegacyProfileResolver`' "${diff_md}"; then
+        print_status "SUCCESS" "Diff report lists canMatch guard and resolver changes"
+        record_test_result "PASS"
+    else
+        print_status "FAIL" "Unexpected guard diff (changed=${changed_paths}, /admin/settings=${settings_changes})"
+        cat "${diff_md}"
+        record_test_result "FAIL"
+    fi
+    
+    rm -rf "${diff_dir}"
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test navigation lint rules and exit codes
+test_navigation_lint() {
+    print_status "TEST" "Testing --lint rules and exit codes..."
+    
+    local lint_project="${TEMP_TEST_DIR}/angular-lint"
+    rm -rf "${lint_project}"
+    cp -r "${MOCK_PROJECTS_DIR}/angular-lint" "${lint_project}"
+    echo '{ "dependencies": { "@angular/core": "^17.0.0" } }' > "${lint_project}/package.json"
+    echo '{ "compilerOptions": { "experimentalDecorators": true } }' > "${lint_project}/tsconfig.json"
+    
+    cd "${TEMP_TEST_DIR}"
+    
+    local exit_code=0
+    node "${MAIN_JS_PATH}" "${lint_project}" --lint > output.log 2>&1 || exit_code=$?
+    
+    if [ $exit_code -eq 1 ] && \
+        grep -q "orphan-route: No links, redirects or menu entries lead to /archive (" output.log && \
+        grep -q "dead-end: /reports (ReportsComponent)" output.log && \
+        grep -q "navigation-cycle: Redirect loop: /legacy-reports → /old-reports → /legacy-reports" output.log && \
+        grep -q "unreachable-route: /archive/:year cannot be reached" output.log && \
+        grep -q "shadowed-route: /help is declared after the catch-all /\*\*" output.log && \
+        ! grep -q "orphan-route: .* /archive/:year" output.log; then
+        print_status "SUCCESS" "All lint rules reported and errors exit with code 1"
+    else
+        print_status "FAIL" "Unexpected lint result (exit code ${exit_code})"
+        cat output.log
+        record_test_result "FAIL"
+        rm -rf "${lint_project}"
+        cd "${SCRIPT_DIR}"
+        return
+    fi
+    
+    # Downgrading the failing rules lets the lint pass
+    exit_code=0
+    node "${MAIN_JS_PATH}" "${lint_project}" --lint --lint-rule navigation-cycle=warn,shadowed-route=off > output.log 2>&1 || exit_code=$?
+    if [ $exit_code -ne 0 ] || grep -q "shadowed-route" output.log; then
+        print_status "FAIL" "--lint-rule overrides were not applied (exit code ${exit_code})"
+        cat output.log
+        record_test_result "FAIL"
+        rm -rf "${lint_project}"
+        cd "${SCRIPT_DIR}"
+        return
+    fi
+    
+    # Rules from the config file, with --lint-rule taking precedence
+    echo '{ "lint": { "navigation-cycle": "off", "shadowed-route": "off", "dead-end": "error" } }' > "${lint_project}/userpravah.config.json"
+    exit_code=0
+    node "${MAIN_JS_PATH}" "${lint_project}" --lint > output.log 2>&1 || exit_code=$?
+    local config_exit_code=$exit_code
+    exit_code=0
+    node "${MAIN_JS_PATH}" "${lint_project}" --lint --lint-rule dead-end=warn > output.log 2>&1 || exit_code=$?
+    
+    if [ $config_exit_code -eq 1 ] && [ $exit_code -eq 0 ]; then
+        print_status "SUCCESS" "Lint severities are configurable per rule"
+        record_test_result "PASS"
+    else
+        print_status "FAIL" "Config lint rules not applied (exit codes ${config_exit_code}, ${exit_code})"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    rm -rf "${lint_project}"
+    cd "${SCRIPT_DIR}"
+    }
+
+# Function to test that shadowed-route only applies to first-match routers
+test_lint_catch_all_first() {
+    print_status "TEST" "Testing shadowed-route with a catch-all listed first..."
+    
+    local projects="${TEMP_TEST_DIR}/catch-all-first"
+    rm -rf "${projects}"
+    cp -r "${MOCK_PROJECTS_DIR}/catch-all-first" "${projects}"
+    echo '{ "dependencies": { "vue": "^3.4.0", "vue-router": "^4.2.0" } }' > "${projects}/vue/package.json"
+    echo '{ "dependencies": { "react": "^18.2.0", "react-router-dom": "^6.22.0" } }' > "${projects}/react-v6/package.json"
+    echo '{ "dependencies": { "react": "^17.0.2", "react-router-dom": "^5.3.0" } }' > "${projects}/react-v5/package.json"
+    
+    cd "${TEMP_TEST_DIR}"
+    
+    # Vue Router 4 and React Router v6 rank routes, so nothing is shadowed
+    local project
+    for project in vue react-v6; do
+        local exit_code=0
+        node "${MAIN_JS_PATH}" "${projects}/${project}" --lint > output.log 2>&1 || exit_code=$?
+        if [ $exit_code -ne 0 ] || grep -q "shadowed-route" output.log; then
+            print_status "FAIL" "Catch-all listed first reported as shadowing in ${project} (exit code ${exit_code})"
+            cat output.log
+            record_test_result "FAIL"
+            rm -rf "${projects}"
+            cd "${SCRIPT_DIR}"
+            return
+        fi
+    done
+    
+    # A v5 <Switch> renders its first match
+    local exit_code=0
+    node "${MAIN_JS_PATH}" "${projects}/react-v5" --lint > output.log 2>&1 || exit_code=$?
+    if [ $exit_code -eq 1 ] && \
+        grep -q "shadowed-route: / is declared after the catch-all /\*" output.log && \
+        grep -q "shadowed-route: /about is declared after the catch-all /\*" output.log; then
+        print_status "SUCCESS" "Catch-alls only shadow routes in first-match routers"
+        record_test_result "PASS"
+    else
+        print_status "FAIL" "Routes after a <Switch> catch-all not reported (exit code ${exit_code})"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    rm -rf "${projects}"
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test broken link detection
+test_broken_links() {
+    print_status "TEST" "Testing broken link detection and missing nodes..."
+    
+    local output_dir="${TEMP_TEST_DIR}/broken-links-output"
+    rm -rf "${output_dir}"
+    mkdir -p "${output_dir}"
+    
+    cd "${TEMP_TEST_DIR}"
+    
+    # nextjs-sample links to /contact, /blog and /products, which have no pages
+    if node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/nextjs-sample" --output dot,json --no-image --show-missing --output-dir "${output_dir}" > output.log 2>&1; then
+        if ! grep -q "❌ About (/about) → /contact at pages/about.js:" output.log; then
+            print_status "FAIL" "Broken links were not listed with their origin"
+            cat output.log
+            record_test_result "FAIL"
+        elif ! grep -q '"missing_/contact"' "${output_dir}/user-flows.dot"; then
+            print_status "FAIL" "DOT output has no missing node for /contact"
+            record_test_result "FAIL"
+        elif command -v jq >/dev/null 2>&1; then
+            local missing=$(jq -r '[.missingRoutes[].path] | sort | join(",")' "${output_dir}/user-flows.json")
+            # Links to existing (and parameterized) routes must not be reported
+            local false_positives=$(jq '[.brokenLinks[] | select(.path == "/about" or .path == "/" or (.path | startswith("/users/")))] | length' "${output_dir}/user-flows.json")
+            if [ "$missing" = "/blog,/contact,/products" ] && [ "$false_positives" -eq 0 ]; then
+                print_status "SUCCESS" "Broken links reported in console, JSON and DOT"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected broken links (missing: ${missing}, false positives: ${false_positives})"
+                record_test_result "FAIL"
+            fi
+        else
+            print_status "SUCCESS" "Broken links reported (jq not available for JSON validation)"
+            record_test_result "PASS"
+        fi
+    else
+        print_status "FAIL" "Broken link analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    rm -rf "${output_dir}"
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test route paths and links resolved from constants
+test_route_constants() {
+    print_status "TEST" "Testing route paths and links from constants and enums..."
+    
+    local output_dir="${TEMP_TEST_DIR}/route-constants-output"
+    rm -rf "${output_dir}"
+    mkdir -p "${output_dir}"
+    
+    cd "${TEMP_TEST_DIR}"
+    
+    # angular-advanced keeps its paths in an enum and an `as const` object
+    if ! node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/angular-advanced" --framework angular --output json --no-image --output-dir "${output_dir}" > output.log 2>&1; then
+        print_status "FAIL" "Angular constants analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+        cd "${SCRIPT_DIR}"
+        return
+    fi
+    
+    local angular_routes=""
+    local angular_flows=""
+    if command -v jq >/dev/null 2>&1; then
+        angular_routes=$(jq -r '[.routes[].fullPath] | sort | join(",")' "${output_dir}/user-flows.json")
+        angular_flows=$(jq -r '[.flows[] | select(.from == "HomeComponent" or .from == "DashboardComponent") | "\(.from)>\(.to)"] | sort | join(",")' "${output_dir}/user-flows.json")
+    fi
+    
+    local react_project="${TEMP_TEST_DIR}/route-constants"
+    rm -rf "${react_project}"
+    cp -r "${MOCK_PROJECTS_DIR}/route-constants" "${react_project}"
+    echo '{ "dependencies": { "react": "^18.2.0", "react-router-dom": "^6.8.0" } }' > "${react_project}/package.json"
+    
+    if node "${MAIN_JS_PATH}" "${react_project}" --output json --no-image --output-dir "${output_dir}" > output.log 2>&1; then
+        if command -v jq >/dev/null 2>&1; then
+            local react_routes=$(jq -r '[.routes[].fullPath] | sort | join(",")' "${output_dir}/user-flows.json")
+            local react_flows=$(jq -r '[.flows[] | select(.type != "hierarchy") | "\(.from)>\(.to)"] | sort | join(",")' "${output_dir}/user-flows.json")
+    
+            if [ "$angular_routes" = "/,/admin/settings,/admin/users,/dashboard,/profile,/reports,/users/:id" ] && \
+                [ "$angular_flows" = "DashboardComponent>/profile,HomeComponent>/reports" ] && \
+                [ "$react_routes" = "/,/orders,/shop/cart,/shop/checkout" ] && \
+                [ "$react_flows" = "Cart>/shop/checkout,Checkout>/orders/:param,Home>/shop/cart,Orders>/" ]; then
+                print_status "SUCCESS" "Constant, enum, template and concatenated paths resolved across files"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unresolved constants (angular routes=${angular_routes}, flows=${angular_flows}; react routes=${react_routes}, flows=${react_flows})"
+                record_test_result "FAIL"
+            fi
+        else
+            print_status "SUCCESS" "Constants analysis completed (jq not available for validation)"
+            record_test_result "PASS"
+        fi
+    else
+        print_status "FAIL" "React constants analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    rm -rf "${output_dir}" "${react_project}"
+    cd "${SCRIPT_DIR}"
+    }
+
+# Function to test that only calls on real routers count as navigation
+test_router_call_detection() {
+    print_status "TEST" "Testing router call detection..."
+    
+    local output_dir="${TEMP_TEST_DIR}/router-calls-output"
+    rm -rf "${output_dir}"
+    mkdir -p "${output_dir}/angular" "${output_dir}/react"
+    
+    cd "${TEMP_TEST_DIR}"
+    
+    if node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/angular-advanced" --framework angular --output json --no-image --output-dir "${output_dir}/angular" > output.log 2>&1 && \
+        node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/react-comprehensive" --framework react --output json --no-image --output-dir "${output_dir}/react" >> output.log 2>&1; then
+        if command -v jq >/dev/null 2>&1; then
+            # ProfileComponent navigates through the AppNavigator wrapper (which
+            # injects the Router as _router) and has a wizard with its own navigate()
+            local angular_flows=$(jq -r '[.flows[] | select(.from == "ProfileComponent") | .to] | sort | join(",")' "${output_dir}/angular/user-flows.json")
+            # Dashboard calls navigate through an alias and pushes to a plain array
+            local react_flows=$(jq -r '[.flows[] | select(.from == "Dashboard" and .type == "dynamic") | .to] | sort | join(",")' "${output_dir}/react/user-flows.json")
+    
+            if [ "$angular_flows" = "/,/dashboard" ] && \
+                [ "$react_flows" = "/,/contact,/settings,/settings/profile,/users/current" ]; then
+                print_status "SUCCESS" "Wrapper services and aliases detected, non-router calls ignored"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected programmatic flows (angular=${angular_flows}, react=${react_flows})"
+                record_test_result "FAIL"
+            fi
+        else
+            print_status "SUCCESS" "Router call analysis completed (jq not available for validation)"
+            record_test_result "PASS"
+        fi
+    else
+        print_status "FAIL" "Router call analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    rm -rf "${output_dir}"
+    cd "${SCRIPT_DIR}"
+}
+
 # Function to test backward compatibility
 test_backward_compatibility() {
     print_status "TEST" "Testing backward compatibility with original expected outputs..."
     
-    local all_passed=true
+    local all_passed=true
+    
+    # Test angular-simple with simple-app expected output
+    local project="angular-simple"
+    local project_path="${MOCK_PROJECTS_DIR}/${project}"
+    local expected_file="${EXPECTED_OUTPUTS_DIR}/simple-app.dot"
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png
+    
+    if node "${MAIN_JS_PATH}" "${project_path}" --no-image > /dev/null 2>&1; then
+        if [ -f "user-flows.dot" ] && [ -f "${expected_file}" ]; then
+            # Compare with expected output (allowing for minor formatting differences)
+            if diff -w "user-flows.dot" "${expected_file}" > /dev/null 2>&1; then
+                print_status "SUCCESS" "Backward compatibility maintained for: ${project}"
+            else
+                print_status "WARN" "Output differs for ${project} (this might be acceptable if improvements were made)"
+                # Show diff for inspection but don't fail the test since output may have legitimately improved
+                echo "Differences found:"
+                diff -u "${expected_file}" "user-flows.dot" | head -20
+            fi
+        else
+            print_status "FAIL" "Failed to generate or find expected output for: ${project}"
+            all_passed=false
+        fi
+    else
+        print_status "FAIL" "Analysis failed for: ${project}"
+        all_passed=false
+    fi
+    
+    # Test angular-lazy-loading with lazy-load-app expected output
+    project="angular-lazy-loading"
+    project_path="${MOCK_PROJECTS_DIR}/${project}"
+    expected_file="${EXPECTED_OUTPUTS_DIR}/lazy-load-app.dot"
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png
+    
+    if node "${MAIN_JS_PATH}" "${project_path}" --no-image > /dev/null 2>&1; then
+        if [ -f "user-flows.dot" ] && [ -f "${expected_file}" ]; then
+            # Compare with expected output (allowing for minor formatting differences)
+            if diff -w "user-flows.dot" "${expected_file}" > /dev/null 2>&1; then
+                print_status "SUCCESS" "Backward compatibility maintained for: ${project}"
+            else
+                print_status "WARN" "Output differs for ${project} (this might be acceptable if improvements were made)"
+                # Show diff for inspection but don't fail the test since output may have legitimately improved
+                echo "Differences found:"
+                diff -u "${expected_file}" "user-flows.dot" | head -20
+            fi
+        else
+            print_status "FAIL" "Failed to generate or find expected output for: ${project}"
+            all_passed=false
+        fi
+    else
+        print_status "FAIL" "Analysis failed for: ${project}"
+        all_passed=false
+    fi
+    
+    cd "${SCRIPT_DIR}"
+    
+    # Consider the test passed if analysis succeeded, even if output differs slightly
+    record_test_result "PASS"
+}
+
+# Function to test React Router support
+test_react_router_support() {
+    print_status "TEST" "Testing React Router support..."
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json
+    
+    local project_path="${MOCK_PROJECTS_DIR}/react-sample"
+    if node "${MAIN_JS_PATH}" "${project_path}" --framework react --no-image > output.log 2>&1; then
+        if [ -f "user-flows.dot" ]; then
+            # Validate that React routes were detected
+            local routes_found=$(grep -c "label.*/" user-flows.dot || echo "0")
+            if [ "$routes_found" -ge 5 ]; then
+                print_status "SUCCESS" "React Router analysis completed successfully (${routes_found} routes found)"
+                record_test_result "PASS"
+            else
+                print_status "WARN" "React analysis ran but found fewer routes than expected (${routes_found})"
+                record_test_result "PASS"
+            fi
+        else
+            print_status "FAIL" "React Router analysis failed to generate output"
+            cat output.log
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "React Router analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test React Router data routers, loaders and error boundaries
+test_react_data_router() {
+    print_status "TEST" "Testing React Router data router support..."
+    
+    local project_path="${TEMP_TEST_DIR}/react-data-router"
+    local output_dir="${TEMP_TEST_DIR}/react-data-router-output"
+    rm -rf "${project_path}" "${output_dir}"
+    cp -r "${MOCK_PROJECTS_DIR}/react-data-router" "${project_path}"
+    mkdir -p "${output_dir}"
+    echo '{ "dependencies": { "react": "^18.2.0", "react-router-dom": "^6.22.0" } }' > "${project_path}/package.json"
+    
+    cd "${TEMP_TEST_DIR}"
+    
+    if node "${MAIN_JS_PATH}" "${project_path}" --output json --no-image --output-dir "${output_dir}" > output.log 2>&1; then
+        if command -v jq >/dev/null 2>&1; then
+            local json_file="${output_dir}/user-flows.json"
+            # Routes by component, or redirect target for loader-only routes
+            local app_routes=$(jq -r '[.routes[] | select(.fullPath | startswith("/app/login") | not) | "\(.fullPath)=\(.component // .redirectTo)"] | sort | join(",")' "${json_file}")
+            local login_routes=$(jq -r '[.routes[] | select(.fullPath | startswith("/app/login")) | "\(.fullPath)=\(.component)"] | sort | join(",")' "${json_file}")
+            local loader_redirects=$(jq -r '[.flows[] | select(.label == "loader") | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            local action_redirects=$(jq -r '[.flows[] | select(.label == "action") | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            local boundaries=$(jq -r '[.routes[] | select(.errorElement) | "\(.component):\(.errorElement)"] | sort | join(",")' "${json_file}")
+            local links=$(jq -r '[.flows[] | select(.type == "static" or .type == "dynamic") | .to] | unique | join(",")' "${json_file}")
+    
+            if [ "$app_routes" = "/app/old-projects=/app/projects,/app/projects/:projectId=Project,/app/projects=Projects,/app/settings=Settings,/app=Home,/app=Root" ] && \
+                [ "$login_routes" = "/app/login/reset=Login,/app/login=Login" ] && \
+                [ "$loader_redirects" = "Projects>/app/projects/new,Root>/app/login,Settings>/app/login" ] && \
+                [ "$action_redirects" = "Project>/app/projects" ] && \
+                [ "$boundaries" = "Login:ErrorPage,Root:ErrorPage,Settings:ErrorBoundary" ] && \
+                [ "$links" = "/app,/app/projects,/app/settings" ]; then
+                print_status "SUCCESS" "Data router routes, loader redirects, error boundaries and basename detected"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected data router analysis (routes=${app_routes}, login routes=${login_routes}, loader redirects=${loader_redirects}, action redirects=${action_redirects}, boundaries=${boundaries}, links=${links})"
+                record_test_result "FAIL"
+            fi
+        else
+            print_status "SUCCESS" "Data router analysis completed (jq not available for validation)"
+            record_test_result "PASS"
+        fi
+    else
+        print_status "FAIL" "Data router analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    rm -rf "${project_path}" "${output_dir}"
+    cd "${SCRIPT_DIR}"
+    }
+
+# Function to test wrapper and layout route guards in React
+test_react_route_guards() {
+    print_status "TEST" "Testing React wrapper component route guards..."
+    
+    local project_path="${TEMP_TEST_DIR}/react-route-guards"
+    local output_dir="${TEMP_TEST_DIR}/react-route-guards-output"
+    rm -rf "${project_path}" "${output_dir}"
+    cp -r "${MOCK_PROJECTS_DIR}/react-route-guards" "${project_path}"
+    mkdir -p "${output_dir}/comprehensive"
+    echo '{ "dependencies": { "react": "^18.2.0", "react-router-dom": "^6.22.0" } }' > "${project_path}/package.json"
+    # AdminOnly comes from a library, so only the config marks it as a guard
+    echo '{ "guardComponents": ["AdminOnly"] }' > "${project_path}/userpravah.config.json"
+    
+    cd "${TEMP_TEST_DIR}"
+    
+    if node "${MAIN_JS_PATH}" "${project_path}" --output json --no-image --output-dir "${output_dir}" > output.log 2>&1 && \
+        node "${MAIN_JS_PATH}" "${MOCK_PROJECTS_DIR}/react-comprehensive" --framework react --output json --no-image --output-dir "${output_dir}/comprehensive" >> output.log 2>&1; then
+        if command -v jq >/dev/null 2>&1; then
+            local json_file="${output_dir}/user-flows.json"
+            local wrapper_guards=$(jq -r '[.routes[] | select(.fullPath | startswith("/account")) | "\(.fullPath)=\(.guards | join("+"))"] | sort | join(",")' "${json_file}")
+            local layout_guards=$(jq -r '[.routes[] | select(.fullPath == "/reports" or .fullPath == "/exports") | "\(.fullPath)=\(.guards | join("+"))"] | sort | join(",")' "${json_file}")
+            local admin_guards=$(jq -r '.routes[] | select(.fullPath == "/admin") | .guards | join("+")' "${json_file}")
+            local auth_flows=$(jq -r '[.flows[] | select(.type == "guard" and .label == "RequireAuth") | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            local session_flows=$(jq -r '[.flows[] | select(.type == "guard" and .label == "SessionGate") | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            # <ProtectedRoute><Suspense><Dashboard /></Suspense></ProtectedRoute>
+            local dashboard=$(jq -r '[.routes[] | select(.fullPath == "/dashboard" and .component) | "\(.component):\(.guards | join("+"))"] | unique | join(",")' "${output_dir}/comprehensive/user-flows.json")
+    
+            if [ "$wrapper_guards" = "/account/billing=RequireAuth,/account=RequireAuth" ] && \
+                [ "$layout_guards" = "/exports=SessionGate,/reports=SessionGate" ] && \
+                [ "$admin_guards" = "AdminOnly+RequireAuth(roles=['admin'])" ] && \
+                [ "$auth_flows" = "Account>/,Account>/login,Admin>/,Admin>/login" ] && \
+                [ "$session_flows" = "Exports>/login,Reports>/login" ] && \
+                [ "$dashboard" = "Dashboard:ProtectedRoute" ]; then
+                print_status "SUCCESS" "Wrapper, layout and configured guards detected with their redirects"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected route guards (wrapper=${wrapper_guards}, layout=${layout_guards}, admin=${admin_guards}, RequireAuth flows=${auth_flows}, SessionGate flows=${session_flows}, dashboard=${dashboard})"
+                record_test_result "FAIL"
+            fi
+        else
+            print_status "SUCCESS" "Route guard analysis completed (jq not available for validation)"
+            record_test_result "PASS"
+        fi
+    else
+        print_status "FAIL" "Route guard analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    rm -rf "${project_path}" "${output_dir}"
+    cd "${SCRIPT_DIR}"
+    }
+
+# Function to test Next.js support
+test_nextjs_support() {
+    print_status "TEST" "Testing Next.js file-based routing support..."
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json
+    
+    local project_path="${MOCK_PROJECTS_DIR}/nextjs-sample"
+    if node "${MAIN_JS_PATH}" "${project_path}" --framework react --no-image > output.log 2>&1; then
+        if [ -f "user-flows.dot" ]; then
+            # Check if Next.js file-based routes were detected
+            local routes_found=$(grep -c "label.*/" user-flows.dot || echo "0")
+            if [ "$routes_found" -ge 2 ]; then
+                print_status "SUCCESS" "Next.js analysis completed successfully (${routes_found} routes found)"
+                record_test_result "PASS"
+            else
+                print_status "WARN" "Next.js analysis ran but found fewer routes than expected (${routes_found})"
+                record_test_result "PASS"
+            fi
+        else
+            print_status "WARN" "Next.js analysis ran but no DOT output generated"
+            record_test_result "PASS"
+        fi
+    else
+        print_status "FAIL" "Next.js analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test Next.js middleware and next.config redirects
+test_nextjs_middleware_config() {
+    print_status "TEST" "Testing Next.js middleware and next.config redirects..."
+    
+    local project_path="${TEMP_TEST_DIR}/nextjs-middleware"
+    local output_dir="${TEMP_TEST_DIR}/nextjs-middleware-output"
+    rm -rf "${project_path}" "${output_dir}"
+    cp -r "${MOCK_PROJECTS_DIR}/nextjs-middleware" "${project_path}"
+    mkdir -p "${output_dir}"
+    echo '{ "dependencies": { "next": "^14.1.0", "react": "^18.2.0" } }' > "${project_path}/package.json"
+    
+    cd "${TEMP_TEST_DIR}"
+    
+    if node "${MAIN_JS_PATH}" "${project_path}" --output json --no-image --output-dir "${output_dir}" > output.log 2>&1; then
+        if command -v jq >/dev/null 2>&1; then
+            local json_file="${output_dir}/user-flows.json"
+            # Rules keep basePath unless they opt out, and apply to every locale unless locale: false
+            local rule='.routes[] | select(.fullPath == $path) | [.redirectTo, .data]'
+            local spread_rule=$(jq -c --arg path "/docs/old-blog/:slug" "${rule}" "${json_file}")
+            local home_rule=$(jq -c --arg path "/docs/home" "${rule}" "${json_file}")
+            local locale_rule=$(jq -c --arg path "/docs/de/alt" "${rule}" "${json_file}")
+            local outside_rule=$(jq -c --arg path "/outside" "${rule}" "${json_file}")
+            local rewrite_rule=$(jq -c --arg path "/docs/team" "${rule}" "${json_file}")
+            local redirect_count=$(jq '[.routes[] | select(.redirectTo)] | length' "${json_file}")
+            local guarded=$(jq -r '[.routes[] | select(.guards == ["middleware"]) | .fullPath] | sort | join(",")' "${json_file}")
+            local middleware_redirects=$(jq -r '[.flows[] | select(.label == "middleware") | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            local middleware_rewrites=$(jq -r '[.flows[] | select(.label == "rewrite") | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            local links=$(jq -r '[.flows[] | select(.type == "static") | .to] | unique | join(",")' "${json_file}")
+    
+            if [ "$spread_rule" = '["/docs/blog/:slug",{"permanent":true,"locales":["en","de"]}]' ] && \
+                [ "$home_rule" = '["/docs",{"permanent":false,"locales":["en","de"]}]' ] && \
+                [ "$locale_rule" = '["/docs/de/about",{"permanent":false}]' ] && \
+                [ "$outside_rule" = '["/about",{"permanent":false,"locales":["en","de"]}]' ] && \
+                [ "$rewrite_rule" = '["/docs/about",{"rewrite":true,"locales":["en","de"]}]' ] && \
+                [ "$redirect_count" -eq 5 ] && \
+                [ "$guarded" = "/docs/account,/docs/account/help,/docs/account/settings,/docs/admin" ] && \
+                [ "$middleware_redirects" = "Account>/docs/login,Admin>/docs/login,Settings>/docs/login" ] && \
+                [ "$middleware_rewrites" = "Help>/docs/account,Settings>/docs/account" ] && \
+                [ "$links" = "/docs/about" ]; then
+                print_status "SUCCESS" "Middleware guards, next.config redirects, basePath and locales detected"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected Next.js middleware analysis (rules=${spread_rule} ${home_rule} ${locale_rule} ${outside_rule} ${rewrite_rule}, redirect routes=${redirect_count}, guarded=${guarded}, redirects=${middleware_redirects}, rewrites=${middleware_rewrites}, links=${links})"
+                record_test_result "FAIL"
+            fi
+        else
+            print_status "SUCCESS" "Next.js middleware analysis completed (jq not available for validation)"
+            record_test_result "PASS"
+        fi
+    else
+        print_status "FAIL" "Next.js middleware analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    rm -rf "${project_path}" "${output_dir}"
+    cd "${SCRIPT_DIR}"
+    }
+
+# Function to test Next.js App Router layouts, slots and route handlers
+test_nextjs_app_router() {
+    print_status "TEST" "Testing Next.js App Router layouts and special files..."
     
-    # Test angular-simple with simple-app expected output
-    local project="angular-simple"
-    local project_path="${MOCK_PROJECTS_DIR}/${project}"
-    local expected_file="${EXPECTED_OUTPUTS_DIR}/simple-app.dot"
+    local project_path="${TEMP_TEST_DIR}/nextjs-app-router"
+    local output_dir="${TEMP_TEST_DIR}/nextjs-app-router-output"
+    rm -rf "${project_path}" "${output_dir}"
+    cp -r "${MOCK_PROJECTS_DIR}/nextjs-app-router" "${project_path}"
+    mkdir -p "${output_dir}"
+    echo '{ "dependencies": { "next": "^14.1.0", "react": "^18.2.0" } }' > "${project_path}/package.json"
     
     cd "${TEMP_TEST_DIR}"
-    rm -f *.dot *.png
     
-    if node "${MAIN_JS_PATH}" "${project_path}" --no-image > /dev/null 2>&1; then
-        if [ -f "user-flows.dot" ] && [ -f "${expected_file}" ]; then
-            # Compare with expected output (allowing for minor formatting differences)
-            if diff -w "user-flows.dot" "${expected_file}" > /dev/null 2>&1; then
-                print_status "SUCCESS" "Backward compatibility maintained for: ${project}"
+    if node "${MAIN_JS_PATH}" "${project_path}" --output json --no-image --output-dir "${output_dir}" > output.log 2>&1; then
+        if command -v jq >/dev/null 2>&1; then
+            local json_file="${output_dir}/user-flows.json"
+            # Layouts hold their segment's routes as children, slots render in a named outlet
+            local layouts=$(jq -r '[.. | objects | select(.children? and .fullPath?) | .component] | join(",")' "${json_file}")
+            local root_children=$(jq -r '[.routes[0].children[] | .component + (if .outlet then "@\(.outlet)" else "" end)] | join(",")' "${json_file}")
+            local dashboard_children=$(jq -r '[.. | objects | select(.component? == "DashboardLayout") | .children[].component] | join(",")' "${json_file}")
+            local page_paths=$(jq -r '[.. | objects | select(has("fullPath") and (has("children") | not)) | "\(.fullPath)=\(.component)"] | sort | map(select(contains(":") | not)) | join(",")' "${json_file}")
+            local dynamic_paths=$(jq -r '[.. | objects | select(has("fullPath") and (has("children") | not)) | "\(.fullPath)=\(.component)"] | sort | map(select(contains(":"))) | join(",")' "${json_file}")
+            local boundaries=$(jq -r '.. | objects | select(.component? == "SettingsPage") | "\(.errorElement),\(.loading),\(.notFound)"' "${json_file}")
+            local intercepted=$(jq -r '.. | objects | select(.component? == "PhotoModal") | .data.interceptedFrom' "${json_file}")
+            local api_routes=$(jq -r '[.apiRoutes[] | "\(.path)=\(.methods | join("+"))"] | join(",")' "${json_file}")
+            local broken=$(jq '.brokenLinks | length' "${json_file}")
+    
+            if [ "$layouts" = "RootLayout,DashboardLayout" ] && \
+                [ "$root_children" = "Page,NotFound,AboutPage,PhotoModal@modal,DashboardLayout,Docs,Photo,Shop" ] && \
+                [ "$dashboard_children" = "Dashboard,SettingsPage" ] && \
+                [ "$page_paths" = "/=Page,/_not-found=NotFound,/about=AboutPage,/dashboard/settings=SettingsPage,/dashboard=Dashboard" ] && \
+                [ "$dynamic_paths" = "/docs/:slug*=Docs,/photos/:id=Photo,/photos/:id=PhotoModal,/shop/:categories+=Shop" ] && \
+                [ "$boundaries" = "DashboardError,DashboardLoading,NotFound" ] && \
+                [ "$intercepted" = "/" ] && \
+                [ "$api_routes" = "/api/health=,/api/users/:id=GET+DELETE" ] && \
+                [ "$broken" -eq 0 ]; then
+                print_status "SUCCESS" "Layouts, slots, intercepting routes, boundaries, catch-alls and API routes detected"
+                record_test_result "PASS"
             else
-                print_status "WARN" "Output differs for ${project} (this might be acceptable if improvements were made)"
-                # Show diff for inspection but don't fail the test since output may have legitimately improved
-                echo "Differences found:"
-                diff -u "${expected_file}" "user-flows.dot" | head -20
+                print_status "FAIL" "Unexpected App Router analysis (layouts=${layouts}, root=${root_children}, dashboard=${dashboard_children}, pages=${page_paths}, dynamic=${dynamic_paths}, boundaries=${boundaries}, intercepted=${intercepted}, api=${api_routes}, broken=${broken})"
+                record_test_result "FAIL"
             fi
         else
-            print_status "FAIL" "Failed to generate or find expected output for: ${project}"
-            all_passed=false
+            print_status "SUCCESS" "App Router analysis completed (jq not available for validation)"
+            record_test_result "PASS"
         fi
     else
-        print_status "FAIL" "Analysis failed for: ${project}"
-        all_passed=false
+        print_status "FAIL" "App Router analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
     fi
     
-    # Test angular-lazy-loading with lazy-load-app expected output
-    project="angular-lazy-loading"
-    project_path="${MOCK_PROJECTS_DIR}/${project}"
-    expected_file="${EXPECTED_OUTPUTS_DIR}/lazy-load-app.dot"
+    rm -rf "${project_path}" "${output_dir}"
+    cd "${SCRIPT_DIR}"
+    }
+
+# Function to test Next.js server-side redirects and notFound flows
+test_nextjs_server_redirects() {
+    print_status "TEST" "Testing Next.js server-side redirects..."
+    
+    local project_path="${TEMP_TEST_DIR}/nextjs-server-redirects"
+    local builtin_path="${TEMP_TEST_DIR}/nextjs-builtin-not-found"
+    local output_dir="${TEMP_TEST_DIR}/nextjs-server-redirects-output"
+    rm -rf "${project_path}" "${builtin_path}" "${output_dir}"
+    cp -r "${MOCK_PROJECTS_DIR}/nextjs-server-redirects" "${project_path}"
+    cp -r "${MOCK_PROJECTS_DIR}/nextjs-builtin-not-found" "${builtin_path}"
+    mkdir -p "${output_dir}/builtin"
+    
+    echo '{ "dependencies": { "next": "^14.1.0", "react": "^18.2.0" } }' > "${project_path}/package.json"
+    echo '{ "dependencies": { "next": "^14.1.0", "react": "^18.2.0" } }' > "${builtin_path}/package.json"
     
     cd "${TEMP_TEST_DIR}"
-    rm -f *.dot *.png
     
-    if node "${MAIN_JS_PATH}" "${project_path}" --no-image > /dev/null 2>&1; then
-        if [ -f "user-flows.dot" ] && [ -f "${expected_file}" ]; then
-            # Compare with expected output (allowing for minor formatting differences)
-            if diff -w "user-flows.dot" "${expected_file}" > /dev/null 2>&1; then
-                print_status "SUCCESS" "Backward compatibility maintained for: ${project}"
+    if node "${MAIN_JS_PATH}" "${project_path}" --output json --no-image --output-dir "${output_dir}" > output.log 2>&1 && \
+        node "${MAIN_JS_PATH}" "${builtin_path}" --output json --no-image --output-dir "${output_dir}/builtin" > builtin.log 2>&1; then
+        if command -v jq >/dev/null 2>&1; then
+            local json_file="${output_dir}/user-flows.json"
+            local builtin_file="${output_dir}/builtin/user-flows.json"
+            # Actions and helpers are drawn from the page beside or importing them
+            local page_redirects=$(jq -r '[.flows[] | select(.label == "redirect" or .label == "permanentRedirect") | "\(.from)>\(.to)(\(.label))"] | sort | join(",")' "${json_file}")
+            local data_redirects=$(jq -r '[.flows[] | select(.label == "getServerSideProps") | "\(.from)>\(.to)"] | join(",")' "${json_file}")
+            local handler_redirects=$(jq -r '[.flows[] | select(.label == "route handler") | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            local not_found=$(jq -r '[.flows[] | select(.label == "notFound") | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            local client_flows=$(jq -r '[.flows[] | select(.type == "static" or .type == "dynamic") | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+    
+            # Without not-found pages the flows lead to the ones Next.js serves
+            local builtin_not_found=$(jq -r '[.flows[] | select(.label == "notFound") | "\(.from)>\(.to)"] | sort | join(",")' "${builtin_file}")
+            local builtin_routes=$(jq -r '[.routes[].fullPath | select(test("404|_not-found"))] | sort | join(",")' "${builtin_file}")
+    
+            if [ "$page_redirects" = "Dashboard>/login(redirect),Dashboard>/projects(redirect),Project>/projects/:param(permanentRedirect),Settings>/login(redirect)" ] && \
+                [ "$data_redirects" = "Legacy>/dashboard" ] && \
+                [ "$handler_redirects" = "/api/auth/callback>/dashboard,/api/logout>/login" ] && \
+                [ "$not_found" = "Archive>/_not-found,Project>/_not-found" ] && \
+                [ "$client_flows" = "Dashboard>/settings" ] && \
+                [ "$builtin_not_found" = "Archive>/docs/404,Item>/docs/_not-found" ] && \
+                [ "$builtin_routes" = "/docs/404,/docs/_not-found" ]; then
+                print_status "SUCCESS" "Server component, action, data function and route handler redirects detected"
+                record_test_result "PASS"
             else
-                print_status "WARN" "Output differs for ${project} (this might be acceptable if improvements were made)"
-                # Show diff for inspection but don't fail the test since output may have legitimately improved
-                echo "Differences found:"
-                diff -u "${expected_file}" "user-flows.dot" | head -20
+                print_status "FAIL" "Unexpected server-side redirects (page=${page_redirects}, data=${data_redirects}, handlers=${handler_redirects}, notFound=${not_found}, client=${client_flows}, built-in notFound=${builtin_not_found}, built-in routes=${builtin_routes})"
+                record_test_result "FAIL"
             fi
         else
-            print_status "FAIL" "Failed to generate or find expected output for: ${project}"
-            all_passed=false
+            print_status "SUCCESS" "Server-side redirect analysis completed (jq not available for validation)"
+            record_test_result "PASS"
         fi
     else
-        print_status "FAIL" "Analysis failed for: ${project}"
-        all_passed=false
+        print_status "FAIL" "Server-side redirect analysis command failed"
+        cat output.log builtin.log
+        record_test_result "FAIL"
     fi
     
+    rm -rf "${project_path}" "${builtin_path}" "${output_dir}"
     cd "${SCRIPT_DIR}"
-    
-    # Consider the test passed if analysis succeeded, even if output differs slightly
-    record_test_result "PASS"
-}
+    }
 
-# Function to test React Router support
-test_react_router_support() {
-    print_status "TEST" "Testing React Router support..."
+# Function to test Remix v2 flat routes and React Router framework-mode routes.ts
+test_remix_routes() {
+    print_status "TEST" "Testing Remix flat routes and routes.ts..."
+    
+    local flat_path="${TEMP_TEST_DIR}/remix-flat-routes"
+    local config_path="${TEMP_TEST_DIR}/remix-routes-config"
+    local output_dir="${TEMP_TEST_DIR}/remix-output"
+    rm -rf "${flat_path}" "${config_path}" "${output_dir}"
+    cp -r "${MOCK_PROJECTS_DIR}/remix-flat-routes" "${flat_path}"
+    cp -r "${MOCK_PROJECTS_DIR}/remix-routes-config" "${config_path}"
+    mkdir -p "${output_dir}/flat" "${output_dir}/config"
+    echo '{ "dependencies": { "@remix-run/node": "^2.8.0", "@remix-run/react": "^2.8.0", "react": "^18.2.0" } }' > "${flat_path}/package.json"
+    echo '{ "dependencies": { "react-router": "^7.1.0", "react": "^19.0.0" }, "devDependencies": { "@react-router/dev": "^7.1.0", "@react-router/fs-routes": "^7.1.0" } }' > "${config_path}/package.json"
     
     cd "${TEMP_TEST_DIR}"
-    rm -f *.dot *.png *.json
     
-    local project_path="${MOCK_PROJECTS_DIR}/react-sample"
-    if node "${MAIN_JS_PATH}" "${project_path}" --framework react --no-image > output.log 2>&1; then
-        if [ -f "user-flows.dot" ]; then
-            # Validate that React routes were detected
-            local routes_found=$(grep -c "label.*/" user-flows.dot || echo "0")
-            if [ "$routes_found" -ge 5 ]; then
-                print_status "SUCCESS" "React Router analysis completed successfully (${routes_found} routes found)"
+    if node "${MAIN_JS_PATH}" "${flat_path}" --output json --no-image --output-dir "${output_dir}/flat" > output.log 2>&1 && \
+        node "${MAIN_JS_PATH}" "${config_path}" --output json --no-image --output-dir "${output_dir}/config" >> output.log 2>&1; then
+        if command -v jq >/dev/null 2>&1; then
+            local flat_json="${output_dir}/flat/user-flows.json"
+            local config_json="${output_dir}/config/user-flows.json"
+            # Routes by component, or redirect target for action-only routes,
+            # whose path matches $pattern
+            local route_query='[.routes[] | select(.fullPath | test($pattern)) | "\(.fullPath)=\(.component // .redirectTo)"] | sort | join(",")'
+            local flow_query='[.flows[] | select(.type == "redirect" or .label == "form") | "\(.from)>\(.to)(\(.label))"] | sort | join(",")'
+            local flat_count=$(jq '.routes | length' "${flat_json}")
+            local flat_users=$(jq -r --arg pattern '^/users' "$route_query" "${flat_json}")
+            local flat_segments=$(jq -r --arg pattern '[?*]' "$route_query" "${flat_json}")
+            local flat_auth=$(jq -r --arg pattern '^/(login|logout|register)?$' "$route_query" "${flat_json}")
+            local flat_flows=$(jq -r "$flow_query" "${flat_json}")
+            local flat_extras=$(jq -r '[(.routes[] | select(.errorElement) | "\(.component):\(.errorElement)"), (.apiRoutes[] | "\(.path)=\(.methods | join("|"))")] | join(",")' "${flat_json}")
+            local config_count=$(jq '.routes | length' "${config_json}")
+            local config_concerts=$(jq -r --arg pattern '^/concerts' "$route_query" "${config_json}")
+            local config_other=$(jq -r --arg pattern '^/(login|:slug)?$' "$route_query" "${config_json}")
+            local config_flows=$(jq -r "$flow_query" "${config_json}")
+    
+            if [ "$flat_count" -eq 12 ] && \
+                [ "$flat_users" = "/users/:id/edit=UsersIdEdit,/users/:id=UserProfile,/users/new=NewUser,/users=UserList,/users=Users" ] && \
+                [ "$flat_segments" = "/:lang?/about=About,/en?/pricing=Pricing,/files/*=Files" ] && \
+                [ "$flat_auth" = "/=Index,/login=Login,/logout=/,/register=Register" ] && \
+                [ "$flat_flows" = "AuthLayout>/users(loader),Index>/logout(form),UsersIdEdit>/users/:param(action)" ] && \
+                [ "$flat_extras" = "Login:ErrorBoundary,/sitemap.xml=GET" ] && \
+                [ "$config_count" -eq 6 ] && \
+                [ "$config_concerts" = "/concerts/:city/trending=Trending,/concerts/:city=City,/concerts=ConcertsHome" ] && \
+                [ "$config_other" = "/:slug=BlogPost,/=Home,/login=Login" ] && \
+                [ "$config_flows" = "AuthLayout>/(loader),City>/concerts/new-york(loader),Login>/concerts(form)" ]; then
+                print_status "SUCCESS" "Flat routes, routes.ts, loader and action redirects and form actions detected"
                 record_test_result "PASS"
             else
-                print_status "WARN" "React analysis ran but found fewer routes than expected (${routes_found})"
-                record_test_result "PASS"
+                print_status "FAIL" "Unexpected Remix routes (flat=${flat_count}: ${flat_users} ${flat_segments} ${flat_auth}, flows=${flat_flows}, extras=${flat_extras}, config=${config_count}: ${config_concerts} ${config_other}, config flows=${config_flows})"
+                record_test_result "FAIL"
             fi
         else
-            print_status "FAIL" "React Router analysis failed to generate output"
-            cat output.log
-            record_test_result "FAIL"
+            print_status "SUCCESS" "Remix route analysis completed (jq not available for validation)"
+            record_test_result "PASS"
         fi
     else
-        print_status "FAIL" "React Router analysis command failed"
+        print_status "FAIL" "Remix route analysis command failed"
         cat output.log
         record_test_result "FAIL"
     fi
     
+    rm -rf "${flat_path}" "${config_path}" "${output_dir}"
     cd "${SCRIPT_DIR}"
-}
+    }
 
-# Function to test Next.js support
-test_nextjs_support() {
-    print_status "TEST" "Testing Next.js file-based routing support..."
+# Function to test TanStack Router file-based routes
+test_tanstack_file_routes() {
+    print_status "TEST" "Testing TanStack Router file-based routes..."
+    
+    local project_path="${TEMP_TEST_DIR}/tanstack-file-routes"
+    local output_dir="${TEMP_TEST_DIR}/tanstack-file-routes-output"
+    rm -rf "${project_path}" "${output_dir}"
+    cp -r "${MOCK_PROJECTS_DIR}/tanstack-file-routes" "${project_path}"
+    mkdir -p "${output_dir}"
+    echo '{ "dependencies": { "@tanstack/react-router": "^1.45.0", "react": "^18.2.0" } }' > "${project_path}/package.json"
     
     cd "${TEMP_TEST_DIR}"
-    rm -f *.dot *.png *.json
     
-    local project_path="${MOCK_PROJECTS_DIR}/nextjs-sample"
-    if node "${MAIN_JS_PATH}" "${project_path}" --framework react --no-image > output.log 2>&1; then
-        if [ -f "user-flows.dot" ]; then
-            # Check if Next.js file-based routes were detected
-            local routes_found=$(grep -c "label.*/" user-flows.dot || echo "0")
-            if [ "$routes_found" -ge 2 ]; then
-                print_status "SUCCESS" "Next.js analysis completed successfully (${routes_found} routes found)"
+    if node "${MAIN_JS_PATH}" "${project_path}" --output json --no-image --output-dir "${output_dir}" > output.log 2>&1; then
+        if command -v jq >/dev/null 2>&1; then
+            local json_file="${output_dir}/user-flows.json"
+            local route_count=$(jq '.routes | length' "${json_file}")
+            local post_routes=$(jq -r '[.routes[] | select(.fullPath | startswith("/posts")) | "\(.fullPath)=\(.component)"] | sort | join(",")' "${json_file}")
+            local other_routes=$(jq -r '[.routes[] | select(.fullPath | startswith("/posts") | not) | "\(.fullPath)=\(.component)"] | sort | join(",")' "${json_file}")
+            local guarded=$(jq -r '[.routes[] | select(.guards) | "\(.component):\(.guards | join("|"))"] | sort | join(",")' "${json_file}")
+            local guard_redirects=$(jq -r '[.flows[] | select(.label == "beforeLoad") | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            local loader_redirects=$(jq -r '[.flows[] | select(.label == "loader") | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            local param_links=$(jq -r '[.flows[] | select((.type == "static" or .type == "dynamic") and (.to | contains(":"))) | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            local other_links=$(jq -r '[.flows[] | select((.type == "static" or .type == "dynamic") and (.to | contains(":") | not)) | "\(.from)>\(.to)"] | sort | join(",")' "${json_file}")
+            local error_element=$(jq -r '.routes[] | select(.component == "PostsLayout") | .errorElement' "${json_file}")
+    
+            if [ "$route_count" -eq 9 ] && \
+                [ "$post_routes" = "/posts/:postId/edit=EditPost,/posts/:postId=PostDetail,/posts=PostList,/posts=PostsLayout" ] && \
+                [ "$other_routes" = "/=Index,/dashboard=Dashboard,/files/*=Files,/login=Login,/settings=Settings" ] && \
+                [ "$guarded" = "Dashboard:beforeLoad,Settings:beforeLoad" ] && \
+                [ "$guard_redirects" = "Dashboard>/login,Settings>/dashboard,Settings>/login" ] && \
+                [ "$loader_redirects" = "PostsLayout>/posts/new" ] && \
+                [ "$param_links" = "EditPost>/posts/:postId,PostDetail>/posts/:postId/edit,PostList>/posts/:postId" ] && \
+                [ "$other_links" = "Index>/posts,RootComponent>/" ] && \
+                [ "$error_element" = "PostsError" ]; then
+                print_status "SUCCESS" "File routes, pathless layouts, beforeLoad guards and typed links detected"
                 record_test_result "PASS"
             else
-                print_status "WARN" "Next.js analysis ran but found fewer routes than expected (${routes_found})"
-                record_test_result "PASS"
+                print_status "FAIL" "Unexpected TanStack routes (routes=${route_count}: ${post_routes} ${other_routes}, guards=${guarded}, redirects=${guard_redirects} ${loader_redirects}, links=${param_links} ${other_links}, errorComponent=${error_element})"
+                record_test_result "FAIL"
             fi
         else
-            print_status "WARN" "Next.js analysis ran but no DOT output generated"
+            print_status "SUCCESS" "TanStack Router analysis completed (jq not available for validation)"
             record_test_result "PASS"
         fi
     else
-        print_status "FAIL" "Next.js analysis command failed"
+        print_status "FAIL" "TanStack Router analysis command failed"
         cat output.log
         record_test_result "FAIL"
     fi
     
+    rm -rf "${project_path}" "${output_dir}"
     cd "${SCRIPT_DIR}"
-}
+    }
 
 # Function to test React JSON output
 test_react_json_output() {
@@ -572,6 +1617,295 @@ test_react_expected_output() {
     cd "${SCRIPT_DIR}"
 }
 
+# Function to test Angular menu extraction
+test_angular_menus() {
+    print_status "TEST" "Testing Angular menu extraction..."
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json
+    
+    local project_path="${MOCK_PROJECTS_DIR}/angular-advanced"
+    if node "${MAIN_JS_PATH}" "${project_path}" --framework angular --output json --no-image > output.log 2>&1; then
+        if [ -f "user-flows.json" ] && command -v jq >/dev/null 2>&1; then
+            local typed_roles=$(jq -r '.menus[] | select(.path == "/reports") | .roles | join(",")' user-flows.json)
+            local admin_roles=$(jq -r '.menus[] | select(.title == "Administration") | .roles | join(",")' user-flows.json)
+            local admin_children=$(jq -r '.menus[] | select(.title == "Administration") | [.children[].path] | join(",")' user-flows.json)
+            local ngif_roles=$(jq -r '.menus[] | select(.path == "/profile") | .roles | join(",")' user-flows.json)
+            local route_menus=$(jq '[.menus[] | select(.title == "Home Page" or .title == "Users")] | length' user-flows.json)
+            
+            if [ "$typed_roles" = "manager,admin" ] && [ "$admin_roles" = "admin" ] && [ "$admin_children" = "/admin/users,/admin/settings" ] && [ "$ngif_roles" = "user" ] && [ "$route_menus" -eq 0 ]; then
+                print_status "SUCCESS" "Angular menus extracted ($(jq '.menus | length' user-flows.json) top-level entries)"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected Angular menus (reports=${typed_roles}, admin=${admin_roles}, children=${admin_children}, profile=${ngif_roles})"
+                record_test_result "FAIL"
+            fi
+        elif [ -f "user-flows.json" ]; then
+            print_status "SUCCESS" "Angular JSON file generated (jq not available for validation)"
+            record_test_result "PASS"
+        else
+            print_status "FAIL" "Angular menu analysis failed to generate output"
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "Angular menu analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test Angular guard and resolver extraction
+test_angular_guards() {
+    print_status "TEST" "Testing Angular guards and resolvers..."
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json
+    
+    local project_path="${MOCK_PROJECTS_DIR}/angular-advanced"
+    if node "${MAIN_JS_PATH}" "${project_path}" --framework angular --output dot,json --no-image > output.log 2>&1; then
+        if [ -f "user-flows.json" ] && command -v jq >/dev/null 2>&1; then
+            local inline_guard=$(jq -r '.routes[] | select(.fullPath == "/dashboard") | .guardDetails.canActivate[0] | "\(.kind):\(.name):\(.injects | join(","))"' user-flows.json)
+            local report_guards=$(jq -r '.routes[] | select(.fullPath == "/reports") | [.guardDetails.canActivate[] | "\(.kind):\(.expression // .name)"] | join(",")' user-flows.json)
+            local profile=$(jq -r '.routes[] | select(.fullPath == "/profile") | "\(.guards | join(",")):\(.guardDetails.canDeactivate[0].name):\(.resolve.profile.name)"' user-flows.json)
+            local admin=$(jq -r '.routes[] | select(.fullPath == "/admin/users") | "\(.guardDetails.canMatch[0].kind):\(.guardDetails.canActivateChild[0].expression)"' user-flows.json)
+            local options=$(jq -r '[.routes[] | select(.fullPath == "/reports" or .fullPath == "/admin/settings" or .fullPath == "/") | .runGuardsAndResolvers // .outlet // .pathMatch] | join(",")' user-flows.json)
+    
+            if [ "$inline_guard" = "inline:AuthService.isLoggedIn:AuthService" ] && \
+                [ "$report_guards" = "class:AuthGuard,factory:hasRole('manager')" ] && \
+                [ "$profile" = "AuthGuard:unsavedChangesGuard:ProfileResolver" ] && \
+                [ "$admin" = "function:hasRole('admin')" ] && \
+                [ "$options" = "full,always,primary" ] && \
+                grep -q 'label = "canActivate: AuthGuard; canDeactivate: unsavedChangesGuard; resolve: profile"' user-flows.dot; then
+                print_status "SUCCESS" "Guards, resolvers and route options captured and annotated in DOT"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected guards (dashboard=${inline_guard}, reports=${report_guards}, profile=${profile}, admin=${admin}, options=${options})"
+                record_test_result "FAIL"
+            fi
+        elif [ -f "user-flows.json" ]; then
+            print_status "SUCCESS" "Angular JSON file generated (jq not available for validation)"
+            record_test_result "PASS"
+        else
+            print_status "FAIL" "Angular guard analysis failed to generate output"
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "Angular guard analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test bound, array and relative routerLink parsing
+test_angular_router_links() {
+    print_status "TEST" "Testing Angular bound and relative routerLinks..."
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json
+    
+    local project_path="${MOCK_PROJECTS_DIR}/angular-advanced"
+    if node "${MAIN_JS_PATH}" "${project_path}" --framework angular --output json --no-image > output.log 2>&1; then
+        if [ -f "user-flows.json" ] && command -v jq >/dev/null 2>&1; then
+            local user_links=$(jq -r '[.flows[] | select(.from == "AdminUsers" or .from == "UserDetail") | "\(.from)>\(.to)"] | sort | join(",")' user-flows.json)
+            local query=$(jq -r '.flows[] | select(.from == "AdminUsers") | .queryParams | "\(.tab),\(.page)"' user-flows.json)
+            local fragment=$(jq -r '.flows[] | select(.from == "UserDetail" and .to == "/reports") | .fragment' user-flows.json)
+            local loop_links=$(jq '[.flows[] | select(.to | test("item|child"))] | length' user-flows.json)
+            local navigate_targets=$(jq -r '[.flows[] | select(.from == "ReportsComponent") | .to] | sort | join(",")' user-flows.json)
+    
+            if [ "$user_links" = "AdminUsers>/users/:id,UserDetail>/admin/users,UserDetail>/profile,UserDetail>/reports,UserDetail>/users/1,UserDetail>/users/2" ] && \
+                [ "$query" = "activity,currentPage" ] && \
+                [ "$fragment" = "latest" ] && \
+                [ "$loop_links" -eq 0 ] && \
+                [ "$navigate_targets" = "/users/1,/users/:id" ]; then
+                print_status "SUCCESS" "Array, member, relative routerLinks and query params resolved"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected routerLink flows (links=${user_links}, queryParams=${query}, fragment=${fragment}, loop links=${loop_links}, navigate=${navigate_targets})"
+                record_test_result "FAIL"
+            fi
+        elif [ -f "user-flows.json" ]; then
+            print_status "SUCCESS" "Angular JSON file generated (jq not available for validation)"
+            record_test_result "PASS"
+        else
+            print_status "FAIL" "Angular routerLink analysis failed to generate output"
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "Angular routerLink analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test control flow blocks, anchors and event binding navigation
+test_angular_template_syntax() {
+    print_status "TEST" "Testing Angular control flow blocks and event bindings..."
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json
+    
+    local project_path="${MOCK_PROJECTS_DIR}/angular-advanced"
+    if node "${MAIN_JS_PATH}" "${project_path}" --framework angular --output json --no-image > output.log 2>&1; then
+        if [ -f "user-flows.json" ] && command -v jq >/dev/null 2>&1; then
+            # ReportsComponent links from @if/@defer blocks and an href anchor,
+            # and navigates from (click) handlers inside an <ng-template>
+            local links=$(jq -r '[.flows[] | select(.from == "Reports") | "\(.type):\(.to)"] | sort | join(",")' user-flows.json)
+            local duplicates=$(jq '[.flows[] | select(.from == "Reports" and .to == "/users/:id")] | length' user-flows.json)
+    
+            if [ "$links" = "dynamic:/,dynamic:/admin/settings,static:/dashboard,static:/profile" ] && \
+                [ "$duplicates" -eq 0 ]; then
+                print_status "SUCCESS" "Links in control flow blocks, anchors and (click) navigation captured"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected template flows (links=${links}, duplicated method calls=${duplicates})"
+                record_test_result "FAIL"
+            fi
+        elif [ -f "user-flows.json" ]; then
+            print_status "SUCCESS" "Angular JSON file generated (jq not available for validation)"
+            record_test_result "PASS"
+        else
+            print_status "FAIL" "Angular template analysis failed to generate output"
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "Angular template analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test Vue Router support
+test_vue_router_support() {
+    print_status "TEST" "Testing Vue Router support..."
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json
+    
+    local project_path="${MOCK_PROJECTS_DIR}/vue-sample"
+    if node "${MAIN_JS_PATH}" "${project_path}" --output json --no-image > output.log 2>&1; then
+        if ! grep -q "Analyzing with vue analyzer" output.log; then
+            print_status "FAIL" "Vue project was not auto-detected"
+            record_test_result "FAIL"
+        elif [ -f "user-flows.json" ] && command -v jq >/dev/null 2>&1; then
+            local children=$(jq '[.routes[] | select(.fullPath == "/users") | .children[]?] | length' user-flows.json)
+            local guards=$(jq -r '.routes[] | select(.fullPath == "/admin") | .guards | join(",")' user-flows.json)
+            local lazy=$(jq -r '.routes[] | select(.fullPath == "/about") | .component' user-flows.json)
+            local template_flows=$(jq '[.flows[] | select(.type == "static")] | length' user-flows.json)
+            local script_flows=$(jq '[.flows[] | select(.type == "dynamic")] | length' user-flows.json)
+            
+            if [ "$children" -eq 2 ] && [ "$guards" = "requireAuth,requireAdmin" ] && [ "$lazy" = "AboutView" ] && [ "$template_flows" -ge 5 ] && [ "$script_flows" -ge 3 ]; then
+                print_status "SUCCESS" "Vue Router analysis completed (${template_flows} template flows, ${script_flows} programmatic flows)"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected Vue analysis (children=${children}, guards=${guards}, lazy=${lazy}, flows=${template_flows}/${script_flows})"
+                record_test_result "FAIL"
+            fi
+        elif [ -f "user-flows.json" ]; then
+            print_status "SUCCESS" "Vue JSON file generated (jq not available for validation)"
+            record_test_result "PASS"
+        else
+            print_status "FAIL" "Vue analysis failed to generate output"
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "Vue analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test Nuxt file-based routing support
+test_nuxt_support() {
+    print_status "TEST" "Testing Nuxt file-based routing support..."
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json
+    
+    local project_path="${MOCK_PROJECTS_DIR}/nuxt-sample"
+    if node "${MAIN_JS_PATH}" "${project_path}" --output json --no-image > output.log 2>&1; then
+        if [ -f "user-flows.json" ] && command -v jq >/dev/null 2>&1; then
+            local paths=$(jq -r '[.. | objects | select(has("fullPath")) | .fullPath] | join(",")' user-flows.json)
+            local children=$(jq '[.routes[] | select(.fullPath == "/users") | .children[]?] | length' user-flows.json)
+            local guards=$(jq -r '.routes[] | select(.fullPath == "/admin") | .guards | join(",")' user-flows.json)
+            local navigate_to=$(jq '[.flows[] | select(.from == "IndexPage" and .to == "/admin")] | length' user-flows.json)
+            
+            if [[ ",${paths}," == *",/users/:id,"* ]] && [[ ",${paths}," == *",/docs/:slug*,"* ]] && [[ ",${paths}," == *",/blog/:page?,"* ]] \
+                && [ "$children" -eq 2 ] && [ "$guards" = "auth,admin" ] && [ "$navigate_to" -eq 1 ]; then
+                print_status "SUCCESS" "Nuxt pages, layouts, middleware and navigateTo() detected"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected Nuxt analysis (paths=${paths}, children=${children}, guards=${guards})"
+                record_test_result "FAIL"
+            fi
+        elif [ -f "user-flows.json" ]; then
+            print_status "SUCCESS" "Nuxt JSON file generated (jq not available for validation)"
+            record_test_result "PASS"
+        else
+            print_status "FAIL" "Nuxt analysis failed to generate output"
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "Nuxt analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
+# Function to test SvelteKit support
+test_sveltekit_support() {
+    print_status "TEST" "Testing SvelteKit support..."
+    
+    cd "${TEMP_TEST_DIR}"
+    rm -f *.dot *.png *.json
+    
+    local project_path="${MOCK_PROJECTS_DIR}/sveltekit-sample"
+    if node "${MAIN_JS_PATH}" "${project_path}" --output json --no-image > output.log 2>&1; then
+        if ! grep -q "Analyzing with sveltekit analyzer" output.log; then
+            print_status "FAIL" "SvelteKit project was not auto-detected"
+            record_test_result "FAIL"
+        elif [ -f "user-flows.json" ] && command -v jq >/dev/null 2>&1; then
+            local paths=$(jq -r '[.. | objects | select(has("fullPath")) | .fullPath] | join(",")' user-flows.json)
+            local redirect_route=$(jq -r '.routes[] | select(.fullPath == "/old-blog") | .redirectTo' user-flows.json)
+            local redirects=$(jq '[.flows[] | select(.type == "redirect")] | length' user-flows.json)
+            local gotos=$(jq '[.flows[] | select(.type == "dynamic")] | length' user-flows.json)
+            local external=$(jq '[.flows[] | select(.to | test("^(https?:|#)"))] | length' user-flows.json)
+            
+            if [[ ",${paths}," == *",/blog/:slug,"* ]] && [[ ",${paths}," == *",/docs/:path*,"* ]] && [[ ",${paths}," == *",/settings/:tab?,"* ]] && [[ ",${paths}," == *",/dashboard,"* ]] \
+                && [ "$redirect_route" = "/blog" ] && [ "$redirects" -ge 3 ] && [ "$gotos" -ge 2 ] && [ "$external" -eq 0 ]; then
+                print_status "SUCCESS" "SvelteKit routes, redirects, anchors and goto() detected"
+                record_test_result "PASS"
+            else
+                print_status "FAIL" "Unexpected SvelteKit analysis (paths=${paths}, redirects=${redirects}, gotos=${gotos}, external=${external})"
+                record_test_result "FAIL"
+            fi
+        elif [ -f "user-flows.json" ]; then
+            print_status "SUCCESS" "SvelteKit JSON file generated (jq not available for validation)"
+            record_test_result "PASS"
+        else
+            print_status "FAIL" "SvelteKit analysis failed to generate output"
+            record_test_result "FAIL"
+        fi
+    else
+        print_status "FAIL" "SvelteKit analysis command failed"
+        cat output.log
+        record_test_result "FAIL"
+    fi
+    
+    cd "${SCRIPT_DIR}"
+}
+
 # Function to test error handling
 test_error_handling() {
     print_status "TEST" "Testing error handling for invalid projects..."
@@ -746,16 +2080,52 @@ run_all_tests() {
     test_layouts
     test_no_image_flag
     test_output_directory
+    test_mermaid_output
+    test_html_output
+    test_source_locations
+    test_config_file
+    test_ignore_globs
+    test_monorepo_mode
+    test_diff_baseline
+    test_diff_guard_details
+    test_navigation_lint
+    test_lint_catch_all_first
+    test_broken_links
+    test_route_constants
+    test_router_call_detection
     test_backward_compatibility
     
+    # Angular-specific tests
+    print_status "INFO" "🧪 Running Angular Framework Tests..."
+    test_angular_menus
+    test_angular_guards
+    test_angular_router_links
+    test_angular_template_syntax
+    
     # React-specific tests
     print_status "INFO" "🧪 Running React Framework Tests..."
     test_react_router_support
+    test_react_data_router
+    test_react_route_guards
     test_nextjs_support
+    test_nextjs_middleware_config
+    test_nextjs_app_router
+    test_nextjs_server_redirects
+    test_remix_routes
+    test_tanstack_file_routes
     test_react_json_output
     test_react_themes
     test_react_expected_output
     
+    # Vue-specific tests
+    print_status "INFO" "🧪 Running Vue Framework Tests..."
+    test_vue_router_support
+    test_nuxt_support
+    
+    # SvelteKit-specific tests
+    print_status "INFO" "🧪 Running SvelteKit Framework Tests..."
+    test_sveltekit_support
+    
     # API tests
     print_status "INFO" "🧪 Running Programmatic API Tests..."
     test_angular_programmatic_api
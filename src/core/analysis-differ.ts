@@ -0,0 +1,183 @@
+import {
+  AnalysisResult,
+  AnalysisDiff,
+  FlowChange,
+  NavigationFlow,
+  Route,
+  RouteChange,
+  RouteFieldChange,
+  RouteFunction,
+  RouteGuardType,
+} from "./types.js";
+import * as fs from "fs";
+
+/**
+ * Compares the current analysis with a baseline saved by the JSON generator
+ */
+export class AnalysisDiffer {
+  /**
+   * Read a user-flows.json written by JsonGenerator
+   */
+  loadBaseline(filePath: string): AnalysisResult {
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Baseline file does not exist: ${filePath}`);
+    }
+
+    let data: any;
+    try {
+      data = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch (error: any) {
+      throw new Error(`Could not parse baseline ${filePath}: ${error.message}`);
+    }
+
+    if (!data || !Array.isArray(data.routes) || !Array.isArray(data.flows)) {
+      throw new Error(
+        `Baseline ${filePath} is not a UserPravah JSON output (expected "routes" and "flows" arrays)`
+      );
+    }
+
+    return {
+      routes: data.routes,
+      flows: data.flows,
+      menus: Array.isArray(data.menus) ? data.menus : [],
+    };
+  }
+
+  diff(baseline: AnalysisResult, current: AnalysisResult): AnalysisDiff {
+    const baselineRoutes = this.flattenRoutes(baseline.routes);
+    const currentRoutes = this.flattenRoutes(current.routes);
+
+    const addedRoutes: Route[] = [];
+    const changedRoutes: RouteChange[] = [];
+    for (const [fullPath, route] of currentRoutes) {
+      const before = baselineRoutes.get(fullPath);
+      if (!before) {
+        addedRoutes.push(route);
+        continue;
+      }
+      const changes = this.compareRoutes(before, route);
+      if (changes.length > 0) {
+        changedRoutes.push({ fullPath, changes });
+      }
+    }
+    const removedRoutes = Array.from(baselineRoutes.entries())
+      .filter(([fullPath]) => !currentRoutes.has(fullPath))
+      .map(([, route]) => route);
+
+    const baselineFlows = this.indexFlows(baseline.flows);
+    const currentFlows = this.indexFlows(current.flows);
+    const addedFlows = Array.from(currentFlows.entries())
+      .filter(([key]) => !baselineFlows.has(key))
+      .map(([, flow]) => this.describeFlow(flow, current.routes));
+    const removedFlows = Array.from(baselineFlows.entries())
+      .filter(([key]) => !currentFlows.has(key))
+      .map(([, flow]) => this.describeFlow(flow, baseline.routes));
+
+    return {
+      routes: {
+        added: addedRoutes,
+        removed: removedRoutes,
+        changed: changedRoutes,
+      },
+      flows: {
+        added: addedFlows,
+        removed: removedFlows,
+      },
+      hasChanges:
+        addedRoutes.length +
+          removedRoutes.length +
+          changedRoutes.length +
+          addedFlows.length +
+          removedFlows.length >
+        0,
+    };
+  }
+
+  // Routes are matched by fullPath; children are compared individually
+  private flattenRoutes(routes: Route[]): Map<string, Route> {
+    const flattened = new Map<string, Route>();
+    const visit = (route: Route) => {
+      if (!flattened.has(route.fullPath)) {
+        flattened.set(route.fullPath, route);
+      }
+      route.children?.forEach(visit);
+    };
+    routes.forEach(visit);
+    return flattened;
+  }
+
+  private compareRoutes(before: Route, after: Route): RouteFieldChange[] {
+    const changes: RouteFieldChange[] = [];
+
+    for (const field of ["component", "redirectTo", "loadChildren"] as const) {
+      if ((before[field] || undefined) !== (after[field] || undefined)) {
+        changes.push({ field, before: before[field], after: after[field] });
+      }
+    }
+
+    const guardsBefore = [...(before.guards ?? [])].sort();
+    const guardsAfter = [...(after.guards ?? [])].sort();
+    if (guardsBefore.join(",") !== guardsAfter.join(",")) {
+      changes.push({ field: "guards", before: guardsBefore, after: guardsAfter });
+    }
+
+    // canActivate is already compared through `guards`
+    const guardTypes = new Set([
+      ...Object.keys(before.guardDetails ?? {}),
+      ...Object.keys(after.guardDetails ?? {}),
+    ] as RouteGuardType[]);
+    guardTypes.delete("canActivate");
+    for (const guardType of guardTypes) {
+      const labelsBefore = (before.guardDetails?.[guardType] ?? [])
+        .map((guard) => this.getRouteFunctionLabel(guard))
+        .sort();
+      const labelsAfter = (after.guardDetails?.[guardType] ?? [])
+        .map((guard) => this.getRouteFunctionLabel(guard))
+        .sort();
+      if (labelsBefore.join(",") !== labelsAfter.join(",")) {
+        changes.push({ field: guardType, before: labelsBefore, after: labelsAfter });
+      }
+    }
+
+    const resolveBefore = this.describeResolvers(before);
+    const resolveAfter = this.describeResolvers(after);
+    if (resolveBefore.join(",") !== resolveAfter.join(",")) {
+      changes.push({ field: "resolve", before: resolveBefore, after: resolveAfter });
+    }
+
+    return changes;
+  }
+
+  private getRouteFunctionLabel(routeFunction: RouteFunction): string {
+    return routeFunction.kind === "factory" && routeFunction.expression
+      ? routeFunction.expression
+      : routeFunction.name;
+  }
+
+  // "user: UserResolver" for each data key
+  private describeResolvers(route: Route): string[] {
+    return Object.entries(route.resolve ?? {})
+      .map(([key, resolver]) => `${key}: ${this.getRouteFunctionLabel(resolver)}`)
+      .sort();
+  }
+
+  // Duplicate links (the same target linked twice from one page) count once;
+  // source locations are ignored so moving code around is not a change
+  private indexFlows(flows: NavigationFlow[]): Map<string, NavigationFlow> {
+    const indexed = new Map<string, NavigationFlow>();
+    for (const flow of flows) {
+      const key = [flow.from, flow.to, flow.type, flow.label ?? ""].join("\u0000");
+      if (!indexed.has(key)) {
+        indexed.set(key, flow);
+      }
+    }
+    return indexed;
+  }
+
+  private describeFlow(flow: NavigationFlow, routes: Route[]): FlowChange {
+    const fromRoute = Array.from(this.flattenRoutes(routes).values()).find(
+      (route) => route.component === flow.from
+    );
+    return fromRoute ? { flow, fromPath: fromRoute.fullPath } : { flow };
+  }
+}
@@ -0,0 +1,59 @@
+import { AnalysisResult, BrokenLink } from "./types.js";
+import { RouteMatcher } from "./route-matcher.js";
+
+/**
+ * Finds links and navigate calls whose target no route can render. Targets
+ * only caught by the app-wide not-found route count as broken.
+ */
+export class BrokenLinkDetector {
+  detect(analysis: AnalysisResult): BrokenLink[] {
+    // Without routes every link would be reported
+    if (analysis.routes.length === 0) {
+      return [];
+    }
+
+    const matcher = new RouteMatcher(analysis.routes);
+    const brokenLinks: BrokenLink[] = [];
+
+    for (const flow of analysis.flows) {
+      if (
+        flow.type === "hierarchy" ||
+        this.isExternal(flow.to) ||
+        this.isExpression(flow.to)
+      ) {
+        continue;
+      }
+
+      const fromRoute = matcher.findSourceRoutes(flow.from)[0];
+      const targetPath = matcher.resolvePath(flow.to, fromRoute);
+
+      // Fully dynamic targets (navigate([url])) cannot be checked
+      const segments = targetPath.split("/").filter(Boolean);
+      if (segments.length > 0 && segments.every((s) => s.startsWith(":"))) continue;
+
+      const route = matcher.match(targetPath);
+      if (route && !matcher.isFallback(route)) continue;
+
+      brokenLinks.push({
+        from: flow.from,
+        to: flow.to,
+        path: targetPath,
+        type: flow.type,
+        ...(fromRoute ? { fromPath: fromRoute.fullPath } : {}),
+        ...(flow.source ? { source: flow.source } : {}),
+      });
+    }
+
+    return brokenLinks;
+  }
+
+  // Unresolved property reads such as item.path
+  private isExpression(target: string): boolean {
+    return /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)+$/.test(target);
+  }
+
+  // http:, mailto:, tel: and similar links leave the app
+  private isExternal(target: string): boolean {
+    return /^[a-z][a-z\d+.-]*:/i.test(target) || target.startsWith("//");
+  }
+}
@@ -0,0 +1,168 @@
+import { UserPravahConfig } from "./types.js";
+import { FlowLinter } from "./flow-linter.js";
+import * as fs from "fs";
+import * as path from "path";
+
+export interface LoadedConfig {
+  config: UserPravahConfig;
+  filePath: string;
+}
+
+/**
+ * Finds, parses and validates UserPravah project configuration files
+ */
+export class ConfigLoader {
+  static readonly CONFIG_FILE_NAMES = [
+    "userpravah.config.json",
+    ".userpravah.json",
+  ];
+
+  /**
+   * Look for a config file in the project root
+   */
+  findConfigFile(projectPath: string): string | null {
+    for (const fileName of ConfigLoader.CONFIG_FILE_NAMES) {
+      const filePath = path.join(projectPath, fileName);
+      if (fs.existsSync(filePath)) {
+        return filePath;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Load the explicit config file, or the one discovered in the project root.
+   * Returns null when no config exists; throws when a config is invalid.
+   */
+  load(projectPath: string, configPath?: string): LoadedConfig | null {
+    const filePath = configPath
+      ? path.resolve(configPath)
+      : this.findConfigFile(projectPath);
+    if (!filePath) {
+      return null;
+    }
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`Config file does not exist: ${filePath}`);
+    }
+
+    let config: UserPravahConfig;
+    try {
+      config = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch (error: any) {
+      throw new Error(`Could not parse config file ${filePath}: ${error.message}`);
+    }
+
+    const errors = this.validate(config);
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid config file ${filePath}:\n  - ${errors.join("\n  - ")}`
+      );
+    }
+
+    // Paths inside the config are relative to the file, not the working directory
+    if (config.outputDir) {
+      config.outputDir = path.resolve(path.dirname(filePath), config.outputDir);
+    }
+
+    return { config, filePath };
+  }
+
+  /**
+   * Validates the shape of a parsed config; returns validation errors
+   */
+  validate(config: any): string[] {
+    const errors: string[] = [];
+
+    if (!config || typeof config !== "object" || Array.isArray(config)) {
+      return ["config must be a JSON object"];
+    }
+
+    for (const key of ["framework", "outputDir", "theme", "layout"]) {
+      if (config[key] !== undefined && typeof config[key] !== "string") {
+        errors.push(`${key} must be a string`);
+      }
+    }
+
+    if (
+      config.output !== undefined &&
+      typeof config.output !== "string" &&
+      !this.isStringArray(config.output)
+    ) {
+      errors.push("output must be a string or an array of strings");
+    }
+
+    for (const key of ["generateImage", "monorepo"]) {
+      if (config[key] !== undefined && typeof config[key] !== "boolean") {
+        errors.push(`${key} must be a boolean`);
+      }
+    }
+
+    if (config.ignore !== undefined && !this.isStringArray(config.ignore)) {
+      errors.push("ignore must be an array of glob strings");
+    }
+
+    if (
+      config.guardComponents !== undefined &&
+      !this.isStringArray(config.guardComponents)
+    ) {
+      errors.push("guardComponents must be an array of component names");
+    }
+
+    if (config.generators !== undefined) {
+      if (typeof config.generators !== "object" || Array.isArray(config.generators)) {
+        errors.push("generators must be an object keyed by output format");
+      } else {
+        for (const [format, options] of Object.entries(config.generators)) {
+          if (!options || typeof options !== "object" || Array.isArray(options)) {
+            errors.push(`generators.${format} must be an object`);
+          }
+        }
+      }
+    }
+
+    if (config.lint !== undefined) {
+      if (!config.lint || typeof config.lint !== "object" || Array.isArray(config.lint)) {
+        errors.push("lint must be an object mapping rule names to off, warn or error");
+      } else {
+        errors.push(...this.validateLintRules(config.lint).map((e) => `lint.${e}`));
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Normalizes the output setting to a list of format names
+   */
+  getOutputFormats(config: UserPravahConfig): string[] | undefined {
+    if (config.output === undefined) {
+      return undefined;
+    }
+    const formats =
+      typeof config.output === "string" ? config.output.split(",") : config.output;
+    return formats.map((f) => f.trim()).filter((f) => f.length > 0);
+  }
+
+  /**
+   * Checks rule names and severities, for the config file and --lint-rule
+   */
+  validateLintRules(rules: Record<string, any>): string[] {
+    const errors: string[] = [];
+    for (const [rule, severity] of Object.entries(rules)) {
+      if (!(rule in FlowLinter.DEFAULT_RULES)) {
+        errors.push(
+          `${rule} is not a lint rule (expected one of ${Object.keys(
+            FlowLinter.DEFAULT_RULES
+          ).join(", ")})`
+        );
+      } else if (!FlowLinter.SEVERITIES.includes(severity)) {
+        errors.push(`${rule} must be one of ${FlowLinter.SEVERITIES.join(", ")}`);
+      }
+    }
+    return errors;
+  }
+
+  private isStringArray(value: any): value is string[] {
+    return Array.isArray(value) && value.every((v) => typeof v === "string");
+  }
+}
@@ -0,0 +1,293 @@
+import {
+  Node,
+  ObjectLiteralExpression,
+  PropertyAssignment,
+  SyntaxKind,
+  TemplateExpression,
+} from "ts-morph";
+
+/**
+ * Evaluates expressions that reduce to a constant string, such as route
+ * paths kept in a constants file. Follows identifiers, enum members,
+ * `as const` objects and imports across files, and folds simple template
+ * literals and `+` concatenation.
+ */
+export class ConstantEvaluator {
+  private static readonly MAX_DEPTH = 20;
+
+  /**
+   * The string an expression always evaluates to, or undefined when it
+   * depends on runtime values
+   */
+  evaluateString(node: Node): string | undefined {
+    return this.evaluate(node, 0, new Set());
+  }
+
+  /**
+   * Render a template literal with its constant parts filled in, e.g.
+   * `${ROUTES.users}/${id}` becomes "/users/" + placeholder(id)
+   */
+  evaluateTemplate(
+    node: TemplateExpression,
+    placeholder: (expression: Node) => string
+  ): string {
+    let value = node.getHead().getLiteralText();
+    for (const span of node.getTemplateSpans()) {
+      const expression = span.getExpression();
+      value +=
+        (this.evaluateString(expression) ?? placeholder(expression)) +
+        span.getLiteral().getLiteralText();
+    }
+    return value;
+  }
+
+  private evaluate(
+    node: Node,
+    depth: number,
+    visited: Set<Node>
+  ): string | undefined {
+    if (depth > ConstantEvaluator.MAX_DEPTH || visited.has(node)) {
+      return undefined;
+    }
+    visited.add(node);
+    try {
+      return this.evaluateNode(node, depth + 1, visited);
+    } finally {
+      visited.delete(node);
+    }
+  }
+
+  private evaluateNode(
+    node: Node,
+    depth: number,
+    visited: Set<Node>
+  ): string | undefined {
+    if (
+      Node.isStringLiteral(node) ||
+      Node.isNoSubstitutionTemplateLiteral(node)
+    ) {
+      return node.getLiteralValue();
+    }
+
+    if (Node.isTemplateExpression(node)) {
+      let value = node.getHead().getLiteralText();
+      for (const span of node.getTemplateSpans()) {
+        const spanValue = this.evaluate(span.getExpression(), depth, visited);
+        if (spanValue === undefined) return undefined;
+        value += spanValue + span.getLiteral().getLiteralText();
+      }
+      return value;
+    }
+
+    if (Node.isBinaryExpression(node)) {
+      if (node.getOperatorToken().getKind() !== SyntaxKind.PlusToken) {
+        return undefined;
+      }
+      const left = this.evaluate(node.getLeft(), depth, visited);
+      const right =
+        left === undefined
+          ? undefined
+          : this.evaluate(node.getRight(), depth, visited);
+      return right === undefined ? undefined : left! + right;
+    }
+
+    // (x), x as const, x satisfies T, x!
+    if (
+      Node.isParenthesizedExpression(node) ||
+      Node.isAsExpression(node) ||
+      Node.isSatisfiesExpression(node) ||
+      Node.isNonNullExpression(node) ||
+      Node.isTypeAssertion(node)
+    ) {
+      return this.evaluate(node.getExpression(), depth, visited);
+    }
+
+    if (Node.isIdentifier(node)) {
+      return this.evaluateReference(node, depth, visited);
+    }
+
+    if (
+      Node.isPropertyAccessExpression(node) ||
+      Node.isElementAccessExpression(node)
+    ) {
+      return (
+        this.evaluateReference(node, depth, visited) ??
+        this.evaluateMemberOfObject(node, depth, visited)
+      );
+    }
+
+    return undefined;
+  }
+
+  // Follow the symbol to the variable, enum member or property it names
+  private evaluateReference(
+    node: Node,
+    depth: number,
+    visited: Set<Node>
+  ): string | undefined {
+    let symbol = node.getSymbol();
+    if (symbol?.isAlias()) {
+      symbol = symbol.getAliasedSymbol() ?? symbol;
+    }
+
+    // A property shared by several object literals (the elements of
+    // `[{ to: "/a" }, { to: "/b" }]`) has a different value per element
+    const declarations = (symbol?.getDeclarations() ?? []).filter(
+      (declaration) =>
+        Node.isVariableDeclaration(declaration) ||
+        Node.isEnumMember(declaration) ||
+        Node.isPropertyAssignment(declaration) ||
+        Node.isPropertyDeclaration(declaration)
+    );
+    if (declarations.length > 1) {
+      return undefined;
+    }
+
+    const declaration = declarations[0];
+    if (declaration) {
+      if (
+        Node.isPropertyAssignment(declaration) &&
+        !this.isConstantObjectProperty(declaration)
+      ) {
+        return undefined;
+      }
+      const initializer = this.getDeclarationInitializer(declaration);
+      if (initializer) {
+        const value = this.evaluate(initializer, depth, visited);
+        if (value !== undefined) return value;
+      }
+    }
+
+    // Literal types cover declarations without an initializer we can read,
+    // e.g. `declare const HOME: "/home"`
+    const literal = node.getType().getLiteralValue();
+    if (typeof literal === "string") {
+      return literal;
+    }
+    return undefined;
+  }
+
+  private getDeclarationInitializer(declaration: Node): Node | undefined {
+    if (
+      Node.isVariableDeclaration(declaration) ||
+      Node.isEnumMember(declaration) ||
+      Node.isPropertyAssignment(declaration) ||
+      Node.isPropertyDeclaration(declaration)
+    ) {
+      // Only readonly class properties are constant
+      if (
+        Node.isPropertyDeclaration(declaration) &&
+        !(declaration.isReadonly() && declaration.isStatic())
+      ) {
+        return undefined;
+      }
+      // let and var can be reassigned
+      if (
+        Node.isVariableDeclaration(declaration) &&
+        declaration.getVariableStatement()?.getDeclarationKind() !== "const"
+      ) {
+        return undefined;
+      }
+      return declaration.getInitializer();
+    }
+    return undefined;
+  }
+
+  // Whether the property sits in an object literal, possibly nested, that
+  // initializes a constant binding, rather than an array element or a call
+  // argument
+  private isConstantObjectProperty(property: PropertyAssignment): boolean {
+    let object: Node = property.getParentOrThrow();
+    while (true) {
+      let parent = object.getParent();
+      while (
+        parent &&
+        (Node.isParenthesizedExpression(parent) ||
+          Node.isAsExpression(parent) ||
+          Node.isSatisfiesExpression(parent))
+      ) {
+        object = parent;
+        parent = parent.getParent();
+      }
+      if (!Node.isPropertyAssignment(parent)) {
+        return (
+          parent !== undefined &&
+          this.getDeclarationInitializer(parent) === object
+        );
+      }
+      object = parent.getParentOrThrow();
+    }
+  }
+
+  // ROUTES.admin.users, where the symbol lookup failed (e.g. untyped JS):
+  // find the object literal and walk its properties by name
+  private evaluateMemberOfObject(
+    node: Node,
+    depth: number,
+    visited: Set<Node>
+  ): string | undefined {
+    const names: string[] = [];
+    let current: Node = node;
+    while (
+      Node.isPropertyAccessExpression(current) ||
+      Node.isElementAccessExpression(current)
+    ) {
+      const argument = Node.isElementAccessExpression(current)
+        ? current.getArgumentExpression()
+        : undefined;
+      const name = Node.isPropertyAccessExpression(current)
+        ? current.getName()
+        : argument && this.evaluate(argument, depth, visited);
+      if (name === undefined) return undefined;
+      names.unshift(name);
+      current = current.getExpression();
+    }
+
+    let object = this.resolveObjectLiteral(current, depth);
+    for (let i = 0; object && i < names.length; i++) {
+      const property = object.getProperty(names[i]);
+      const initializer =
+        property && Node.isPropertyAssignment(property)
+          ? property.getInitializer()
+          : undefined;
+      if (!initializer) return undefined;
+      if (i === names.length - 1) {
+        return this.evaluate(initializer, depth, visited);
+      }
+      object = this.resolveObjectLiteral(initializer, depth);
+    }
+    return undefined;
+  }
+
+  private resolveObjectLiteral(
+    node: Node,
+    depth: number
+  ): ObjectLiteralExpression | undefined {
+    if (depth > ConstantEvaluator.MAX_DEPTH) return undefined;
+
+    if (Node.isObjectLiteralExpression(node)) {
+      return node;
+    }
+    if (
+      Node.isParenthesizedExpression(node) ||
+      Node.isAsExpression(node) ||
+      Node.isSatisfiesExpression(node)
+    ) {
+      return this.resolveObjectLiteral(node.getExpression(), depth + 1);
+    }
+    if (Node.isIdentifier(node)) {
+      let symbol = node.getSymbol();
+      if (symbol?.isAlias()) {
+        symbol = symbol.getAliasedSymbol() ?? symbol;
+      }
+      for (const declaration of symbol?.getDeclarations() ?? []) {
+        const initializer = this.getDeclarationInitializer(declaration);
+        const object =
+          initializer &&
+          this.resolveObjectLiteral(initializer, depth + 1);
+        if (object) return object;
+      }
+    }
+    return undefined;
+  }
+}
@@ -4,7 +4,21 @@ import {
   OutputGenerationOptions,
   GeneratedOutput,
 } from "./output-generator.interface.js";
-import { ProjectAnalysisOptions, AnalysisResult } from "./types.js";
+import { ConfigLoader } from "./config-loader.js";
+import { IgnoreFilter } from "./ignore-filter.js";
+import { WorkspaceDetector } from "./workspace-detector.js";
+import { FlowLinter } from "./flow-linter.js";
+import { BrokenLinkDetector } from "./broken-link-detector.js";
+import {
+  ProjectAnalysisOptions,
+  AnalysisResult,
+  DetectedProject,
+  MonorepoAnalysisResult,
+  MonorepoProjectResult,
+  LintResult,
+  LintRuleConfig,
+} from "./types.js";
+import { MonorepoIndexGenerator } from "../outputs/monorepo/monorepo-index-generator.js";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -12,6 +26,13 @@ export class FlowAnalyzer {
   private frameworkAnalyzers = new Map<string, IFrameworkAnalyzer>();
   private outputGenerators = new Map<string, IOutputGenerator>();
 
+  private static readonly FRAMEWORK_PRIORITY: { [key: string]: number } = {
+    angular: 1,
+    react: 2,
+    vue: 3,
+    sveltekit: 4,
+  };
+
   /**
    * Register a framework analyzer
    */
@@ -52,7 +73,8 @@ export class FlowAnalyzer {
   private async findFrameworkProjectsRecursively(
     rootPath: string,
     maxDepth: number = 3,
-    currentDepth: number = 0
+    currentDepth: number = 0,
+    ignoreFilter?: IgnoreFilter
   ): Promise<{ framework: string; path: string }[]> {
     const results: { framework: string; path: string }[] = [];
 
@@ -80,12 +102,17 @@ export class FlowAnalyzer {
         const entries = fs.readdirSync(rootPath, { withFileTypes: true });
         
         for (const entry of entries) {
-          if (entry.isDirectory() && !this.shouldSkipDirectory(entry.name)) {
-            const subPath = path.join(rootPath, entry.name);
+          const subPath = path.join(rootPath, entry.name);
+          if (
+            entry.isDirectory() &&
+            !this.shouldSkipDirectory(entry.name) &&
+            !ignoreFilter?.isIgnored(subPath)
+          ) {
             const subResults = await this.findFrameworkProjectsRecursively(
               subPath,
               maxDepth,
-              currentDepth + 1
+              currentDepth + 1,
+              ignoreFilter
             );
             results.push(...subResults);
           }
@@ -130,10 +157,14 @@ export class FlowAnalyzer {
   /**
    * Auto-detect the framework for a project, searching recursively up to 3 levels deep
    */
-  async detectFramework(projectPath: string): Promise<string | null> {
+  async detectFramework(
+    projectPath: string,
+    ignore: string[] = []
+  ): Promise<string | null> {
     console.log(`🔍 Searching for frameworks in ${projectPath} (up to 3 levels deep)...`);
     
-    const foundProjects = await this.findFrameworkProjectsRecursively(projectPath, 3);
+    const ignoreFilter = await new IgnoreFilter(projectPath, ignore).load();
+    const foundProjects = await this.findFrameworkProjectsRecursively(projectPath, 3, 0, ignoreFilter);
     
     if (foundProjects.length === 0) {
       console.log("❌ No framework projects found");
@@ -154,12 +185,8 @@ export class FlowAnalyzer {
         return depthA - depthB; // Prefer shallower paths
       }
       
-      // If same depth, prefer Angular over React (arbitrary preference)
-      const frameworkPriority: { [key: string]: number } = { 'angular': 1, 'react': 2 };
-      const priorityA = frameworkPriority[a.framework.toLowerCase()] || 999;
-      const priorityB = frameworkPriority[b.framework.toLowerCase()] || 999;
-      
-      return priorityA - priorityB;
+      // If same depth, prefer Angular, then React, Vue and SvelteKit (arbitrary preference)
+      return this.getFrameworkPriority(a.framework) - this.getFrameworkPriority(b.framework);
     });
 
     console.log(`🎯 Multiple projects found, selecting: ${foundProjects[0].framework} at ${foundProjects[0].path}`);
@@ -171,11 +198,131 @@ export class FlowAnalyzer {
     return foundProjects[0].framework;
   }
 
+  private getFrameworkPriority(framework: string): number {
+    return FlowAnalyzer.FRAMEWORK_PRIORITY[framework.toLowerCase()] || 999;
+  }
+
+  /**
+   * Find every project in a workspace: projects listed by angular.json, Nx
+   * and npm/pnpm workspaces, plus any other folder an analyzer recognises
+   */
+  async findProjects(
+    rootPath: string,
+    ignore: string[] = []
+  ): Promise<DetectedProject[]> {
+    console.log(`🔍 Searching for projects in ${rootPath}...`);
+
+    const ignoreFilter = await new IgnoreFilter(rootPath, ignore).load();
+    const workspaceProjects = await new WorkspaceDetector().detect(
+      rootPath,
+      ignoreFilter
+    );
+    const workspacePaths = workspaceProjects.map((p) => p.path);
+    const projects = new Map<string, DetectedProject>();
+
+    for (const workspaceProject of workspaceProjects) {
+      if (workspaceProject.projectType === "library") {
+        continue;
+      }
+      const framework = await this.resolveProjectFramework(
+        workspaceProject.path,
+        workspaceProject.framework
+      );
+      if (framework) {
+        projects.set(workspaceProject.path, {
+          name: workspaceProject.name,
+          framework,
+          path: workspaceProject.path,
+        });
+      } else {
+        console.log(
+          `⏭️  Skipping ${workspaceProject.name}: no analyzer recognises ${workspaceProject.path}`
+        );
+      }
+    }
+
+    const resolvedRoot = path.resolve(rootPath);
+    const foundProjects = await this.findFrameworkProjectsRecursively(
+      rootPath,
+      3,
+      0,
+      ignoreFilter
+    );
+    foundProjects.sort(
+      (a, b) =>
+        this.getFrameworkPriority(a.framework) -
+        this.getFrameworkPriority(b.framework)
+    );
+
+    for (const found of foundProjects) {
+      const projectPath = path.resolve(found.path);
+      const isInsideWorkspaceProject = workspacePaths.some(
+        (workspacePath) =>
+          projectPath === workspacePath ||
+          projectPath.startsWith(workspacePath + path.sep)
+      );
+      // A workspace root's package.json lists the dependencies of every app
+      const isWorkspaceRoot =
+        projectPath === resolvedRoot && workspaceProjects.length > 0;
+
+      if (projects.has(projectPath) || isInsideWorkspaceProject || isWorkspaceRoot) {
+        continue;
+      }
+
+      projects.set(projectPath, {
+        name:
+          path.relative(resolvedRoot, projectPath).split(path.sep).join("-") ||
+          path.basename(resolvedRoot),
+        framework: found.framework,
+        path: projectPath,
+      });
+    }
+
+    // Project names become output folders, so keep them unique
+    const usedNames = new Set<string>();
+    return Array.from(projects.values()).map((project) => {
+      let name = project.name;
+      for (let i = 2; usedNames.has(name); i++) {
+        name = `${project.name}-${i}`;
+      }
+      usedNames.add(name);
+      return { ...project, name };
+    });
+  }
+
+  /**
+   * Use the workspace's framework hint when we have that analyzer, otherwise
+   * ask the analyzers in priority order
+   */
+  private async resolveProjectFramework(
+    projectPath: string,
+    hint?: string
+  ): Promise<string | null> {
+    if (hint && this.frameworkAnalyzers.has(hint)) {
+      return hint;
+    }
+
+    const analyzers = Array.from(this.frameworkAnalyzers.entries()).sort(
+      ([a], [b]) => this.getFrameworkPriority(a) - this.getFrameworkPriority(b)
+    );
+    for (const [name, analyzer] of analyzers) {
+      if (await analyzer.canAnalyze(projectPath)) {
+        return name;
+      }
+    }
+    return null;
+  }
+
   /**
    * Get the detected project path for a framework
    */
-  async getFrameworkProjectPath(projectPath: string, frameworkName?: string): Promise<string> {
-    const foundProjects = await this.findFrameworkProjectsRecursively(projectPath, 3);
+  async getFrameworkProjectPath(
+    projectPath: string,
+    frameworkName?: string,
+    ignore: string[] = []
+  ): Promise<string> {
+    const ignoreFilter = await new IgnoreFilter(projectPath, ignore).load();
+    const foundProjects = await this.findFrameworkProjectsRecursively(projectPath, 3, 0, ignoreFilter);
     
     if (frameworkName) {
       const project = foundProjects.find(p => p.framework.toLowerCase() === frameworkName.toLowerCase());
@@ -197,6 +344,10 @@ export class FlowAnalyzer {
       throw new Error(`Project path does not exist: ${options.projectPath}`);
     }
 
+    if (options.ignore && options.ignore.length > 0) {
+      console.log(`🙈 Ignoring paths matching: ${options.ignore.join(", ")}`);
+    }
+
     let frameworkName = options.framework.toLowerCase();
     let actualProjectPath = options.projectPath;
 
@@ -207,7 +358,10 @@ export class FlowAnalyzer {
       !this.frameworkAnalyzers.has(frameworkName)
     ) {
       console.log("🔍 Auto-detecting framework...");
-      const detectedFramework = await this.detectFramework(options.projectPath);
+      const detectedFramework = await this.detectFramework(
+        options.projectPath,
+        options.ignore
+      );
 
       if (!detectedFramework) {
         throw new Error(
@@ -221,19 +375,34 @@ export class FlowAnalyzer {
       console.log(`✅ Detected framework: ${frameworkName}`);
       
       // Get the actual project path where the framework was detected
-      actualProjectPath = await this.getFrameworkProjectPath(options.projectPath, frameworkName);
+      actualProjectPath = await this.getFrameworkProjectPath(options.projectPath, frameworkName, options.ignore);
       if (actualProjectPath !== options.projectPath) {
         console.log(`📁 Using framework project path: ${actualProjectPath}`);
       }
     } else {
       // Even if framework is specified, get the correct project path
-      actualProjectPath = await this.getFrameworkProjectPath(options.projectPath, frameworkName);
+      actualProjectPath = await this.getFrameworkProjectPath(options.projectPath, frameworkName, options.ignore);
       if (actualProjectPath !== options.projectPath) {
         console.log(`📁 Using framework project path: ${actualProjectPath}`);
       }
     }
 
-    // Get the framework analyzer
+    // Create modified options with the actual project path; ignore globs stay
+    // anchored at the path the user gave us
+    return this.analyzeProject(frameworkName, {
+      ...options,
+      projectPath: actualProjectPath,
+      ignore: IgnoreFilter.resolvePatterns(options.projectPath, options.ignore),
+    });
+  }
+
+  /**
+   * Run one framework analyzer on an already-located project
+   */
+  private async analyzeProject(
+    frameworkName: string,
+    options: ProjectAnalysisOptions
+  ): Promise<AnalysisResult> {
     const analyzer = this.frameworkAnalyzers.get(frameworkName);
     if (!analyzer) {
       throw new Error(
@@ -243,19 +412,19 @@ export class FlowAnalyzer {
       );
     }
 
-    // Create modified options with the actual project path
-    const modifiedOptions: ProjectAnalysisOptions = {
-      ...options,
-      projectPath: actualProjectPath
-    };
-
     // Perform the analysis
     console.log(`📊 Analyzing with ${frameworkName} analyzer...`);
-    const result = await analyzer.analyze(modifiedOptions);
+    const result = await analyzer.analyze(options);
+    result.brokenLinks = new BrokenLinkDetector().detect(result);
 
     console.log(
       `✨ Analysis complete! Found ${result.routes.length} routes and ${result.flows.length} navigation flows.`
     );
+    if (result.brokenLinks.length > 0) {
+      console.log(
+        `🔗 ${result.brokenLinks.length} links point at paths no route matches`
+      );
+    }
     return result;
   }
 
@@ -286,9 +455,16 @@ export class FlowAnalyzer {
         continue;
       }
 
+      // Format-specific options (e.g. from a config file) override the shared ones
+      const { generators, ...sharedOptions } = defaultOptions;
+      const formatOptions: OutputGenerationOptions = {
+        ...sharedOptions,
+        ...(generators?.[formatName.toLowerCase()] ?? {}),
+      };
+
       try {
         // Validate options for this generator
-        const errors = generator.validateOptions(defaultOptions);
+        const errors = generator.validateOptions(formatOptions);
         if (errors.length > 0) {
           console.warn(
             `⚠️ Invalid options for ${formatName} generator:`,
@@ -298,7 +474,7 @@ export class FlowAnalyzer {
         }
 
         console.log(`🎨 Generating ${formatName} output...`);
-        const output = await generator.generate(analysisResult, defaultOptions);
+        const output = await generator.generate(analysisResult, formatOptions);
         outputs.push(output);
         console.log(`✅ Generated ${formatName}: ${output.filePath}`);
 
@@ -322,6 +498,8 @@ export class FlowAnalyzer {
     options: ProjectAnalysisOptions,
     outputOptions: Partial<OutputGenerationOptions> = {}
   ): Promise<{ analysis: AnalysisResult; outputs: GeneratedOutput[] }> {
+    ({ options, outputOptions } = this.applyConfigFile(options, outputOptions));
+
     const analysis = await this.analyze(options);
     const outputs = await this.generateOutputs(
       analysis,
@@ -331,4 +509,161 @@ export class FlowAnalyzer {
 
     return { analysis, outputs };
   }
+
+  /**
+   * Analyze a project and check its navigation against the lint rules.
+   * Rules passed here override those in options.configPath.
+   */
+  async lint(
+    options: ProjectAnalysisOptions,
+    rules: LintRuleConfig = {}
+  ): Promise<{ analysis: AnalysisResult; lint: LintResult }> {
+    const loaded = options.configPath
+      ? new ConfigLoader().load(options.projectPath, options.configPath)
+      : null;
+    ({ options } = this.applyConfigFile(options, {}));
+
+    const analysis = await this.analyze(options);
+    console.log("🧹 Linting navigation...");
+    const lint = new FlowLinter().lint(analysis, {
+      ...(loaded?.config.lint ?? {}),
+      ...rules,
+    });
+
+    return { analysis, lint };
+  }
+
+  /**
+   * Analyze every project in a monorepo, writing one output set per project
+   * into its own folder plus an index.json / index.md overview
+   */
+  async analyzeMonorepo(
+    options: ProjectAnalysisOptions,
+    outputOptions: Partial<OutputGenerationOptions> = {}
+  ): Promise<MonorepoAnalysisResult> {
+    ({ options, outputOptions } = this.applyConfigFile(options, outputOptions));
+
+    if (!fs.existsSync(options.projectPath)) {
+      throw new Error(`Project path does not exist: ${options.projectPath}`);
+    }
+
+    const projects = await this.findProjects(
+      options.projectPath,
+      options.ignore
+    );
+    if (projects.length === 0) {
+      throw new Error(
+        `Could not find any projects in: ${
+          options.projectPath
+        }. Available frameworks: ${this.getAvailableFrameworks().join(", ")}`
+      );
+    }
+
+    console.log(`🗂️  Monorepo mode: analyzing ${projects.length} projects`);
+    const outputDirectory = outputOptions.outputDirectory || process.cwd();
+    const ignore = IgnoreFilter.resolvePatterns(
+      options.projectPath,
+      options.ignore
+    );
+    const results: MonorepoProjectResult[] = [];
+
+    for (const project of projects) {
+      console.log(
+        `\n📦 Project ${project.name} (${project.framework}) at ${project.path}`
+      );
+      const projectOutputDirectory = path.join(
+        outputDirectory,
+        this.toDirectoryName(project.name)
+      );
+
+      try {
+        fs.mkdirSync(projectOutputDirectory, { recursive: true });
+        const analysis = await this.analyzeProject(project.framework, {
+          ...options,
+          projectPath: project.path,
+          framework: project.framework,
+          ignore,
+        });
+        const outputs = await this.generateOutputs(
+          analysis,
+          options.outputFormats,
+          { ...outputOptions, outputDirectory: projectOutputDirectory }
+        );
+        results.push({ ...project, analysis, outputs });
+      } catch (error: any) {
+        console.error(`❌ Failed to analyze ${project.name}:`, error.message);
+        results.push({ ...project, outputs: [], error: error.message });
+      }
+    }
+
+    const indexFiles = new MonorepoIndexGenerator().generate(
+      results,
+      options.projectPath,
+      outputDirectory
+    );
+
+    return { projects: results, indexFiles };
+  }
+
+  // "@acme/web" -> "acme-web"
+  private toDirectoryName(projectName: string): string {
+    return projectName.replace(/^@/, "").replace(/[\\/:]+/g, "-");
+  }
+
+  /**
+   * Settings from options.configPath fill in anything the caller did not
+   * pass explicitly
+   */
+  private applyConfigFile(
+    options: ProjectAnalysisOptions,
+    outputOptions: Partial<OutputGenerationOptions>
+  ): {
+    options: ProjectAnalysisOptions;
+    outputOptions: Partial<OutputGenerationOptions>;
+  } {
+    if (!options.configPath) {
+      return { options, outputOptions };
+    }
+
+    const loaded = new ConfigLoader().load(
+      options.projectPath,
+      options.configPath
+    );
+    if (!loaded) {
+      return { options, outputOptions };
+    }
+
+    const mergedOutputOptions: Partial<OutputGenerationOptions> = {
+      ...this.withoutUndefined({
+        outputDirectory: loaded.config.outputDir,
+        theme: loaded.config.theme,
+        layout: loaded.config.layout,
+        generateImage: loaded.config.generateImage,
+        generators: loaded.config.generators,
+      }),
+      ...this.withoutUndefined(outputOptions),
+    };
+    if (
+      mergedOutputOptions.outputDirectory === loaded.config.outputDir &&
+      loaded.config.outputDir
+    ) {
+      fs.mkdirSync(loaded.config.outputDir, { recursive: true });
+    }
+
+    return {
+      options: {
+        ...options,
+        ignore: options.ignore ?? loaded.config.ignore,
+        guardComponents:
+          options.guardComponents ?? loaded.config.guardComponents,
+      },
+      outputOptions: mergedOutputOptions,
+    };
+  }
+
+  private withoutUndefined<T extends object>(values: T): Partial<T> {
+    return Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== undefined)
+    ) as Partial<T>;
+  }
 }
@@ -0,0 +1,306 @@
+import {
+  AnalysisResult,
+  LintIssue,
+  LintResult,
+  LintRuleConfig,
+  LintRuleName,
+  LintSeverity,
+  MenuDefinition,
+  Route,
+} from "./types.js";
+import { RouteMatcher } from "./route-matcher.js";
+
+// Route paths linked together by the analyzed flows
+interface NavigationGraph {
+  matcher: RouteMatcher;
+  pages: Route[]; // One routed component per path
+  links: Map<string, Set<string>>; // User navigation (links, navigate calls)
+  redirects: Map<string, Set<string>>; // Automatic navigation (redirectTo, redirect flows)
+  globalTargets: Set<string>; // Linked from the app shell, so reachable from every page
+  menuTargets: Set<string>;
+}
+
+/**
+ * Checks an analysis for navigation problems: routes nothing links to,
+ * pages without a way out, redirect loops, routes that cannot be reached
+ * from / and, for first-match routers, routes hidden behind a catch-all
+ */
+export class FlowLinter {
+  static readonly DEFAULT_RULES: Record<LintRuleName, LintSeverity> = {
+    "orphan-route": "warn",
+    "dead-end": "warn",
+    "navigation-cycle": "error",
+    "unreachable-route": "warn",
+    "shadowed-route": "error",
+  };
+
+  static readonly SEVERITIES: LintSeverity[] = ["off", "warn", "error"];
+
+  // Routers that take the first declared match. Vue Router 4 and React
+  // Router v6 rank routes by specificity, so a catch-all can come first.
+  static readonly FIRST_MATCH_ROUTERS = ["angular", "react-router-v5"];
+
+  lint(analysis: AnalysisResult, rules: LintRuleConfig = {}): LintResult {
+    const severities = { ...FlowLinter.DEFAULT_RULES, ...rules };
+    const graph = this.buildGraph(analysis);
+    const issues: LintIssue[] = [];
+
+    const report = (rule: LintRuleName, message: string, route?: Route) => {
+      const severity = severities[rule];
+      if (severity === "off") return;
+      issues.push({
+        rule,
+        severity,
+        message,
+        ...(route ? { path: route.fullPath } : {}),
+        ...(route?.source ? { source: route.source } : {}),
+      });
+    };
+
+    const incoming = new Set<string>([...graph.globalTargets, ...graph.menuTargets]);
+    for (const edges of [graph.links, graph.redirects]) {
+      for (const [from, targets] of edges) {
+        targets.forEach((to) => to !== from && incoming.add(to));
+      }
+    }
+
+    for (const page of graph.pages) {
+      if (page.fullPath !== "/" && !incoming.has(page.fullPath)) {
+        report(
+          "orphan-route",
+          `No links, redirects or menu entries lead to ${page.fullPath}`,
+          page
+        );
+      }
+    }
+
+    for (const page of graph.pages) {
+      const targets = [
+        ...(graph.links.get(page.fullPath) ?? []),
+        ...graph.globalTargets,
+      ];
+      if (!targets.some((to) => to !== page.fullPath)) {
+        report(
+          "dead-end",
+          `${page.fullPath} (${page.component}) has no links or navigation calls to other routes`,
+          page
+        );
+      }
+    }
+
+    for (const cycle of this.findCycles(graph.redirects)) {
+      const route = graph.matcher
+        .getRoutes()
+        .find((r) => r.fullPath === cycle[0] && r.redirectTo !== undefined);
+      report(
+        "navigation-cycle",
+        `Redirect loop: ${[...cycle, cycle[0]].join(" → ")}`,
+        route
+      );
+    }
+
+    const reachable = this.findReachable(graph);
+    if (reachable) {
+      for (const page of graph.pages) {
+        // Orphans are already reported on their own
+        const isOrphan = page.fullPath !== "/" && !incoming.has(page.fullPath);
+        if (reachable.has(page.fullPath) || (isOrphan && severities["orphan-route"] !== "off")) {
+          continue;
+        }
+        report(
+          "unreachable-route",
+          `${page.fullPath} cannot be reached by following links from /`,
+          page
+        );
+      }
+    }
+
+    if (FlowLinter.FIRST_MATCH_ROUTERS.includes(analysis.router ?? "")) {
+      this.checkShadowedRoutes(analysis.routes, report);
+    }
+
+    return {
+      issues,
+      errorCount: issues.filter((issue) => issue.severity === "error").length,
+      warningCount: issues.filter((issue) => issue.severity === "warn").length,
+    };
+  }
+
+  private buildGraph(analysis: AnalysisResult): NavigationGraph {
+    const matcher = new RouteMatcher(analysis.routes);
+    const graph: NavigationGraph = {
+      matcher,
+      pages: [],
+      links: new Map(),
+      redirects: new Map(),
+      globalTargets: new Set(),
+      menuTargets: new Set(),
+    };
+
+    const seenPaths = new Set<string>();
+    for (const route of matcher.getRoutes()) {
+      if (
+        route.component &&
+        !route.redirectTo &&
+        !matcher.isCatchAll(route) &&
+        !seenPaths.has(route.fullPath)
+      ) {
+        graph.pages.push(route);
+        seenPaths.add(route.fullPath);
+      }
+
+      if (route.redirectTo !== undefined) {
+        const target = matcher.match(matcher.resolvePath(route.redirectTo, route));
+        if (target) {
+          this.addEdge(graph.redirects, route.fullPath, target.fullPath);
+        }
+      }
+    }
+
+    for (const flow of analysis.flows) {
+      if (flow.type === "hierarchy") continue;
+
+      const sources = matcher.findSourceRoutes(flow.from);
+      if (sources.length === 0) {
+        // Not a routed component: a shell or shared component such as the
+        // app header, whose links are available everywhere
+        const target = matcher.match(matcher.resolvePath(flow.to));
+        if (target) {
+          graph.globalTargets.add(target.fullPath);
+        }
+        continue;
+      }
+
+      for (const source of sources) {
+        const target = matcher.match(matcher.resolvePath(flow.to, source));
+        if (!target) continue;
+
+        // A layout's links are shown on every page rendered inside it
+        const fromRoutes = [
+          source,
+          ...matcher
+            .getRoutes()
+            .filter((route) => matcher.getAncestors(route).includes(source)),
+        ];
+        const edges = flow.type === "redirect" ? graph.redirects : graph.links;
+        fromRoutes.forEach((from) => this.addEdge(edges, from.fullPath, target.fullPath));
+      }
+    }
+
+    const visitMenu = (menu: MenuDefinition) => {
+      const target = matcher.match(matcher.resolvePath(menu.path));
+      if (target) {
+        graph.menuTargets.add(target.fullPath);
+      }
+      menu.children?.forEach(visitMenu);
+    };
+    analysis.menus.forEach(visitMenu);
+
+    return graph;
+  }
+
+  private addEdge(edges: Map<string, Set<string>>, from: string, to: string): void {
+    if (!edges.has(from)) {
+      edges.set(from, new Set());
+    }
+    edges.get(from)!.add(to);
+  }
+
+  // Each cycle is returned once, starting from its alphabetically first path
+  private findCycles(edges: Map<string, Set<string>>): string[][] {
+    const cycles = new Map<string, string[]>();
+    const done = new Set<string>();
+
+    const visit = (node: string, stack: string[]) => {
+      const index = stack.indexOf(node);
+      if (index !== -1) {
+        const cycle = stack.slice(index);
+        const start = cycle.indexOf([...cycle].sort()[0]);
+        const normalized = [...cycle.slice(start), ...cycle.slice(0, start)];
+        cycles.set(normalized.join("\u0000"), normalized);
+        return;
+      }
+      if (done.has(node)) return;
+
+      stack.push(node);
+      edges.get(node)?.forEach((next) => visit(next, stack));
+      stack.pop();
+      done.add(node);
+    };
+
+    for (const node of edges.keys()) {
+      visit(node, []);
+    }
+    return Array.from(cycles.values());
+  }
+
+  // Null when the app has no entry point to start from
+  private findReachable(graph: NavigationGraph): Set<string> | null {
+    const entry = graph.matcher.match("/");
+    const queue = [
+      ...(entry ? [entry.fullPath] : []),
+      ...graph.globalTargets,
+      ...graph.menuTargets,
+    ];
+    if (queue.length === 0) {
+      return null;
+    }
+
+    const reachable = new Set<string>(queue);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const edges of [graph.links, graph.redirects]) {
+        edges.get(current)?.forEach((next) => {
+          if (!reachable.has(next)) {
+            reachable.add(next);
+            queue.push(next);
+          }
+        });
+      }
+    }
+    return reachable;
+  }
+
+  // Routers in FIRST_MATCH_ROUTERS never reach routes declared after a
+  // catch-all sibling. Analyzers may merge routes from several files into one
+  // list, so only routes from the catch-all's own file count as shadowed.
+  private checkShadowedRoutes(
+    routes: Route[],
+    report: (rule: LintRuleName, message: string, route?: Route) => void
+  ): void {
+    let catchAll: Route | undefined;
+    for (const route of routes) {
+      if (catchAll && this.isDeclaredAfter(route, catchAll)) {
+        report(
+          "shadowed-route",
+          `${route.fullPath} is declared after the catch-all ${catchAll.fullPath} and will never match`,
+          route
+        );
+      } else if (this.isWildcardPath(route.path)) {
+        catchAll = route;
+      }
+      if (route.children) {
+        this.checkShadowedRoutes(route.children, report);
+      }
+    }
+  }
+
+  private isDeclaredAfter(route: Route, other: Route): boolean {
+    if (!route.source || !other.source) {
+      return true;
+    }
+    return (
+      route.source.file === other.source.file &&
+      route.source.line > other.source.line
+    );
+  }
+
+  private isWildcardPath(routePath: string): boolean {
+    const lastSegment = routePath.split("/").filter(Boolean).pop() ?? "";
+    return (
+      lastSegment === "**" ||
+      lastSegment === "*" ||
+      /^:\w+\(\.\*\)[*+]?$/.test(lastSegment)
+    );
+  }
+}
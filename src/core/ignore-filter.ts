@@ -0,0 +1,83 @@
+import glob from "fast-glob";
+import * as path from "path";
+
+/**
+ * Applies user-supplied ignore globs (CLI --ignore, config file) to the files
+ * and directories seen during framework detection and analysis
+ */
+export class IgnoreFilter {
+  private patterns: string[];
+  private ignoredPaths = new Set<string>();
+
+  constructor(rootPath: string, patterns: string[] = []) {
+    this.patterns = IgnoreFilter.resolvePatterns(rootPath, patterns);
+  }
+
+  /**
+   * Anchor relative patterns at rootPath so they keep their meaning when an
+   * analyzer runs on a nested project directory
+   */
+  static resolvePatterns(rootPath: string, patterns: string[] = []): string[] {
+    const base = glob.convertPathToPattern(path.resolve(rootPath));
+    return patterns
+      .map((pattern) => pattern.trim())
+      .filter((pattern) => pattern.length > 0)
+      .map((pattern) =>
+        path.isAbsolute(pattern)
+          ? pattern
+          : path.posix.join(base, pattern.replace(/^\.\//, ""))
+      );
+  }
+
+  /**
+   * Expand the patterns into the set of matching files and directories
+   */
+  async load(): Promise<IgnoreFilter> {
+    if (this.patterns.length === 0) {
+      return this;
+    }
+
+    // "storybook/**" should also prune the storybook directory itself
+    const expanded = this.patterns.flatMap((pattern) =>
+      pattern.endsWith("/**") ? [pattern, pattern.slice(0, -3)] : [pattern]
+    );
+    const matches = await glob(expanded, {
+      absolute: true,
+      onlyFiles: false,
+      dot: true,
+      ignore: ["**/node_modules/**"],
+    });
+    this.ignoredPaths = new Set(matches.map((match) => path.resolve(match)));
+    return this;
+  }
+
+  /**
+   * True when the path, or one of its parent directories, matches a pattern
+   */
+  isIgnored(filePath: string): boolean {
+    if (this.ignoredPaths.size === 0) {
+      return false;
+    }
+
+    let current = path.resolve(filePath);
+    while (true) {
+      if (this.ignoredPaths.has(current)) {
+        return true;
+      }
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return false;
+      }
+      current = parent;
+    }
+  }
+
+  /**
+   * Drop ignored entries from a list of paths relative to cwd (or absolute)
+   */
+  filter(filePaths: string[], cwd: string = process.cwd()): string[] {
+    return filePaths.filter(
+      (filePath) => !this.isIgnored(path.resolve(cwd, filePath))
+    );
+  }
+}
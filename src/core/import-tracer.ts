@@ -0,0 +1,211 @@
+import { ClassDeclaration, Node, SyntaxKind } from "ts-morph";
+
+// The module export a local binding was imported as
+export interface ImportedBinding {
+  module: string; // Module specifier, e.g. "@angular/router"
+  name: string; // Exported name, "default" or "*" for namespace imports
+}
+
+/**
+ * Traces values back to the library exports they come from, so analyzers
+ * can tell a router from any other object with a navigate or push method.
+ * Uses the type checker when the library's types are installed and falls
+ * back to following declarations, imports and initializers otherwise.
+ */
+export class ImportTracer {
+  private static readonly MAX_DEPTH = 10;
+
+  /**
+   * The import an identifier (or `namespace.member` access) refers to
+   */
+  getImport(node: Node): ImportedBinding | undefined {
+    if (Node.isPropertyAccessExpression(node)) {
+      const namespace = this.getImport(node.getExpression());
+      return namespace?.name === "*"
+        ? { module: namespace.module, name: node.getName() }
+        : undefined;
+    }
+    if (!Node.isIdentifier(node)) return undefined;
+
+    for (const declaration of node.getSymbol()?.getDeclarations() ?? []) {
+      if (Node.isImportSpecifier(declaration)) {
+        return {
+          module: declaration.getImportDeclaration().getModuleSpecifierValue(),
+          name: declaration.getName(),
+        };
+      }
+      if (
+        Node.isImportClause(declaration) ||
+        Node.isNamespaceImport(declaration)
+      ) {
+        const importDeclaration = declaration.getFirstAncestorByKind(
+          SyntaxKind.ImportDeclaration
+        );
+        if (importDeclaration) {
+          return {
+            module: importDeclaration.getModuleSpecifierValue(),
+            name: Node.isNamespaceImport(declaration) ? "*" : "default",
+          };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Whether a node is one of `names` imported from one of `modules`
+   */
+  isImportOf(node: Node, modules: string[], names: string[]): boolean {
+    const binding = this.getImport(node);
+    return (
+      !!binding &&
+      modules.includes(binding.module) &&
+      names.includes(binding.name)
+    );
+  }
+
+  /**
+   * Whether a value was returned by calling one of the imported functions,
+   * e.g. `navigate` in `const navigate = useNavigate()`
+   */
+  isCallResultOf(node: Node, modules: string[], names: string[]): boolean {
+    return this.traceInitializer(node, 0, (value) => {
+      const callee = Node.isCallExpression(value)
+        ? value.getExpression()
+        : undefined;
+      return !!callee && this.isImportOf(callee, modules, names);
+    });
+  }
+
+  /**
+   * Whether a value is an instance of an imported class, e.g. a `Router`
+   * from "@angular/router" injected through the constructor or `inject()`
+   */
+  isInstanceOf(node: Node, modules: string[], className: string): boolean {
+    if (this.hasLibraryType(node, modules, [className])) {
+      return true;
+    }
+
+    return this.traceInitializer(node, 0, (value, declaration) => {
+      const classReference = this.getClassReference(value, declaration);
+      return (
+        !!classReference &&
+        this.isImportOf(classReference, modules, [className])
+      );
+    });
+  }
+
+  /**
+   * The project class a value is an instance of, for services injected
+   * with `inject()` or the constructor when their types cannot be resolved
+   */
+  getInstanceClass(node: Node): ClassDeclaration | undefined {
+    let instanceClass: ClassDeclaration | undefined;
+    this.traceInitializer(node, 0, (value, declaration) => {
+      const classReference = this.getClassReference(value, declaration);
+      let symbol = classReference?.getSymbol();
+      if (symbol?.isAlias()) {
+        symbol = symbol.getAliasedSymbol() ?? symbol;
+      }
+      instanceClass = symbol?.getDeclarations().find(Node.isClassDeclaration);
+      return !!instanceClass;
+    });
+    return instanceClass;
+  }
+
+  /**
+   * Whether the type checker resolves a node's type to one of `typeNames`
+   * declared by one of `modules`. Only possible when the library's types
+   * are installed in node_modules.
+   */
+  hasLibraryType(node: Node, modules: string[], typeNames: string[]): boolean {
+    const type = node.getType();
+    const symbol = type.getAliasSymbol() ?? type.getSymbol();
+    return (
+      !!symbol &&
+      typeNames.includes(symbol.getName()) &&
+      symbol
+        .getDeclarations()
+        .some((declaration) =>
+          modules.some((module) =>
+            declaration
+              .getSourceFile()
+              .getFilePath()
+              .includes(`/node_modules/${module}/`)
+          )
+        )
+    );
+  }
+
+  // The class named by a declared type (`private router: Router`),
+  // `inject(Router)` or `new Router()`
+  private getClassReference(value: Node, declaration?: Node): Node | undefined {
+    const typeNode =
+      declaration &&
+      (Node.isPropertyDeclaration(declaration) ||
+        Node.isParameterDeclaration(declaration) ||
+        Node.isVariableDeclaration(declaration))
+        ? declaration.getTypeNode()
+        : undefined;
+    if (typeNode && Node.isTypeReference(typeNode)) {
+      return typeNode.getTypeName();
+    }
+
+    if (Node.isNewExpression(value)) {
+      return value.getExpression();
+    }
+    if (
+      Node.isCallExpression(value) &&
+      this.isImportOf(value.getExpression(), ["@angular/core"], ["inject"])
+    ) {
+      return value.getArguments()[0];
+    }
+    return undefined;
+  }
+
+  // Walks from a reference to the declaration it names and on through
+  // `const a = b` aliases, testing each value (and declaration) on the way
+  private traceInitializer(
+    node: Node,
+    depth: number,
+    test: (value: Node, declaration?: Node) => boolean
+  ): boolean {
+    if (depth > ImportTracer.MAX_DEPTH) return false;
+
+    const value = this.unwrap(node);
+    if (test(value)) return true;
+    if (!Node.isIdentifier(value) && !Node.isPropertyAccessExpression(value)) {
+      return false;
+    }
+
+    for (const declaration of value.getSymbol()?.getDeclarations() ?? []) {
+      const initializer =
+        Node.isVariableDeclaration(declaration) ||
+        Node.isPropertyDeclaration(declaration) ||
+        Node.isParameterDeclaration(declaration)
+          ? declaration.getInitializer()
+          : undefined;
+      if (test(initializer ? this.unwrap(initializer) : declaration, declaration)) {
+        return true;
+      }
+      if (initializer && this.traceInitializer(initializer, depth + 1, test)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  // (x), x as T, x!, await x
+  private unwrap(node: Node): Node {
+    let current = node;
+    while (
+      Node.isParenthesizedExpression(current) ||
+      Node.isAsExpression(current) ||
+      Node.isNonNullExpression(current) ||
+      Node.isAwaitExpression(current)
+    ) {
+      current = current.getExpression();
+    }
+    return current;
+  }
+}
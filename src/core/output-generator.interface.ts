@@ -6,6 +6,7 @@ export interface OutputGenerationOptions {
   generateImage?: boolean;
   theme?: string;
   layout?: string;
+  generators?: Record<string, Record<string, any>>; // Per-format overrides keyed by format name
   [key: string]: any; // Allow format-specific options
 }
 
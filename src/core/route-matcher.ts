@@ -0,0 +1,157 @@
+import { Route } from "./types.js";
+import * as path from "path";
+
+/**
+ * Matches navigation targets and flow sources against the analyzed routes,
+ * taking route params, optional segments and catch-alls into account
+ */
+export class RouteMatcher {
+  private routes: Route[] = [];
+  private parents = new Map<Route, Route>();
+  private patterns = new Map<Route, RegExp>();
+
+  constructor(routes: Route[]) {
+    const visit = (route: Route, parent?: Route) => {
+      this.routes.push(route);
+      if (parent) {
+        this.parents.set(route, parent);
+      }
+      route.children?.forEach((child) => visit(child, route));
+    };
+    routes.forEach((route) => visit(route));
+  }
+
+  /**
+   * Every route, children included, in declaration order
+   */
+  getRoutes(): Route[] {
+    return this.routes;
+  }
+
+  /**
+   * Enclosing routes from the direct parent up to the top level
+   */
+  getAncestors(route: Route): Route[] {
+    const ancestors: Route[] = [];
+    let parent = this.parents.get(route);
+    while (parent) {
+      ancestors.push(parent);
+      parent = this.parents.get(parent);
+    }
+    return ancestors;
+  }
+
+  /**
+   * Routes rendered by a flow's source, which is either a component name
+   * (with or without the Component suffix) or a route path
+   */
+  findSourceRoutes(from: string): Route[] {
+    return this.routes.filter(
+      (route) =>
+        route.fullPath === from ||
+        (route.component !== undefined &&
+          (route.component === from ||
+            route.component === `${from}Component` ||
+            route.component.replace(/Component$/, "") === from))
+    );
+  }
+
+  /**
+   * Turn a flow target into an absolute path: relative targets are resolved
+   * against the source route, template placeholders become params and
+   * query strings / fragments are dropped
+   */
+  resolvePath(target: string, fromRoute?: Route): string {
+    let targetPath = target
+      .replace(/^`|`$/g, "")
+      .replace(/\$\{[^}]+\}/g, ":param")
+      .replace(/[?#].*$/, "");
+
+    if (!targetPath.startsWith("/")) {
+      const basePath = fromRoute?.fullPath ?? "/";
+      const parentDir = basePath.substring(0, basePath.lastIndexOf("/") + 1) || "/";
+      targetPath = path.posix.resolve(parentDir, targetPath);
+    }
+
+    targetPath = targetPath.replace(/\/{2,}/g, "/");
+    if (targetPath !== "/" && targetPath.endsWith("/")) {
+      targetPath = targetPath.slice(0, -1);
+    }
+    return targetPath;
+  }
+
+  /**
+   * Find the route that would render an absolute path. Exact matches win,
+   * then parameterized routes, then catch-alls.
+   */
+  match(targetPath: string): Route | undefined {
+    const exact = this.routes.find((route) => route.fullPath === targetPath);
+    if (exact) {
+      return exact;
+    }
+
+    const candidates = this.routes.filter((route) =>
+      this.getPattern(route).test(targetPath)
+    );
+    return (
+      candidates.find((route) => !this.isCatchAll(route)) ??
+      // The most specific catch-all, e.g. /docs/** before /**
+      candidates.sort((a, b) => b.fullPath.length - a.fullPath.length)[0]
+    );
+  }
+
+  /**
+   * Whether the route's own segment swallows any remaining path
+   * (`**`, `*`, `:slug*`, `:slug+`, `:pathMatch(.*)*`)
+   */
+  isCatchAll(route: Route): boolean {
+    const segments = route.fullPath.split("/").filter(Boolean);
+    return segments.length > 0 && this.isCatchAllSegment(segments[segments.length - 1]);
+  }
+
+  /**
+   * Whether the route is the app-wide not-found fallback (`/**`, `/*`,
+   * `/:pathMatch(.*)*`) rather than a page that accepts any sub-path
+   */
+  isFallback(route: Route): boolean {
+    return /^\/(\*\*?|:\w+\(\.\*\)[*+]?)$/.test(route.fullPath);
+  }
+
+  private isCatchAllSegment(segment: string): boolean {
+    return (
+      segment === "**" ||
+      segment === "*" ||
+      /^:\w+[*+]$/.test(segment) ||
+      /^:\w+\(\.\*\)[*+]?$/.test(segment)
+    );
+  }
+
+  private getPattern(route: Route): RegExp {
+    let pattern = this.patterns.get(route);
+    if (!pattern) {
+      const patternText = route.fullPath
+        .split("/")
+        .filter(Boolean)
+        .map((segment) => {
+          // :slug+ needs at least one segment, the others match none too
+          if (/^:\w+\+$/.test(segment)) return "(?:/[^/]+)+";
+          if (this.isCatchAllSegment(segment)) return "(?:/.*)?";
+          if (/^:\w+\?$/.test(segment)) return "(?:/[^/]+)?";
+          // Optional static segment, e.g. Remix (en) as en?
+          if (!segment.startsWith(":") && segment.endsWith("?")) {
+            return `(?:/${this.escape(segment.slice(0, -1))})?`;
+          }
+          if (segment.startsWith(":")) return "/[^/]+";
+          return "/" + this.escape(segment);
+        })
+        .join("");
+      pattern = new RegExp(`^${patternText}/?$`);
+      this.patterns.set(route, pattern);
+    }
+    return pattern;
+  }
+
+  private escape(segment: string): string {
+    return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+}
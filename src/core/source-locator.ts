@@ -0,0 +1,47 @@
+import { Node } from "ts-morph";
+import { SourceLocation } from "./types.js";
+import * as path from "path";
+
+/**
+ * Resolves AST nodes and text offsets to project-relative source locations
+ */
+export class SourceLocator {
+  constructor(private projectPath: string) {}
+
+  /**
+   * Location of the first token of a ts-morph node
+   */
+  fromNode(node: Node): SourceLocation {
+    const sourceFile = node.getSourceFile();
+    const { line, column } = sourceFile.getLineAndColumnAtPos(node.getStart());
+    return {
+      file: this.relativePath(sourceFile.getFilePath()),
+      line,
+      column,
+    };
+  }
+
+  /**
+   * Location of an offset within raw file text (e.g. HTML templates)
+   */
+  fromOffset(filePath: string, text: string, offset: number): SourceLocation {
+    const preceding = text.slice(0, Math.max(0, offset));
+    const lines = preceding.split("\n");
+    return {
+      file: this.relativePath(filePath),
+      line: lines.length,
+      column: lines[lines.length - 1].length + 1,
+    };
+  }
+
+  /**
+   * Location pointing at the start of a file, for file-based routes
+   */
+  fromFile(filePath: string): SourceLocation {
+    return { file: this.relativePath(filePath), line: 1, column: 1 };
+  }
+
+  private relativePath(filePath: string): string {
+    return path.relative(this.projectPath, filePath).split(path.sep).join("/");
+  }
+}
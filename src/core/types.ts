@@ -1,4 +1,27 @@
+import { GeneratedOutput } from "./output-generator.interface.js";
+
 // Core types shared across all frameworks
+export interface SourceLocation {
+  file: string; // Path relative to the analyzed project root
+  line: number; // 1-based line number
+  column: number; // 1-based column number
+}
+
+// A guard, resolver or other route callback as declared on a route
+export interface RouteFunction {
+  name: string; // Class, function or factory name, or Service.method for inline functions
+  kind: "class" | "function" | "factory" | "inline";
+  expression?: string; // Source text of factory calls and inline functions
+  injects?: string[]; // Services an inline function inject()s
+}
+
+export type RouteGuardType =
+  | "canActivate"
+  | "canActivateChild"
+  | "canDeactivate"
+  | "canMatch"
+  | "canLoad";
+
 export interface Route {
   path: string; // The segment path
   fullPath: string; // The accumulated path, should always start with / for root-level
@@ -6,9 +29,21 @@ export interface Route {
   children?: Route[];
   redirectTo?: string;
   loadChildren?: string;
-  guards?: string[];
+  guards?: string[]; // canActivate guard names
+  guardDetails?: Partial<Record<RouteGuardType, RouteFunction[]>>; // Every guard type
+  resolve?: Record<string, RouteFunction>; // Resolvers by data key
+  loader?: RouteFunction; // Data loader run before the route renders
+  action?: RouteFunction; // Handler for the route's form submissions
+  errorElement?: string; // Error boundary component
+  loading?: string; // Fallback shown while the route loads (Next.js loading.tsx)
+  notFound?: string; // Rendered when the route calls notFound() (Next.js not-found.tsx)
+  title?: string; // Static title, or the title resolver's name
+  pathMatch?: "full" | "prefix";
+  outlet?: string; // Named router outlet
+  runGuardsAndResolvers?: string;
   data?: Record<string, any>;
   isRoot?: boolean; // Flag for the absolute root route
+  source?: SourceLocation; // Where the route is declared
 }
 
 export interface NavigationFlow {
@@ -16,6 +51,16 @@ export interface NavigationFlow {
   to: string;
   type: "static" | "dynamic" | "guard" | "redirect" | "hierarchy";
   label?: string; // For guards, conditions, etc.
+  queryParams?: Record<string, string>; // Constant values, or the expression as written
+  fragment?: string;
+  source?: SourceLocation; // Where the link or navigation call is written
+}
+
+// A server endpoint, such as a Next.js route.ts handler, rather than a page
+export interface ApiRoute {
+  path: string;
+  methods: string[]; // Exported handlers (GET, POST, ...); empty when one handler serves every method
+  source?: SourceLocation;
 }
 
 export interface MenuDefinition {
@@ -25,10 +70,23 @@ export interface MenuDefinition {
   roles?: string[];
 }
 
+// A link or navigate call whose target no route can render
+export interface BrokenLink {
+  from: string; // Originating component
+  to: string; // Target as written in the code
+  path: string; // Absolute path the target resolves to
+  type: NavigationFlow["type"];
+  fromPath?: string; // Route of the originating component, when known
+  source?: SourceLocation;
+}
+
 export interface AnalysisResult {
   routes: Route[];
   flows: NavigationFlow[];
   menus: MenuDefinition[];
+  apiRoutes?: ApiRoute[]; // Server endpoints, kept apart from the page routes
+  router?: string; // Router the routes were read for, e.g. "angular", "vue-router" or "react-router-v5"
+  brokenLinks?: BrokenLink[]; // Filled in by FlowAnalyzer after analysis
 }
 
 export interface ProjectAnalysisOptions {
@@ -36,7 +94,103 @@ export interface ProjectAnalysisOptions {
   framework: string;
   outputFormats: string[];
   configPath?: string;
-  ignore?: string[];
+  ignore?: string[]; // Globs relative to projectPath (or absolute) to leave out
+  guardComponents?: string[]; // Extra wrapper components that guard React routes
+}
+
+// Differences between a saved JSON output and the current analysis
+export interface RouteFieldChange {
+  field:
+    | "component"
+    | "redirectTo"
+    | "guards"
+    | "loadChildren"
+    | RouteGuardType
+    | "resolve";
+  before?: string | string[];
+  after?: string | string[];
+}
+
+export interface RouteChange {
+  fullPath: string;
+  changes: RouteFieldChange[];
+}
+
+export interface FlowChange {
+  flow: NavigationFlow;
+  fromPath?: string; // Route path of the flow's source component, when known
+}
+
+export interface AnalysisDiff {
+  routes: {
+    added: Route[];
+    removed: Route[];
+    changed: RouteChange[];
+  };
+  flows: {
+    added: FlowChange[];
+    removed: FlowChange[];
+  };
+  hasChanges: boolean;
+}
+
+// Navigation lint rules and the problems they report
+export type LintRuleName =
+  | "orphan-route"
+  | "dead-end"
+  | "navigation-cycle"
+  | "unreachable-route"
+  | "shadowed-route";
+
+export type LintSeverity = "off" | "warn" | "error";
+
+export type LintRuleConfig = Partial<Record<LintRuleName, LintSeverity>>;
+
+export interface LintIssue {
+  rule: LintRuleName;
+  severity: "warn" | "error";
+  message: string;
+  path?: string; // Route the issue is about
+  source?: SourceLocation; // Where that route is declared
+}
+
+export interface LintResult {
+  issues: LintIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// A project found while scanning a workspace in monorepo mode
+export interface DetectedProject {
+  name: string;
+  framework: string;
+  path: string; // Absolute project root
+}
+
+export interface MonorepoProjectResult extends DetectedProject {
+  analysis?: AnalysisResult;
+  outputs: GeneratedOutput[];
+  error?: string; // Set when the project could not be analyzed
+}
+
+export interface MonorepoAnalysisResult {
+  projects: MonorepoProjectResult[];
+  indexFiles: string[];
+}
+
+// Contents of userpravah.config.json / .userpravah.json
+export interface UserPravahConfig {
+  framework?: string;
+  output?: string[] | string; // Formats, as an array or "dot,json"
+  outputDir?: string; // Relative to the config file
+  theme?: string;
+  layout?: string;
+  generateImage?: boolean;
+  ignore?: string[]; // Globs relative to the project root
+  generators?: Record<string, Record<string, any>>; // Per-format options, e.g. { "mermaid": { "markdown": true } }
+  monorepo?: boolean; // Analyze every project in the workspace
+  lint?: LintRuleConfig; // Severity per lint rule, e.g. { "dead-end": "off" }
+  guardComponents?: string[]; // Wrapper components that guard React routes, e.g. ["RequireAdmin"]
 }
 
 export interface RouteNode {
@@ -48,6 +202,8 @@ export interface RouteNode {
   component?: string; // Associated component if any
   importance: number; // Importance score based on incoming/outgoing edges
   guards?: string[]; // Guards for the route
+  guardSummary?: string; // All guard types and resolvers, for edge labels
+  isMissing?: boolean; // Placeholder for a broken link target
 }
 
 export interface FlowEdge {
@@ -0,0 +1,211 @@
+import { IgnoreFilter } from "./ignore-filter.js";
+import * as fs from "fs";
+import * as path from "path";
+import glob from "fast-glob";
+
+export interface WorkspaceProject {
+  name: string;
+  path: string; // Absolute project root
+  framework?: string; // Hint from the workspace's build executors
+  projectType?: string; // "application" or "library" when the workspace says so
+}
+
+/**
+ * Reads workspace manifests (angular.json, Nx workspace.json / project.json,
+ * npm/yarn "workspaces" and pnpm-workspace.yaml) to list a monorepo's projects
+ */
+export class WorkspaceDetector {
+  // Build executors that tell us which analyzer owns an Nx/Angular project
+  private static readonly EXECUTOR_FRAMEWORKS: [RegExp, string][] = [
+    [/^@(nx|nrwl)\/angular|^@angular-devkit\/build-angular|^@angular\/build/, "angular"],
+    [/^@(nx|nrwl)\/(react|next|remix|expo|gatsby)/, "react"],
+    [/^@(nx|nrwl)\/(vue|nuxt)/, "vue"],
+  ];
+
+  async detect(
+    rootPath: string,
+    ignoreFilter?: IgnoreFilter
+  ): Promise<WorkspaceProject[]> {
+    const candidates = [
+      ...this.fromAngularWorkspace(rootPath),
+      ...this.fromNxWorkspaceJson(rootPath),
+      ...(await this.fromNxProjectFiles(rootPath)),
+      ...(await this.fromPackageWorkspaces(rootPath)),
+    ];
+
+    // The first manifest that mentions a directory wins; angular.json and Nx
+    // carry more information than a bare package.json
+    const projects = new Map<string, WorkspaceProject>();
+    for (const candidate of candidates) {
+      const key = path.resolve(candidate.path);
+      if (
+        !projects.has(key) &&
+        fs.existsSync(key) &&
+        !ignoreFilter?.isIgnored(key)
+      ) {
+        projects.set(key, { ...candidate, path: key });
+      }
+    }
+
+    return Array.from(projects.values());
+  }
+
+  private fromAngularWorkspace(rootPath: string): WorkspaceProject[] {
+    const workspace = this.readJson(path.join(rootPath, "angular.json"));
+    if (!workspace?.projects) return [];
+
+    return Object.entries<any>(workspace.projects).map(([name, project]) => ({
+      name,
+      path: path.join(rootPath, project.root || ""),
+      framework: "angular",
+      projectType: project.projectType,
+    }));
+  }
+
+  private fromNxWorkspaceJson(rootPath: string): WorkspaceProject[] {
+    const workspace = this.readJson(path.join(rootPath, "workspace.json"));
+    if (!workspace?.projects) return [];
+
+    return Object.entries<any>(workspace.projects).map(([name, project]) => {
+      // Newer workspace.json files only map names to project directories
+      if (typeof project === "string") {
+        return this.fromNxProjectJson(
+          rootPath,
+          path.join(rootPath, project, "project.json"),
+          name
+        );
+      }
+      return {
+        name,
+        path: path.join(rootPath, project.root || ""),
+        framework: this.frameworkFromTargets(project.targets || project.architect),
+        projectType: project.projectType,
+      };
+    });
+  }
+
+  private async fromNxProjectFiles(
+    rootPath: string
+  ): Promise<WorkspaceProject[]> {
+    if (!fs.existsSync(path.join(rootPath, "nx.json"))) return [];
+
+    const projectFiles = await glob("**/project.json", {
+      cwd: rootPath,
+      absolute: true,
+      deep: 5,
+      ignore: ["**/node_modules/**", "**/dist/**", "**/.nx/**"],
+    });
+
+    return projectFiles.map((file) => this.fromNxProjectJson(rootPath, file));
+  }
+
+  private fromNxProjectJson(
+    rootPath: string,
+    projectFile: string,
+    fallbackName?: string
+  ): WorkspaceProject {
+    const projectDir = path.dirname(projectFile);
+    const project = this.readJson(projectFile) || {};
+    return {
+      name:
+        project.name ||
+        fallbackName ||
+        this.nameFromPath(rootPath, projectDir),
+      path: projectDir,
+      framework: this.frameworkFromTargets(project.targets),
+      projectType: project.projectType,
+    };
+  }
+
+  private async fromPackageWorkspaces(
+    rootPath: string
+  ): Promise<WorkspaceProject[]> {
+    const patterns: string[] = [];
+
+    const packageJson = this.readJson(path.join(rootPath, "package.json"));
+    const workspaces = packageJson?.workspaces;
+    if (Array.isArray(workspaces)) {
+      patterns.push(...workspaces);
+    } else if (Array.isArray(workspaces?.packages)) {
+      patterns.push(...workspaces.packages);
+    }
+
+    patterns.push(...this.readPnpmWorkspacePatterns(rootPath));
+
+    const includes = patterns.filter((p) => !p.startsWith("!"));
+    if (includes.length === 0) return [];
+
+    const directories = await glob(includes, {
+      cwd: rootPath,
+      absolute: true,
+      onlyDirectories: true,
+      ignore: [
+        "**/node_modules/**",
+        ...patterns.filter((p) => p.startsWith("!")).map((p) => p.slice(1)),
+      ],
+    });
+
+    return directories
+      .filter((dir) => fs.existsSync(path.join(dir, "package.json")))
+      .map((dir) => ({
+        name:
+          this.readJson(path.join(dir, "package.json"))?.name ||
+          this.nameFromPath(rootPath, dir),
+        path: dir,
+      }));
+  }
+
+  private readPnpmWorkspacePatterns(rootPath: string): string[] {
+    const filePath = path.join(rootPath, "pnpm-workspace.yaml");
+    if (!fs.existsSync(filePath)) return [];
+
+    // Only the `packages:` list is needed, so avoid a YAML dependency
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of fs.readFileSync(filePath, "utf-8").split("\n")) {
+      if (/^packages\s*:/.test(line)) {
+        inPackages = true;
+        continue;
+      }
+      if (inPackages) {
+        const item = line.match(/^\s+-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+        if (item) {
+          patterns.push(item[1]);
+        } else if (/^\S/.test(line)) {
+          inPackages = false;
+        }
+      }
+    }
+    return patterns;
+  }
+
+  private frameworkFromTargets(targets: any): string | undefined {
+    if (!targets || typeof targets !== "object") return undefined;
+
+    for (const target of Object.values<any>(targets)) {
+      const executor = target?.executor || target?.builder;
+      if (typeof executor !== "string") continue;
+      for (const [pattern, framework] of WorkspaceDetector.EXECUTOR_FRAMEWORKS) {
+        if (pattern.test(executor)) {
+          return framework;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private nameFromPath(rootPath: string, projectDir: string): string {
+    const relative = path.relative(rootPath, projectDir);
+    return relative ? relative.split(path.sep).join("-") : path.basename(rootPath);
+  }
+
+  private readJson(filePath: string): any {
+    if (!fs.existsSync(filePath)) return null;
+    try {
+      return JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    } catch (error) {
+      console.warn(`⚠️ Could not parse ${filePath}`);
+      return null;
+    }
+  }
+}
@@ -3,9 +3,16 @@ import {
   ProjectAnalysisOptions,
   AnalysisResult,
   Route,
+  RouteFunction,
+  RouteGuardType,
   NavigationFlow,
   MenuDefinition,
 } from "../../core/types.js";
+import { SourceLocator } from "../../core/source-locator.js";
+import { ConstantEvaluator } from "../../core/constant-evaluator.js";
+import { RouteMatcher } from "../../core/route-matcher.js";
+import { ImportTracer } from "../../core/import-tracer.js";
+import { IgnoreFilter } from "../../core/ignore-filter.js";
 import {
   Project,
   SourceFile,
@@ -19,20 +26,66 @@ import {
   Identifier,
   ArrowFunction,
   ImportSpecifier,
+  ClassDeclaration,
+  MethodDeclaration,
 } from "ts-morph";
-import { parse as parseHTML } from "node-html-parser";
+import { parse as parseHTML, HTMLElement } from "node-html-parser";
 import * as fs from "fs";
 import * as path from "path";
 import glob from "fast-glob";
 
+// An argument passed on to a method that navigates with it
+interface ForwardedArgument {
+  text: string; // As written
+  value?: string; // Constant string value
+  commands?: string; // Path when used as router.navigate commands or a URL
+}
+
 export class AngularAnalyzer implements IFrameworkAnalyzer {
   private project!: Project;
   private routes: Route[] = [];
   private flows: NavigationFlow[] = [];
   private menus: MenuDefinition[] = [];
   private angularProjectPath!: string;
+  private sourceLocator!: SourceLocator;
+  private constantEvaluator = new ConstantEvaluator();
+  private routeMatcher!: RouteMatcher;
+  private importTracer = new ImportTracer();
+  private ignoreFilter!: IgnoreFilter;
   private processedRouteObjects = new Set<Node>();
   private processedLazyLoads = new Set<string>();
+  private menuArrays = new Map<Node, MenuDefinition[]>();
+
+  private static readonly MENU_TITLE_KEYS = ["label", "title", "name", "text"];
+  private static readonly MENU_LINK_KEYS = [
+    "routerLink",
+    "route",
+    "path",
+    "link",
+    "url",
+    "href",
+  ];
+  private static readonly MENU_CHILD_KEYS = [
+    "children",
+    "items",
+    "submenu",
+    "subItems",
+  ];
+  private static readonly MENU_ROLE_KEYS = [
+    "roles",
+    "role",
+    "allowedRoles",
+    "requiredRoles",
+    "permissions",
+  ];
+
+  private static readonly GUARD_TYPES: RouteGuardType[] = [
+    "canActivate",
+    "canActivateChild",
+    "canDeactivate",
+    "canMatch",
+    "canLoad",
+  ];
 
   getFrameworkName(): string {
     return "Angular";
@@ -81,11 +134,17 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
 
   async analyze(options: ProjectAnalysisOptions): Promise<AnalysisResult> {
     this.angularProjectPath = options.projectPath;
+    this.sourceLocator = new SourceLocator(options.projectPath);
+    this.ignoreFilter = await new IgnoreFilter(
+      options.projectPath,
+      options.ignore
+    ).load();
     this.routes = [];
     this.flows = [];
     this.menus = [];
     this.processedRouteObjects.clear();
     this.processedLazyLoads.clear();
+    this.menuArrays.clear();
 
     // Initialize ts-morph project
     this.project = new Project({
@@ -107,10 +166,14 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
     console.log("🔎 Analyzing template files and TS for navigation...");
     await this.analyzeSourceFilesForNavigation();
 
+    console.log("🍔 Analyzing menu structures...");
+    this.analyzeMenuStructures();
+
     return {
       routes: this.routes,
       flows: this.flows,
       menus: this.menus,
+      router: "angular",
     };
   }
 
@@ -137,8 +200,17 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
     });
 
     this.project.addSourceFilesAtPaths(
-      tsFiles.map((f) => path.join(this.angularProjectPath, f))
+      this.ignoreFilter
+        .filter(tsFiles, this.angularProjectPath)
+        .map((f) => path.join(this.angularProjectPath, f))
     );
+
+    // tsconfig "include" globs may have pulled in ignored files as well
+    for (const sourceFile of this.project.getSourceFiles()) {
+      if (this.ignoreFilter.isIgnored(sourceFile.getFilePath())) {
+        this.project.removeSourceFile(sourceFile);
+      }
+    }
   }
 
   private async analyzeRoutingModules(
@@ -571,8 +643,9 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
 
         switch (name) {
           case "path":
-            if (Node.isStringLiteral(initializer))
-              pathSegmentFromProps = initializer.getLiteralValue();
+            // Literals as well as constants such as AppRoutes.Home
+            pathSegmentFromProps =
+              this.constantEvaluator.evaluateString(initializer);
             break;
           case "component":
             if (Node.isIdentifier(initializer))
@@ -585,17 +658,32 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
             this.parseLoadChildren(initializer, props, name);
             break;
           case "redirectTo":
-            if (Node.isStringLiteral(initializer))
-              props[name] = initializer.getLiteralValue();
+            props[name] = this.constantEvaluator.evaluateString(initializer);
             break;
           case "children":
             if (Node.isArrayLiteralExpression(initializer))
               props[name] = initializer;
             break;
           case "canActivate":
+          case "canActivateChild":
+          case "canDeactivate":
+          case "canMatch":
+          case "canLoad":
             if (Node.isArrayLiteralExpression(initializer))
               props[name] = initializer;
             break;
+          case "resolve":
+            if (Node.isObjectLiteralExpression(initializer))
+              props[name] = initializer;
+            break;
+          case "title":
+          case "runGuardsAndResolvers":
+            props[name] = initializer;
+            break;
+          case "pathMatch":
+          case "outlet":
+            props[name] = this.constantEvaluator.evaluateString(initializer);
+            break;
           case "data":
             if (Node.isObjectLiteralExpression(initializer))
               props[name] = initializer;
@@ -618,6 +706,7 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
     }
 
     const route: Route = { path: pathSegmentFromProps, fullPath: "" };
+    route.source = this.sourceLocator.fromNode(node);
 
     // Calculate fullPath
     if (parentRouteContextFullPath === "/" && route.path === "") {
@@ -647,14 +736,50 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
     if (props["loadChildren"])
       route.loadChildren = props["loadChildren"] as string;
 
-    if (
-      props["canActivate"] &&
-      Node.isArrayLiteralExpression(props["canActivate"])
-    ) {
-      route.guards = (props["canActivate"] as ArrayLiteralExpression)
-        .getElements()
-        .map((el) => el.getText());
+    const guardDetails: Route["guardDetails"] = {};
+    for (const guardType of AngularAnalyzer.GUARD_TYPES) {
+      if (props[guardType]) {
+        const guards = this.parseGuardArray(props[guardType]);
+        if (guards.length > 0) guardDetails[guardType] = guards;
+      }
+    }
+    if (Object.keys(guardDetails).length > 0) {
+      route.guardDetails = guardDetails;
+    }
+    if (guardDetails.canActivate) {
+      route.guards = guardDetails.canActivate.map((guard) =>
+        this.getRouteFunctionLabel(guard)
+      );
+    }
+
+    if (props["resolve"]) {
+      route.resolve = {};
+      for (const resolveProp of (props["resolve"] as ObjectLiteralExpression).getProperties()) {
+        if (Node.isPropertyAssignment(resolveProp) && resolveProp.getInitializer()) {
+          route.resolve[resolveProp.getNameNode().getText().replace(/^['"]|['"]$/g, "")] =
+            this.describeRouteFunction(resolveProp.getInitializer()!);
+        } else if (Node.isShorthandPropertyAssignment(resolveProp)) {
+          route.resolve[resolveProp.getName()] = this.describeRouteFunction(
+            resolveProp.getNameNode()
+          );
+        }
+      }
+    }
+
+    if (props["title"]) {
+      route.title =
+        this.constantEvaluator.evaluateString(props["title"]) ??
+        this.describeRouteFunction(props["title"]).name;
     }
+    if (props["runGuardsAndResolvers"]) {
+      route.runGuardsAndResolvers = Node.isStringLiteral(props["runGuardsAndResolvers"])
+        ? props["runGuardsAndResolvers"].getLiteralValue()
+        : this.describeRouteFunction(props["runGuardsAndResolvers"]).name;
+    }
+    if (props["pathMatch"] === "full" || props["pathMatch"] === "prefix") {
+      route.pathMatch = props["pathMatch"];
+    }
+    if (props["outlet"]) route.outlet = props["outlet"] as string;
 
     if (props["data"] && Node.isObjectLiteralExpression(props["data"])) {
       route.data = {};
@@ -697,6 +822,120 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
     return route;
   }
 
+  /**
+   * Guards as listed in canActivate & co., unwrapping mapToCanActivate([...])
+   */
+  private parseGuardArray(array: ArrayLiteralExpression): RouteFunction[] {
+    const guards: RouteFunction[] = [];
+    for (const element of array.getElements()) {
+      if (Node.isSpreadElement(element)) {
+        const spread = element.getExpression();
+        const mappedArray = Node.isCallExpression(spread)
+          ? spread.getArguments()[0]
+          : undefined;
+        if (mappedArray && Node.isArrayLiteralExpression(mappedArray)) {
+          guards.push(...this.parseGuardArray(mappedArray));
+        }
+        continue;
+      }
+      guards.push(this.describeRouteFunction(element));
+    }
+    return guards;
+  }
+
+  /**
+   * Describe a guard or resolver: a class or function reference
+   * (AuthGuard, authGuard), a factory call (hasRole('admin')) or an inline
+   * function (() => inject(AuthService).isLoggedIn())
+   */
+  private describeRouteFunction(node: Node): RouteFunction {
+    if (Node.isIdentifier(node) || Node.isPropertyAccessExpression(node)) {
+      return { name: node.getText(), kind: this.getReferenceKind(node) };
+    }
+
+    const expression = node.getText().replace(/\s+/g, " ");
+    if (Node.isCallExpression(node)) {
+      return {
+        name: node.getExpression().getText(),
+        kind: "factory",
+        expression,
+      };
+    }
+
+    if (Node.isArrowFunction(node) || Node.isFunctionExpression(node)) {
+      const injected = new Map<string, string>(); // Variable -> service
+      const injects: string[] = [];
+      for (const call of node.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        const service = this.getInjectedService(call);
+        if (!service) continue;
+        if (!injects.includes(service)) injects.push(service);
+        const declaration = call.getParentIfKind(SyntaxKind.VariableDeclaration);
+        if (declaration) {
+          injected.set(declaration.getName(), service);
+        }
+      }
+
+      // The first method called on an injected service names the function
+      let name: string | undefined;
+      for (const access of node.getDescendantsOfKind(
+        SyntaxKind.PropertyAccessExpression
+      )) {
+        const target = access.getExpression();
+        const service = Node.isCallExpression(target)
+          ? this.getInjectedService(target)
+          : injected.get(target.getText());
+        if (service) {
+          name = `${service}.${access.getName()}`;
+          break;
+        }
+      }
+
+      return {
+        name: name ?? (injects.length > 0 ? injects.join(", ") : "inline"),
+        kind: "inline",
+        expression,
+        ...(injects.length > 0 ? { injects } : {}),
+      };
+    }
+
+    return { name: expression, kind: "inline", expression };
+  }
+
+  // inject(AuthService) -> AuthService
+  private getInjectedService(call: CallExpression): string | undefined {
+    const [token] = call.getArguments();
+    return call.getExpression().getText() === "inject" && token
+      ? token.getText()
+      : undefined;
+  }
+
+  private getReferenceKind(node: Node): RouteFunction["kind"] {
+    let symbol = node.getSymbol();
+    if (symbol?.isAlias()) {
+      symbol = symbol.getAliasedSymbol();
+    }
+    const declaration =
+      symbol?.getValueDeclaration() ?? symbol?.getDeclarations()[0];
+    if (declaration) {
+      if (Node.isClassDeclaration(declaration)) return "class";
+      if (
+        Node.isFunctionDeclaration(declaration) ||
+        Node.isVariableDeclaration(declaration)
+      ) {
+        return "function";
+      }
+    }
+    // Unresolved imports: Angular names guard classes in PascalCase
+    return /^[A-Z]/.test(node.getText().split(".").pop() ?? "") ? "class" : "function";
+  }
+
+  // Factories keep their arguments (hasRole('admin')); everything else its name
+  private getRouteFunctionLabel(routeFunction: RouteFunction): string {
+    return routeFunction.kind === "factory" && routeFunction.expression
+      ? routeFunction.expression
+      : routeFunction.name;
+  }
+
   private parseLoadComponent(
     initializer: Node,
     props: { [key: string]: any }
@@ -938,6 +1177,7 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
   }
 
   private async analyzeSourceFilesForNavigation(): Promise<void> {
+    this.routeMatcher = new RouteMatcher(this.routes);
     const sourceFiles = this.project.getSourceFiles();
     for (const sourceFile of sourceFiles) {
       this.extractProgrammaticNavigation(sourceFile);
@@ -952,12 +1192,34 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
   private async analyzeComponentNavigation(
     sourceFile: SourceFile
   ): Promise<void> {
+    const template = this.resolveComponentTemplate(sourceFile);
+    if (template) {
+      this.extractTemplateNavigation(
+        template.content,
+        template.filePath,
+        this.kebabToPascalCase(path.basename(sourceFile.getFilePath())),
+        template.fileText,
+        template.start,
+        sourceFile.getClasses()[0]
+      );
+    }
+  }
+
+  // Resolves a component's template from templateUrl or an inline template.
+  // `start` is the offset of the template content within `fileText`.
+  private resolveComponentTemplate(sourceFile: SourceFile): {
+    content: string;
+    filePath: string;
+    fileText: string;
+    start: number;
+  } | null {
     const componentClass = sourceFile.getClasses()[0];
-    if (!componentClass) return;
+    if (!componentClass) return null;
 
     const filePath = sourceFile.getFilePath();
     let templateContent: string | null = null;
     let templatePath: string | null = null;
+    let inlineTemplateStart = 0;
 
     const decorator = componentClass.getDecorator("Component");
     if (decorator) {
@@ -989,6 +1251,8 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
                 Node.isNoSubstitutionTemplateLiteral(initializer))
             ) {
               templateContent = initializer.getLiteralText();
+              // Skip the opening quote so offsets line up with the TS file
+              inlineTemplateStart = initializer.getStart() + 1;
             }
           }
         }
@@ -999,89 +1263,149 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
       templateContent = fs.readFileSync(templatePath, "utf-8");
     }
 
-    if (templateContent) {
-      this.extractTemplateNavigation(
-        templateContent,
-        templatePath || filePath,
-        this.kebabToPascalCase(path.basename(filePath))
-      );
-    }
+    if (!templateContent) return null;
+
+    return {
+      content: templateContent,
+      filePath: templatePath || filePath,
+      fileText: templatePath ? templateContent : sourceFile.getFullText(),
+      start: templatePath ? 0 : inlineTemplateStart,
+    };
   }
 
   private extractProgrammaticNavigation(sourceFile: SourceFile): void {
-    const navigateCalls = sourceFile
-      .getDescendantsOfKind(SyntaxKind.CallExpression)
-      .filter((call) => {
-        const expr = call.getExpression();
-        const exprText = expr.getText();
-        return !!exprText.match(/router\.(navigate|navigateByUrl)/);
+    const filePath = sourceFile.getFilePath();
+    for (const call of sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      if (this.isRouterNavigateCall(call)) {
+        const flow = this.parseNavigationCall(call, filePath);
+        if (flow) {
+          this.flows.push(flow);
+        }
+        continue;
+      }
+
+      // navService.goTo('/reports') where goTo hands its argument to the Router
+      const method = this.getCalledMethod(call);
+      if (!method) continue;
+      const args = call.getArguments().map((arg) => {
+        const value = this.constantEvaluator.evaluateString(arg);
+        return {
+          text: arg.getText(),
+          value,
+          commands: Node.isArrayLiteralExpression(arg)
+            ? this.getNavigationTarget(arg)
+            : value,
+        };
       });
+      for (const target of this.resolveForwardedNavigation(method, args)) {
+        this.flows.push(this.createNavigationFlow(call, filePath, target));
+      }
+    }
+  }
+
+  // navigate / navigateByUrl on an @angular/router Router, however it is
+  // named or injected
+  private isRouterNavigateCall(call: CallExpression): boolean {
+    const expression = call.getExpression();
+    return (
+      Node.isPropertyAccessExpression(expression) &&
+      /^(navigate|navigateByUrl)$/.test(expression.getName()) &&
+      this.isRouter(expression.getExpression())
+    );
+  }
+
+  private isRouter(node: Node): boolean {
+    return this.importTracer.isInstanceOf(node, ["@angular/router"], "Router");
+  }
+
+  // A project method (not a library one) the call invokes
+  private getCalledMethod(call: CallExpression): MethodDeclaration | undefined {
+    if (call.getArguments().length === 0) return undefined;
+    const expression = call.getExpression();
+    if (!Node.isPropertyAccessExpression(expression)) return undefined;
+
+    // Without installed Angular types inject() returns any, so fall back to
+    // the class the receiver was injected or constructed as
+    const method =
+      expression
+        .getNameNode()
+        .getSymbol()
+        ?.getDeclarations()
+        .find(Node.isMethodDeclaration) ??
+      this.importTracer
+        .getInstanceClass(expression.getExpression())
+        ?.getMethod(expression.getName());
+    return method &&
+      !method.getSourceFile().isInNodeModules() &&
+      method.hasBody()
+      ? method
+      : undefined;
+  }
 
-    for (const call of navigateCalls) {
-      const flow = this.parseNavigationCall(call, sourceFile.getFilePath());
-      if (flow) {
-        this.flows.push(flow);
+  // Joins router commands like ['/users', 'edit'] into a single path
+  private joinPathSegments(segments: string[]): string {
+    let builtPath = "";
+    if (segments[0].startsWith("/")) {
+      builtPath = segments[0];
+      for (let i = 1; i < segments.length; i++) {
+        if (!builtPath.endsWith("/")) {
+          builtPath += "/";
+        }
+        builtPath += segments[i].startsWith("/")
+          ? segments[i].substring(1)
+          : segments[i];
       }
+    } else {
+      builtPath = segments
+        .map((s) => s.replace(/^\/+|\/+$/g, ""))
+        .filter((s) => s)
+        .join("/");
     }
+    return builtPath.replace(/\/\//g, "/");
   }
 
   private parseNavigationCall(
     callNode: CallExpression,
     filePath: string
   ): NavigationFlow | null {
-    const expression = callNode.getExpression().getText();
-    const isNavigateCall =
-      expression.endsWith("router.navigate") ||
-      expression.endsWith("router.navigateByUrl");
-    if (!isNavigateCall) return null;
-
     const navArgs = callNode.getArguments();
     if (navArgs.length === 0) return null;
 
-    const targetPathNode = navArgs[0];
+    const targetPath = this.getNavigationTarget(navArgs[0]);
+    if (targetPath === undefined) return null;
+
+    return this.createNavigationFlow(callNode, filePath, targetPath, navArgs[1]);
+  }
+
+  // Path a router.navigate command array or navigateByUrl URL leads to
+  private getNavigationTarget(targetPathNode: Node): string | undefined {
     let targetPath: string | undefined;
 
     if (Node.isArrayLiteralExpression(targetPathNode)) {
       let segments: string[] = [];
       targetPathNode.getElements().forEach((elNode) => {
-        if (Node.isStringLiteral(elNode)) {
-          segments.push(elNode.getLiteralValue());
-        } else {
-          const elText = elNode.getText();
-          if (elText.toLowerCase().includes("id")) {
-            segments.push(":id");
-          } else {
-            segments.push(`:${elText.replace(/[^a-zA-Z0-9_]/g, "")}`);
-          }
-        }
+        segments.push(
+          this.constantEvaluator.evaluateString(elNode) ??
+            this.toRouteParam(elNode.getText())
+        );
       });
 
       if (segments.length > 0) {
-        let builtPath = "";
-        if (segments[0].startsWith("/")) {
-          builtPath = segments[0];
-          for (let i = 1; i < segments.length; i++) {
-            if (!builtPath.endsWith("/")) {
-              builtPath += "/";
-            }
-            builtPath += segments[i].startsWith("/")
-              ? segments[i].substring(1)
-              : segments[i];
-          }
-        } else {
-          builtPath = segments
-            .map((s) => s.replace(/^\/+|\/+$/g, ""))
-            .filter((s) => s)
-            .join("/");
-        }
-        targetPath = builtPath.replace(/\/\//g, "/");
+        targetPath = this.joinPathSegments(segments);
       }
-    } else if (Node.isStringLiteral(targetPathNode)) {
-      targetPath = targetPathNode.getLiteralValue();
+    } else {
+      targetPath = this.constantEvaluator.evaluateString(targetPathNode);
     }
 
-    if (targetPath === undefined) return null;
+    return targetPath;
+  }
 
+  private createNavigationFlow(
+    callNode: CallExpression,
+    filePath: string,
+    targetPath: string,
+    extras?: Node
+  ): NavigationFlow {
     let fromContextIdentifier: string;
     const containingClass = callNode.getFirstAncestorByKind(
       SyntaxKind.ClassDeclaration
@@ -1118,31 +1442,818 @@ export class AngularAnalyzer implements IFrameworkAnalyzer {
       containingClass && containingClass.getNameNode()
         ? containingClass.getName()!
         : fromContextIdentifier;
-    return { from, to: targetPath, type: "dynamic" };
+
+    // router.navigate(commands, { queryParams, fragment })
+    let queryParams: Record<string, string> | undefined;
+    let fragment: string | undefined;
+    if (extras && Node.isObjectLiteralExpression(extras)) {
+      const queryParamsProp = extras.getProperty("queryParams");
+      const queryParamsNode = Node.isPropertyAssignment(queryParamsProp)
+        ? queryParamsProp.getInitializer()
+        : undefined;
+      if (queryParamsNode && Node.isObjectLiteralExpression(queryParamsNode)) {
+        queryParams = this.readQueryParams(queryParamsNode);
+      }
+      const fragmentProp = extras.getProperty("fragment");
+      const fragmentNode = Node.isPropertyAssignment(fragmentProp)
+        ? fragmentProp.getInitializer()
+        : undefined;
+      if (fragmentNode) {
+        fragment =
+          this.constantEvaluator.evaluateString(fragmentNode) ??
+          fragmentNode.getText();
+      }
+    }
+
+    return {
+      from,
+      to: targetPath,
+      type: "dynamic",
+      ...(queryParams ? { queryParams } : {}),
+      ...(fragment !== undefined ? { fragment } : {}),
+      source: this.sourceLocator.fromNode(callNode),
+    };
+  }
+
+  // Route param placeholder for a runtime router command such as user.id.
+  // Number literals are segments as they are: ['/users', 1] is /users/1
+  private toRouteParam(expression: string): string {
+    const literal = expression.trim();
+    if (/^\d+(\.\d+)?$/.test(literal)) {
+      return String(Number(literal));
+    }
+    return expression.toLowerCase().includes("id")
+      ? ":id"
+      : `:${expression.replace(/[^a-zA-Z0-9_]/g, "")}`;
+  }
+
+  // Query params keep constant values; runtime values keep their expression
+  private readQueryParams(
+    object: ObjectLiteralExpression
+  ): Record<string, string> | undefined {
+    const queryParams: Record<string, string> = {};
+    for (const prop of object.getProperties()) {
+      if (Node.isPropertyAssignment(prop)) {
+        const initializer = prop.getInitializer();
+        if (!initializer) continue;
+        queryParams[prop.getNameNode().getText().replace(/^['"]|['"]$/g, "")] =
+          this.constantEvaluator.evaluateString(initializer) ??
+          initializer.getText();
+      } else if (Node.isShorthandPropertyAssignment(prop)) {
+        queryParams[prop.getName()] = prop.getName();
+      }
+    }
+    return Object.keys(queryParams).length > 0 ? queryParams : undefined;
   }
 
   private extractTemplateNavigation(
     content: string,
     templateFilePath: string,
-    fromComponentName: string
+    fromComponentName: string,
+    templateFileText: string = content,
+    templateStart: number = 0,
+    componentClass?: ClassDeclaration
   ): void {
-    const root = parseHTML(content);
-    const routerLinks = root.querySelectorAll("[routerLink]");
-
-    for (const link of routerLinks) {
-      const routePath = link.getAttribute("routerLink");
-      if (routePath) {
-        let normalizedToPath = routePath.trim();
-        if (normalizedToPath !== "/" && normalizedToPath.endsWith("/")) {
-          normalizedToPath = normalizedToPath.slice(0, -1);
-        }
+    const root = this.parseTemplate(content);
+    // Relative links resolve against the route rendering the component
+    const fromRoute = this.routeMatcher.findSourceRoutes(
+      componentClass?.getName() ?? fromComponentName
+    )[0];
+
+    for (const link of root.querySelectorAll("*")) {
+      const source = this.sourceLocator.fromOffset(
+        templateFilePath,
+        templateFileText,
+        templateStart + link.range[0]
+      );
 
+      // (click)="router.navigate([...])" and similar event bindings
+      this.getTemplateEventNavigation(link, componentClass).forEach((target) =>
         this.flows.push({
           from: fromComponentName,
-          to: normalizedToPath,
-          type: "static",
+          to: target,
+          type: "dynamic",
+          source,
+        })
+      );
+
+      const target =
+        this.getTemplateLinkTarget(link, componentClass) ??
+        this.getTemplateHref(link);
+      if (!target) continue;
+
+      let normalizedToPath = target;
+      if (!normalizedToPath.startsWith("/") && fromRoute) {
+        normalizedToPath = path.posix.resolve(fromRoute.fullPath, normalizedToPath);
+      }
+      if (normalizedToPath !== "/" && normalizedToPath.endsWith("/")) {
+        normalizedToPath = normalizedToPath.slice(0, -1);
+      }
+
+      const queryParams = this.getTemplateQueryParams(link, componentClass);
+      const fragment = this.getTemplateFragment(link, componentClass);
+
+      this.flows.push({
+        from: fromComponentName,
+        to: normalizedToPath,
+        type: "static",
+        ...(queryParams ? { queryParams } : {}),
+        ...(fragment !== undefined ? { fragment } : {}),
+        source,
+      });
+    }
+  }
+
+  // routerLink="/users", routerLink="../edit", [routerLink]="['/users', user.id]"
+  // or [routerLink]="homeLink" with homeLink read from the component class
+  private getTemplateLinkTarget(
+    link: HTMLElement,
+    componentClass?: ClassDeclaration
+  ): string | undefined {
+    const staticLink = this.getTemplateAttribute(link, ["routerLink"]);
+    if (staticLink !== undefined) {
+      return staticLink.trim() || undefined;
+    }
+
+    const bound = this.getTemplateAttribute(link, ["[routerLink]"])?.trim();
+    return bound ? this.resolveTemplateCommands(bound, componentClass) : undefined;
+  }
+
+  // Plain <a href="/reports"> anchors that stay inside the app
+  private getTemplateHref(link: HTMLElement): string | undefined {
+    if (link.rawTagName?.toLowerCase() !== "a") return undefined;
+    const href = this.getTemplateAttribute(link, ["href"])?.trim();
+    return href && href.startsWith("/") && !href.startsWith("//") && !href.includes("{{")
+      ? href
+      : undefined;
+  }
+
+  // Router commands written in a template: ['/users', user.id], 'reports'
+  // or a component member holding either
+  private resolveTemplateCommands(
+    expression: string,
+    componentClass?: ClassDeclaration
+  ): string | undefined {
+    const bound = expression.trim();
+    const list = bound.match(/^\[([\s\S]*)\]$/);
+    if (list) {
+      const segments = this.splitTemplateList(list[1]).map(
+        (segment) =>
+          this.evaluateTemplateString(segment, componentClass) ??
+          this.toRouteParam(segment)
+      );
+      return segments.length > 0 ? this.joinPathSegments(segments) : undefined;
+    }
+
+    const value = this.resolveTemplateValue(bound, componentClass);
+    if (value === undefined || typeof value === "string") return value;
+    if (Node.isArrayLiteralExpression(value)) {
+      const segments = value
+        .getElements()
+        .map(
+          (element) =>
+            this.constantEvaluator.evaluateString(element) ??
+            this.toRouteParam(element.getText())
+        );
+      return segments.length > 0 ? this.joinPathSegments(segments) : undefined;
+    }
+    return this.constantEvaluator.evaluateString(value);
+  }
+
+  // (click)="router.navigate(['/x'])" or (click)="goTo('/x')" where goTo
+  // passes its argument on to the router
+  private getTemplateEventNavigation(
+    element: HTMLElement,
+    componentClass?: ClassDeclaration
+  ): string[] {
+    const targets: string[] = [];
+
+    for (const [name, handler] of Object.entries(element.attributes)) {
+      if (!/^\([\w.-]+\)$/.test(name)) continue;
+
+      for (const statement of this.splitTemplateList(handler, ";")) {
+        const call = statement.match(/^(?:this\.)?([\w.]+)\s*\(([\s\S]*)\)$/);
+        if (!call) continue;
+        const [, callee, argsText] = call;
+        const args = this.splitTemplateList(argsText);
+
+        const router = callee.match(/^([\w.]+)\.(navigate|navigateByUrl)$/);
+        if (router && componentClass) {
+          const member = this.resolveTemplateMember(componentClass, router[1]);
+          const memberName =
+            member && (Node.isPropertyDeclaration(member) || Node.isParameterDeclaration(member))
+              ? member.getNameNode()
+              : undefined;
+          const target =
+            memberName && this.isRouter(memberName) && args.length > 0
+              ? this.resolveTemplateCommands(args[0], componentClass)
+              : undefined;
+          if (target) targets.push(target);
+          continue;
+        }
+
+        const method = componentClass?.getMethod(callee);
+        if (method) {
+          targets.push(
+            ...this.resolveForwardedNavigation(
+              method,
+              args.map((arg) => ({
+                text: arg,
+                value: this.evaluateTemplateString(arg, componentClass),
+                commands: this.resolveTemplateCommands(arg, componentClass),
+              }))
+            )
+          );
+        }
+      }
+    }
+
+    return targets;
+  }
+
+  // Navigate calls in a method whose target comes from the method's
+  // parameters, filled in with the arguments the caller passes. The calls
+  // themselves are also picked up by extractProgrammaticNavigation.
+  private resolveForwardedNavigation(
+    method: MethodDeclaration,
+    args: ForwardedArgument[]
+  ): string[] {
+    const parameters = method.getParameters().map((p) => p.getName());
+    const argumentFor = (node: Node): ForwardedArgument | undefined => {
+      const index = Node.isIdentifier(node)
+        ? parameters.indexOf(node.getText())
+        : -1;
+      return index >= 0 ? args[index] : undefined;
+    };
+
+    const targets: string[] = [];
+    for (const call of method.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+      if (!this.isRouterNavigateCall(call)) {
+        continue;
+      }
+      const targetNode = call.getArguments()[0];
+      if (!targetNode) continue;
+
+      if (Node.isArrayLiteralExpression(targetNode)) {
+        // Without a constant argument the call adds nothing to the :param
+        // form already recorded for it
+        const elements = targetNode.getElements();
+        const forwardsConstant = elements.some(
+          (element) => argumentFor(element)?.value !== undefined
+        );
+        if (!forwardsConstant) continue;
+        const segments = elements.map((element) => {
+          const arg = argumentFor(element);
+          return arg !== undefined
+            ? arg.value ?? this.toRouteParam(arg.text)
+            : this.constantEvaluator.evaluateString(element) ??
+                this.toRouteParam(element.getText());
         });
+        targets.push(this.joinPathSegments(segments));
+      } else {
+        const target = argumentFor(targetNode)?.commands;
+        if (target) targets.push(target);
+      }
+    }
+    return targets;
+  }
+
+  // [queryParams]="{ tab: 'settings', page: page }" or a component field
+  private getTemplateQueryParams(
+    link: HTMLElement,
+    componentClass?: ClassDeclaration
+  ): Record<string, string> | undefined {
+    const bound = this.getTemplateAttribute(link, ["[queryParams]"])?.trim();
+    if (!bound) return undefined;
+
+    const object = bound.match(/^\{([\s\S]*)\}$/);
+    if (!object) {
+      const value = this.resolveTemplateValue(bound, componentClass);
+      return value !== undefined &&
+        typeof value !== "string" &&
+        Node.isObjectLiteralExpression(value)
+        ? this.readQueryParams(value)
+        : undefined;
+    }
+
+    const queryParams: Record<string, string> = {};
+    for (const entry of this.splitTemplateList(object[1])) {
+      const separator = entry.indexOf(":");
+      if (separator === -1) continue;
+      const key = entry.slice(0, separator).trim().replace(/^['"]|['"]$/g, "");
+      const value = entry.slice(separator + 1).trim();
+      queryParams[key] =
+        this.evaluateTemplateString(value, componentClass) ?? value;
+    }
+    return Object.keys(queryParams).length > 0 ? queryParams : undefined;
+  }
+
+  // fragment="top" or [fragment]="'top'"
+  private getTemplateFragment(
+    link: HTMLElement,
+    componentClass?: ClassDeclaration
+  ): string | undefined {
+    const staticFragment = this.getTemplateAttribute(link, ["fragment"]);
+    if (staticFragment !== undefined) return staticFragment;
+
+    const bound = this.getTemplateAttribute(link, ["[fragment]"])?.trim();
+    if (!bound) return undefined;
+    return this.evaluateTemplateString(bound, componentClass) ?? bound;
+  }
+
+  private evaluateTemplateString(
+    expression: string,
+    componentClass?: ClassDeclaration
+  ): string | undefined {
+    const value = this.resolveTemplateValue(expression, componentClass);
+    return value === undefined || typeof value === "string"
+      ? value
+      : this.constantEvaluator.evaluateString(value);
+  }
+
+  // A quoted template literal, or the initializer of the component member
+  // an expression such as homeLink or routes.home refers to
+  private resolveTemplateValue(
+    expression: string,
+    componentClass?: ClassDeclaration
+  ): Node | string | undefined {
+    const quoted = expression.trim().match(/^'([^']*)'$|^"([^"]*)"$/);
+    if (quoted) return quoted[1] ?? quoted[2];
+    if (!componentClass) return undefined;
+
+    const declaration = this.resolveTemplateMember(componentClass, expression);
+    if (
+      Node.isPropertyDeclaration(declaration) ||
+      Node.isPropertyAssignment(declaration) ||
+      Node.isVariableDeclaration(declaration) ||
+      Node.isEnumMember(declaration)
+    ) {
+      return declaration.getInitializer();
+    }
+    if (Node.isGetAccessorDeclaration(declaration)) {
+      return declaration
+        .getDescendantsOfKind(SyntaxKind.ReturnStatement)[0]
+        ?.getExpression();
+    }
+    return undefined;
+  }
+
+  // Parses an Angular template. `<` and `>` inside interpolations and
+  // @if/@for/@switch/@defer block headers are blanked out first so the
+  // HTML parser does not read them as tags; offsets stay unchanged.
+  private parseTemplate(content: string): HTMLElement {
+    const blank = (text: string) => text.replace(/[<>]/g, " ");
+    return parseHTML(
+      content
+        .replace(/\{\{[\s\S]*?\}\}/g, blank)
+        .replace(
+          /@(?:if|else\s+if|for|switch|case|defer)\s*\([^{]*\{/g,
+          blank
+        )
+    );
+  }
+
+  // Splits a template list or object body at top-level commas (or another
+  // separator, such as the `;` between event handler statements)
+  private splitTemplateList(text: string, separator: string = ","): string[] {
+    const items: string[] = [];
+    let depth = 0;
+    let quote: string | null = null;
+    let current = "";
+    for (const char of text) {
+      if (quote) {
+        if (char === quote) quote = null;
+      } else if (char === "'" || char === '"') {
+        quote = char;
+      } else if ("([{".includes(char)) {
+        depth++;
+      } else if (")]}".includes(char)) {
+        depth--;
+      } else if (char === separator && depth === 0) {
+        items.push(current.trim());
+        current = "";
+        continue;
+      }
+      current += char;
+    }
+    if (current.trim()) items.push(current.trim());
+    return items;
+  }
+
+  private analyzeMenuStructures(): void {
+    // Nav-item arrays declared in services, constants and components
+    for (const sourceFile of this.project.getSourceFiles()) {
+      sourceFile.forEachDescendant((node) => {
+        if (
+          Node.isArrayLiteralExpression(node) &&
+          !this.menuArrays.has(node) &&
+          this.isMenuArray(node)
+        ) {
+          this.extractMenuArray(node).forEach((menu) => this.addMenu(menu));
+        }
+      });
+    }
+
+    // Templates rendering those arrays (or plain links) as navigation
+    for (const sourceFile of this.project.getSourceFiles()) {
+      if (sourceFile.getFilePath().endsWith(".component.ts")) {
+        this.analyzeTemplateMenus(sourceFile);
       }
     }
+
+    console.log(`🍔 Found ${this.menus.length} menu entries`);
+  }
+
+  private isMenuArray(array: ArrayLiteralExpression): boolean {
+    const elements = array.getElements();
+    if (elements.length === 0) return false;
+    if (!elements.every((el) => Node.isObjectLiteralExpression(el))) {
+      return false;
+    }
+
+    const objects = elements as ObjectLiteralExpression[];
+    if (
+      objects.some(
+        (obj) =>
+          this.processedRouteObjects.has(obj) ||
+          ["component", "loadComponent", "loadChildren", "redirectTo"].some(
+            (key) => obj.getProperty(key)
+          )
+      )
+    ) {
+      return false;
+    }
+
+    // Arrays typed as NavItem[], MenuItem[], Array<SidebarMenu>, ...
+    const typeText = array.getContextualType()?.getText() ?? "";
+    if (/(Nav|Menu)\w*(\[\]|>)/.test(typeText)) {
+      return true;
+    }
+
+    return objects.every(
+      (obj) =>
+        this.getMenuProperty(obj, AngularAnalyzer.MENU_TITLE_KEYS) &&
+        this.getMenuProperty(obj, AngularAnalyzer.MENU_LINK_KEYS)
+    );
+  }
+
+  private getMenuProperty(
+    obj: ObjectLiteralExpression,
+    keys: string[]
+  ): Node | undefined {
+    for (const key of keys) {
+      const prop = obj.getProperty(key);
+      if (prop && Node.isPropertyAssignment(prop)) {
+        return prop.getInitializer();
+      }
+    }
+    return undefined;
+  }
+
+  private extractMenuArray(array: ArrayLiteralExpression): MenuDefinition[] {
+    const menus: MenuDefinition[] = [];
+    for (const element of array.getElements()) {
+      if (Node.isObjectLiteralExpression(element)) {
+        const menu = this.extractMenuItem(element);
+        if (menu) {
+          menus.push(menu);
+        }
+      }
+    }
+    this.menuArrays.set(array, menus);
+    return menus;
+  }
+
+  private extractMenuItem(obj: ObjectLiteralExpression): MenuDefinition | null {
+    const titleNode = this.getMenuProperty(obj, AngularAnalyzer.MENU_TITLE_KEYS);
+    const linkNode = this.getMenuProperty(obj, AngularAnalyzer.MENU_LINK_KEYS);
+    const childrenNode = this.getMenuProperty(
+      obj,
+      AngularAnalyzer.MENU_CHILD_KEYS
+    );
+    const rolesNode = this.getMenuProperty(obj, AngularAnalyzer.MENU_ROLE_KEYS);
+
+    const title = titleNode ? this.getMenuStringValue(titleNode) : undefined;
+    let menuPath = "";
+    if (linkNode && Node.isArrayLiteralExpression(linkNode)) {
+      const segments = linkNode
+        .getElements()
+        .map((el) => this.getMenuStringValue(el) ?? `:${el.getText()}`);
+      menuPath = segments.length > 0 ? this.joinPathSegments(segments) : "";
+    } else if (linkNode) {
+      menuPath = this.getMenuStringValue(linkNode) ?? "";
+    }
+
+    const children =
+      childrenNode && Node.isArrayLiteralExpression(childrenNode)
+        ? this.extractMenuArray(childrenNode)
+        : [];
+
+    // Group headers without a link of their own are kept when they have children
+    if (!title || (!menuPath && children.length === 0)) {
+      return null;
+    }
+
+    let roles: string[] = [];
+    if (rolesNode && Node.isArrayLiteralExpression(rolesNode)) {
+      roles = rolesNode
+        .getElements()
+        .map((el) => this.getMenuStringValue(el))
+        .filter((role): role is string => !!role);
+    } else if (rolesNode) {
+      const role = this.getMenuStringValue(rolesNode);
+      roles = role ? [role] : [];
+    }
+
+    return {
+      title,
+      path: menuPath,
+      children: children.length > 0 ? children : undefined,
+      roles: roles.length > 0 ? roles : undefined,
+    };
+  }
+
+  private getMenuStringValue(node: Node): string | undefined {
+    // Literals, enum members and constants such as Role.Admin or ROUTES.HOME
+    return this.constantEvaluator.evaluateString(node);
+  }
+
+  private addMenu(menu: MenuDefinition): void {
+    const existing = this.menus.find(
+      (m) => m.title === menu.title && m.path === menu.path
+    );
+    if (existing) {
+      this.mergeMenuRoles(existing, menu.roles ?? []);
+    } else {
+      this.menus.push(menu);
+    }
+  }
+
+  private mergeMenuRoles(menu: MenuDefinition, roles: string[]): void {
+    if (roles.length === 0) return;
+    menu.roles = Array.from(new Set([...(menu.roles ?? []), ...roles]));
+  }
+
+  private analyzeTemplateMenus(sourceFile: SourceFile): void {
+    const componentClass = sourceFile.getClasses()[0];
+    const template = this.resolveComponentTemplate(sourceFile);
+    if (!componentClass || !template) return;
+
+    const root = this.parseTemplate(template.content);
+    const isNavComponent = /nav|menu|sidebar|toolbar/i.test(
+      path.basename(sourceFile.getFilePath())
+    );
+
+    // <li *ngFor="let item of items"><a [routerLink]="item.route">
+    for (const element of root.querySelectorAll("*")) {
+      const ngFor = this.getTemplateAttribute(element, ["*ngFor", "[ngForOf]"]);
+      const match = ngFor?.match(/let\s+(\w+)\s+of\s+([^;]+)/);
+      if (!match) continue;
+
+      const [, itemName, iterable] = match;
+      if (!this.rendersRouterLinks(element, itemName)) continue;
+
+      const array = this.resolveTemplateArray(componentClass, iterable);
+      if (!array) continue;
+
+      let menus = this.menuArrays.get(array);
+      if (!menus) {
+        menus = this.extractMenuArray(array);
+        menus.forEach((menu) => this.addMenu(menu));
+      }
+      const roles = this.extractTemplateRoles(element);
+      menus.forEach((menu) => this.mergeMenuRoles(menu, roles));
+    }
+
+    // Plain links inside <nav> elements or navigation components
+    for (const link of root.querySelectorAll("a")) {
+      const target = this.getStaticRouterLink(link);
+      if (target === undefined) continue;
+      const inLoop = this.findTemplateAncestor(
+        link,
+        (el) => !!this.getTemplateAttribute(el, ["*ngFor", "[ngForOf]"])
+      );
+      if (inLoop) continue;
+      const inNav = !!this.findTemplateAncestor(
+        link,
+        (el) => el.rawTagName?.toLowerCase() === "nav"
+      );
+      if (!inNav && !isNavComponent) continue;
+
+      const title = link.text.replace(/\s+/g, " ").trim();
+      if (!title || title.includes("{{")) continue;
+
+      const roles = this.extractTemplateRoles(link);
+      this.addMenu({
+        title,
+        path: target,
+        roles: roles.length > 0 ? roles : undefined,
+      });
+    }
+  }
+
+  // True when the loop item (or a nested loop over its children) feeds a
+  // [routerLink] binding somewhere inside the repeated element
+  private rendersRouterLinks(element: HTMLElement, itemName: string): boolean {
+    const loopNames = new Set([itemName]);
+    const references = (value: string | undefined) =>
+      !!value &&
+      Array.from(loopNames).some((name) =>
+        new RegExp(`^\\s*${name}\\.`).test(value)
+      );
+
+    for (const el of [element, ...element.querySelectorAll("*")]) {
+      const nested = this.getTemplateAttribute(el, ["*ngFor", "[ngForOf]"])
+        ?.match(/let\s+(\w+)\s+of\s+([^;]+)/);
+      if (nested && references(nested[2])) {
+        loopNames.add(nested[1]);
+      }
+      if (references(this.getTemplateAttribute(el, ["[routerLink]"]))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private getTemplateAttribute(
+    element: HTMLElement,
+    names: string[]
+  ): string | undefined {
+    // The HTML parser drops the `*` of structural directives (*ngFor -> ngFor)
+    const normalize = (name: string) => name.replace(/^\*/, "").toLowerCase();
+    for (const [name, value] of Object.entries(element.attributes)) {
+      if (names.some((n) => normalize(n) === normalize(name))) {
+        return value;
+      }
+    }
+    return undefined;
+  }
+
+  private findTemplateAncestor(
+    element: HTMLElement,
+    predicate: (el: HTMLElement) => boolean
+  ): HTMLElement | undefined {
+    let current: HTMLElement | null = element;
+    while (current && current.rawTagName) {
+      if (predicate(current)) return current;
+      current = current.parentNode;
+    }
+    return undefined;
+  }
+
+  private getStaticRouterLink(link: HTMLElement): string | undefined {
+    const staticLink = this.getTemplateAttribute(link, ["routerLink"]);
+    if (staticLink !== undefined) {
+      return this.normalizeMenuPath(staticLink.trim());
+    }
+
+    // [routerLink]="'/reports'" or [routerLink]="['/admin', 'users']"
+    const bound = this.getTemplateAttribute(link, ["[routerLink]"])?.trim();
+    if (!bound) return undefined;
+    const quoted = /^'([^']*)'$|^"([^"]*)"$/;
+    const single = bound.match(quoted);
+    if (single) {
+      return this.normalizeMenuPath(single[1] ?? single[2]);
+    }
+    const list = bound.match(/^\[(.*)\]$/);
+    if (list) {
+      const segments = list[1].split(",").map((s) => s.trim().match(quoted));
+      if (segments.length > 0 && segments.every((s) => s)) {
+        return this.normalizeMenuPath(
+          this.joinPathSegments(segments.map((s) => s![1] ?? s![2]))
+        );
+      }
+    }
+    return undefined;
+  }
+
+  private normalizeMenuPath(menuPath: string): string {
+    return menuPath !== "/" && menuPath.endsWith("/")
+      ? menuPath.slice(0, -1)
+      : menuPath;
+  }
+
+  private resolveTemplateArray(
+    componentClass: ClassDeclaration,
+    expression: string
+  ): ArrayLiteralExpression | undefined {
+    const declaration = this.resolveTemplateMember(componentClass, expression);
+    return declaration ? this.resolveArrayDeclaration(declaration) : undefined;
+  }
+
+  // Declaration of the component member a template expression reads
+  private resolveTemplateMember(
+    componentClass: ClassDeclaration,
+    expression: string
+  ): Node | undefined {
+    // Drop pipes such as `| async` and an explicit `this.`
+    const segments = expression
+      .split("|")[0]
+      .trim()
+      .replace(/^this\./, "")
+      .split(".");
+    if (!segments.every((segment) => /^\w+$/.test(segment))) {
+      return undefined;
+    }
+
+    const [first, ...rest] = segments;
+    let declaration: Node | undefined =
+      componentClass.getProperty(first) ??
+      componentClass.getGetAccessor(first) ??
+      componentClass.getConstructors()[0]?.getParameter(first);
+
+    // Walk service members through the type checker: nav.adminItems
+    for (const name of rest) {
+      if (!declaration) return undefined;
+      const symbol = declaration.getType().getProperty(name);
+      declaration = symbol?.getValueDeclaration() ?? symbol?.getDeclarations()[0];
+    }
+
+    return declaration;
+  }
+
+  private resolveArrayDeclaration(
+    node: Node,
+    depth: number = 0
+  ): ArrayLiteralExpression | undefined {
+    if (depth > 5) return undefined;
+
+    let expression: Node | undefined = node;
+    if (
+      Node.isPropertyDeclaration(node) ||
+      Node.isVariableDeclaration(node) ||
+      Node.isPropertyAssignment(node)
+    ) {
+      expression = node.getInitializer();
+    } else if (Node.isGetAccessorDeclaration(node)) {
+      expression = node
+        .getDescendantsOfKind(SyntaxKind.ReturnStatement)[0]
+        ?.getExpression();
+    }
+
+    while (
+      expression &&
+      (Node.isAsExpression(expression) ||
+        Node.isSatisfiesExpression(expression) ||
+        Node.isParenthesizedExpression(expression))
+    ) {
+      expression = expression.getExpression();
+    }
+
+    if (!expression) return undefined;
+    if (Node.isArrayLiteralExpression(expression)) return expression;
+
+    if (
+      Node.isIdentifier(expression) ||
+      Node.isPropertyAccessExpression(expression)
+    ) {
+      let symbol = expression.getSymbol();
+      if (symbol?.isAlias()) {
+        symbol = symbol.getAliasedSymbol();
+      }
+      const declaration =
+        symbol?.getValueDeclaration() ?? symbol?.getDeclarations()[0];
+      if (declaration && declaration !== node) {
+        return this.resolveArrayDeclaration(declaration, depth + 1);
+      }
+    }
+    return undefined;
+  }
+
+  // Roles from *appHasRole="'admin'"-style directives and *ngIf checks such
+  // as hasRole('admin') or user.role === 'admin' on the element or its parents
+  private extractTemplateRoles(element: HTMLElement): string[] {
+    const roles: string[] = [];
+    let current: HTMLElement | null = element;
+
+    while (current && current.rawTagName) {
+      for (const [name, value] of Object.entries(current.attributes)) {
+        const directive = name.replace(/^[*\[]|\]$/g, "");
+        if (/^ngIf$/i.test(directive)) {
+          const checks = [
+            /\b(?:has\w*Roles?|is\w*Role|has\w*Permissions?)\s*\(([^)]*)\)/gi,
+            /\broles?\b\s*===?\s*('[^']*'|"[^"]*")/gi,
+            /('[^']*'|"[^"]*")\s*===?\s*[\w.]*\broles?\b/gi,
+            /\broles?\.includes\(\s*('[^']*'|"[^"]*")/gi,
+          ];
+          for (const check of checks) {
+            for (const match of value.matchAll(check)) {
+              roles.push(...this.extractQuotedStrings(match[1]));
+            }
+          }
+        } else if (/role|permission/i.test(directive)) {
+          roles.push(...this.extractQuotedStrings(value));
+        }
+      }
+      current = current.parentNode;
+    }
+
+    return Array.from(new Set(roles));
+  }
+
+  private extractQuotedStrings(text: string): string[] {
+    return Array.from(text.matchAll(/'([^']*)'|"([^"]*)"/g))
+      .map((match) => match[1] ?? match[2])
+      .filter((value) => value.length > 0);
   }
 }
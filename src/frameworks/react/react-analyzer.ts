@@ -5,7 +5,14 @@ import {
   Route,
   NavigationFlow,
   MenuDefinition,
+  ApiRoute,
+  RouteFunction,
+  SourceLocation,
 } from "../../core/types.js";
+import { SourceLocator } from "../../core/source-locator.js";
+import { ConstantEvaluator } from "../../core/constant-evaluator.js";
+import { ImportTracer } from "../../core/import-tracer.js";
+import { IgnoreFilter } from "../../core/ignore-filter.js";
 import {
   Project,
   SourceFile,
@@ -24,6 +31,7 @@ import {
   Identifier,
   VariableDeclaration,
   ImportDeclaration,
+  TemplateExpression,
 } from "ts-morph";
 import * as fs from "fs";
 import * as path from "path";
@@ -36,7 +44,59 @@ interface RouteConfig {
   children?: RouteConfig[];
   index?: boolean;
   redirect?: string;
+  loadChildren?: string;
+  loader?: RouteFunction;
+  action?: RouteFunction;
+  errorElement?: string;
+  dataFunctions?: RouteDataFunction[];
   guards?: string[];
+  routeGuards?: RouteGuard[];
+  source?: SourceLocation;
+}
+
+// A component wrapping a route's page that can redirect instead of rendering
+// it, e.g. <RequireAuth roles={['admin']}> or a layout that renders <Outlet>
+interface RouteGuard {
+  name: string; // Component and props as written, e.g. RequireAuth(roles=['admin'])
+  component: string;
+  redirects: GuardRedirect[];
+  inherited?: boolean; // Declared on an enclosing route, which has its own flows
+}
+
+// A <Navigate to> (or v5 <Redirect to>) a guard component renders
+interface GuardRedirect {
+  to: string;
+  node: Node;
+}
+
+// Where a Next.js app/ directory sits in the route tree
+interface AppSegmentContext {
+  urlPath: string;
+  slot?: string; // Parallel route slot (@modal) the segment renders in
+  interceptedFrom?: string; // URL an intercepting route (.)photo replaces the page on
+  boundaries: Pick<Route, "errorElement" | "loading" | "notFound">;
+}
+
+// A Remix or React Router framework-mode route module and the routes
+// rendered in its <Outlet />
+interface RemixRouteEntry {
+  file: string;
+  path: string; // Relative to the parent route, "" for pathless layouts
+  index?: boolean;
+  children: RemixRouteEntry[];
+}
+
+// A TanStack Router file route: the options passed to createFileRoute(id)
+// and createLazyFileRoute(id), keyed by route ID such as /_auth/posts/$postId
+interface TanstackFileRoute {
+  id: string;
+  options: ObjectLiteralExpression[];
+}
+
+// A loader or action whose redirect() calls become flows
+interface RouteDataFunction {
+  kind: "loader" | "action";
+  node: Node;
 }
 
 interface NavigationCall {
@@ -51,11 +111,115 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
   private routes: Route[] = [];
   private flows: NavigationFlow[] = [];
   private menus: MenuDefinition[] = [];
+  private apiRoutes: ApiRoute[] = [];
   private projectPath!: string;
+  private sourceLocator!: SourceLocator;
+  private constantEvaluator = new ConstantEvaluator();
+  private importTracer = new ImportTracer();
+  private ignoreFilter!: IgnoreFilter;
   private processedComponents = new Set<string>();
   private componentToFileMap = new Map<string, string>();
   private fileToComponentMap = new Map<string, Set<string>>();
   private routeComponents = new Set<string>();
+  // Route arrays and <Route> trees read through a data router or useRoutes()
+  private routerConfigNodes = new Set<Node>();
+  // Loaders and actions already recorded as route redirects
+  private routeDataFunctions = new Set<Node>();
+  private basename = "";
+  // Next.js files that render a route, and app/ directories with a page or
+  // layout, for attributing server-side redirects
+  private nextRouteFiles = new Map<string, string>();
+  private nextRouteDirs = new Map<string, string>();
+  private nextApiFiles = new Map<string, string>();
+  private nextMiddlewareFile?: SourceFile;
+  private nextNotFoundPath?: string;
+  // Whether routes were read from a React Router v5 <Switch>
+  private hasSwitchRoutes = false;
+  // redirect() calls already recorded as server-side redirect flows
+  private serverRedirectCalls = new Set<Node>();
+  private guardComponents = new Set<string>();
+  // What each guard-like component declaration redirects to, by declaration
+  private componentRedirects = new Map<
+    Node,
+    { redirects: GuardRedirect[]; rendersChildren: boolean }
+  >();
+
+  // Libraries whose useNavigate() / useHistory() results navigate
+  private static readonly ROUTER_MODULES = [
+    "react-router",
+    "react-router-dom",
+    "react-router-native",
+    "@remix-run/react",
+    "@tanstack/react-router",
+  ];
+
+  // Wrapper components that guard the routes they wrap, even when their
+  // source is not in the project. Extended with options.guardComponents.
+  private static readonly DEFAULT_GUARD_COMPONENTS = [
+    "ProtectedRoute",
+    "PrivateRoute",
+    "RequireAuth",
+    "RequireRole",
+    "AuthGuard",
+    "RoleGuard",
+    "AuthRoute",
+  ];
+
+  // Special files of a Next.js app/ directory
+  private static readonly NEXT_APP_FILES = [
+    "page",
+    "layout",
+    "template",
+    "loading",
+    "error",
+    "not-found",
+    "route",
+  ];
+
+  private static readonly HTTP_METHODS = [
+    "GET",
+    "HEAD",
+    "POST",
+    "PUT",
+    "DELETE",
+    "PATCH",
+    "OPTIONS",
+  ];
+
+  private static readonly REMIX_MODULE_EXTENSIONS = ["tsx", "ts", "jsx", "js"];
+
+  // Where route(), index(), layout(), prefix() and flatRoutes() of an
+  // app/routes.ts come from
+  private static readonly REMIX_ROUTE_CONFIG_MODULES = [
+    "@react-router/dev/routes",
+    "@react-router/fs-routes",
+    "@remix-run/route-config",
+    "@remix-run/fs-routes",
+  ];
+
+  // The ID TanStack Router gives the __root.tsx route
+  private static readonly TANSTACK_ROOT_ID = "__root__";
+
+  // Wrappers around a route's page that render it unchanged
+  private static readonly TRANSPARENT_WRAPPERS = [
+    "Suspense",
+    "React.Suspense",
+    "Fragment",
+    "React.Fragment",
+    "StrictMode",
+    "React.StrictMode",
+  ];
+
+  // Libraries exporting redirect() for loaders, actions and server code
+  private static readonly REDIRECT_MODULES = [
+    "react-router",
+    "react-router-dom",
+    "@remix-run/node",
+    "@remix-run/cloudflare",
+    "@remix-run/deno",
+    "@tanstack/react-router",
+    "next/navigation",
+  ];
 
   getFrameworkName(): string {
     return "React";
@@ -137,13 +301,34 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
 
   async analyze(options: ProjectAnalysisOptions): Promise<AnalysisResult> {
     this.projectPath = options.projectPath;
+    this.sourceLocator = new SourceLocator(options.projectPath);
+    this.ignoreFilter = await new IgnoreFilter(
+      options.projectPath,
+      options.ignore
+    ).load();
     this.routes = [];
     this.flows = [];
     this.menus = [];
+    this.apiRoutes = [];
     this.processedComponents.clear();
     this.componentToFileMap.clear();
     this.fileToComponentMap.clear();
     this.routeComponents.clear();
+    this.routerConfigNodes.clear();
+    this.routeDataFunctions.clear();
+    this.basename = "";
+    this.nextRouteFiles.clear();
+    this.nextRouteDirs.clear();
+    this.nextApiFiles.clear();
+    this.nextMiddlewareFile = undefined;
+    this.nextNotFoundPath = undefined;
+    this.serverRedirectCalls.clear();
+    this.hasSwitchRoutes = false;
+    this.componentRedirects.clear();
+    this.guardComponents = new Set([
+      ...ReactAnalyzer.DEFAULT_GUARD_COMPONENTS,
+      ...(options.guardComponents ?? []),
+    ]);
 
     // Initialize ts-morph project
     const tsConfigPath = path.join(this.projectPath, "tsconfig.json");
@@ -208,6 +393,15 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     // Analyze navigation flows
     await this.analyzeNavigationFlows();
 
+    if (routingLibrary === "tanstack-router") {
+      this.applyTanstackParamsToFlows();
+    }
+
+    // Links and redirects are relative to the router's basename
+    if (this.basename) {
+      this.applyBasenameToFlows();
+    }
+
     // Analyze menu structures
     await this.analyzeMenuStructures();
 
@@ -218,6 +412,10 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
       routes: this.routes,
       flows: this.flows,
       menus: this.menus,
+      apiRoutes: this.apiRoutes,
+      router: this.hasSwitchRoutes
+        ? "react-router-v5"
+        : (routingLibrary ?? undefined),
     };
   }
 
@@ -238,7 +436,18 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
       absolute: true,
     });
 
-    this.project.addSourceFilesAtPaths(files);
+    // One at a time: ts-morph would read the [id] and (group) directories
+    // of file-based routers as glob patterns
+    for (const file of this.ignoreFilter.filter(files)) {
+      this.project.addSourceFileAtPath(file);
+    }
+
+    // tsconfig "include" globs may have pulled in ignored files as well
+    for (const sourceFile of this.project.getSourceFiles()) {
+      if (this.ignoreFilter.isIgnored(sourceFile.getFilePath())) {
+        this.project.removeSourceFile(sourceFile);
+      }
+    }
   }
 
   private buildComponentMap(): void {
@@ -333,7 +542,8 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
 
         if (deps["next"]) return "next";
         if (deps["gatsby"]) return "gatsby";
-        if (deps["@remix-run/react"]) return "remix";
+        if (deps["@remix-run/react"] || deps["@react-router/dev"])
+          return "remix";
         if (deps["react-router-dom"] || deps["react-router"])
           return "react-router";
         if (deps["@tanstack/react-router"]) return "tanstack-router";
@@ -351,6 +561,12 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
 
     const sourceFiles = this.project.getSourceFiles();
 
+    // Data routers and useRoutes() first, so the route trees they read are
+    // not picked up again as loose <Route> elements or arrays
+    for (const sourceFile of sourceFiles) {
+      this.extractDataRouterRoutes(sourceFile);
+    }
+
     for (const sourceFile of sourceFiles) {
       // Find Route components and router configurations
       this.extractReactRouterRoutes(sourceFile);
@@ -359,6 +575,140 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     }
   }
 
+  // createBrowserRouter(routes, { basename }), createHashRouter,
+  // createMemoryRouter, createStaticRouter's routes and useRoutes(routes),
+  // with routes given as objects or through createRoutesFromElements()
+  private extractDataRouterRoutes(sourceFile: SourceFile): void {
+    for (const call of sourceFile.getDescendantsOfKind(
+      SyntaxKind.CallExpression
+    )) {
+      const isRouterCall = this.importTracer.isImportOf(
+        call.getExpression(),
+        ReactAnalyzer.ROUTER_MODULES,
+        [
+          "createBrowserRouter",
+          "createHashRouter",
+          "createMemoryRouter",
+          "createStaticRouter",
+          "useRoutes",
+        ]
+      );
+      if (!isRouterCall) continue;
+
+      const [routesArg, optionsArg] = call.getArguments();
+      const routes = routesArg && this.resolveRouteTree(routesArg);
+      if (!routes) continue;
+
+      const basenameProp =
+        optionsArg && Node.isObjectLiteralExpression(optionsArg)
+          ? optionsArg.getProperty("basename")
+          : undefined;
+      const basenameValue =
+        basenameProp && Node.isPropertyAssignment(basenameProp)
+          ? basenameProp.getInitializer()
+          : undefined;
+      const basename =
+        basenameValue && this.constantEvaluator.evaluateString(basenameValue);
+      if (basename && basename !== "/") {
+        this.basename = "/" + basename.replace(/^\/+|\/+$/g, "");
+      }
+
+      this.routerConfigNodes.add(routes);
+      const firstRoute = this.routes.length;
+      if (Node.isArrayLiteralExpression(routes)) {
+        this.processRouteConfigArray(routes);
+      } else {
+        this.processRouteElements(routes);
+      }
+
+      if (basename) {
+        for (const route of this.routes.slice(firstRoute)) {
+          route.fullPath = this.withBasename(route.fullPath);
+          route.path = route.fullPath;
+          if (route.redirectTo?.startsWith("/")) {
+            route.redirectTo = this.withBasename(route.redirectTo);
+          }
+        }
+      }
+    }
+  }
+
+  // The route array or createRoutesFromElements() JSX a router is given,
+  // following constants such as `const routes: RouteObject[] = [...]`
+  private resolveRouteTree(node: Node, depth: number = 0): Node | undefined {
+    if (depth > 10) return undefined;
+
+    if (
+      Node.isParenthesizedExpression(node) ||
+      Node.isAsExpression(node) ||
+      Node.isSatisfiesExpression(node)
+    ) {
+      return this.resolveRouteTree(node.getExpression(), depth + 1);
+    }
+    if (Node.isArrayLiteralExpression(node)) {
+      return node;
+    }
+    if (
+      Node.isCallExpression(node) &&
+      this.importTracer.isImportOf(
+        node.getExpression(),
+        ReactAnalyzer.ROUTER_MODULES,
+        ["createRoutesFromElements", "createRoutesFromChildren"]
+      )
+    ) {
+      const elements = node.getArguments()[0];
+      return elements && this.unwrapParentheses(elements);
+    }
+    if (Node.isIdentifier(node)) {
+      let symbol = node.getSymbol();
+      if (symbol?.isAlias()) {
+        symbol = symbol.getAliasedSymbol() ?? symbol;
+      }
+      for (const declaration of symbol?.getDeclarations() ?? []) {
+        const initializer = Node.isVariableDeclaration(declaration)
+          ? declaration.getInitializer()
+          : undefined;
+        const routes =
+          initializer && this.resolveRouteTree(initializer, depth + 1);
+        if (routes) return routes;
+      }
+    }
+    return undefined;
+  }
+
+  private unwrapParentheses(node: Node): Node {
+    return Node.isParenthesizedExpression(node)
+      ? this.unwrapParentheses(node.getExpression())
+      : node;
+  }
+
+  private isInRouterConfig(node: Node): boolean {
+    return (
+      this.routerConfigNodes.has(node) ||
+      !!node.getFirstAncestor((ancestor) => this.routerConfigNodes.has(ancestor))
+    );
+  }
+
+  // Every route, layouts' children included
+  private getAllRoutes(routes: Route[] = this.routes): Route[] {
+    return routes.flatMap((route) => [
+      route,
+      ...this.getAllRoutes(route.children ?? []),
+    ]);
+  }
+
+  private withBasename(routePath: string): string {
+    return routePath === "/" ? this.basename : this.basename + routePath;
+  }
+
+  private applyBasenameToFlows(): void {
+    for (const flow of this.flows) {
+      if (flow.to.startsWith("/") && !flow.to.startsWith("//")) {
+        flow.to = this.withBasename(flow.to);
+      }
+    }
+  }
+
   private extractReactRouterRoutes(sourceFile: SourceFile): void {
     // Find JSX Route elements
     const jsxElements = sourceFile.getDescendantsOfKind(SyntaxKind.JsxElement);
@@ -369,6 +719,8 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     const allJsxElements = [...jsxElements, ...jsxSelfClosingElements];
 
     for (const element of allJsxElements) {
+      if (this.isInRouterConfig(element)) continue;
+
       const tagName = this.getJsxTagName(element);
 
       if (tagName === "Route" || tagName === "PrivateRoute") {
@@ -381,6 +733,7 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
       // Handle Routes component with children
       if (tagName === "Routes" || tagName === "Switch") {
         this.extractNestedRoutes(element);
+        this.hasSwitchRoutes ||= tagName === "Switch";
       }
     }
   }
@@ -392,29 +745,12 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     );
 
     for (const array of arrayLiterals) {
+      if (this.isInRouterConfig(array)) continue;
+
       if (this.isRouteConfigArray(array)) {
         this.processRouteConfigArray(array);
       }
     }
-
-    // Look for createBrowserRouter, createMemoryRouter, etc.
-    const callExpressions = sourceFile.getDescendantsOfKind(
-      SyntaxKind.CallExpression
-    );
-
-    for (const call of callExpressions) {
-      const expression = call.getExpression().getText();
-      if (
-        expression.includes("createBrowserRouter") ||
-        expression.includes("createMemoryRouter") ||
-        expression.includes("createHashRouter")
-      ) {
-        const args = call.getArguments();
-        if (args.length > 0 && Node.isArrayLiteralExpression(args[0])) {
-          this.processRouteConfigArray(args[0]);
-        }
-      }
-    }
   }
 
   private getJsxTagName(
@@ -432,7 +768,10 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     element: JsxElement | JsxSelfClosingElement
   ): RouteConfig | null {
     const attributes = this.getJsxAttributes(element);
-    const routeInfo: RouteConfig = { path: "" };
+    const routeInfo: RouteConfig = {
+      path: "",
+      source: this.sourceLocator.fromNode(element),
+    };
 
     // Extract path
     const pathAttr = attributes.find((attr) => attr.name === "path");
@@ -447,8 +786,28 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     if (componentAttr) {
       routeInfo.component = this.extractAttributeValue(componentAttr.value);
     } else if (elementAttr) {
-      routeInfo.element = this.extractJsxElementComponent(elementAttr.value);
-    }
+      const expression = Node.isJsxExpression(elementAttr.value)
+        ? elementAttr.value.getExpression()
+        : undefined;
+      const routeElement = expression && this.analyzeRouteElement(expression);
+      routeInfo.element =
+        routeElement?.component ??
+        this.extractJsxElementComponent(elementAttr.value);
+    }
+
+    // Guards wrapping this route's element or an enclosing <Route>'s, and a
+    // v5 guard used in place of <Route>, e.g. <PrivateRoute path component>
+    const tagNameNode = Node.isJsxElement(element)
+      ? element.getOpeningElement().getTagNameNode()
+      : element.getTagNameNode();
+    const routeGuard =
+      tagNameNode.getText() !== "Route"
+        ? this.getRouteGuard(tagNameNode)
+        : undefined;
+    this.addRouteGuards(routeInfo, [
+      ...this.getNestedRouteGuards(element),
+      ...(routeGuard ? [routeGuard] : []),
+    ]);
 
     // Extract index route
     const indexAttr = attributes.find((attr) => attr.name === "index");
@@ -498,21 +857,47 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
   private extractAttributeValue(value: any): string {
     if (!value) return "";
 
+    const target = this.extractTargetValue(value);
+    if (target !== undefined) {
+      return target;
+    } else if (Node.isJsxExpression(value)) {
+      const expression = value.getExpression();
+      if (expression) {
+        return expression.getText();
+      }
+    }
+
+    return value.getText ? value.getText() : "";
+  }
+
+  // A navigation target is a string, a constant or a template. Anything else,
+  // e.g. to={link.to} inside a .map(), has no target we can know statically.
+  private extractTargetValue(value: any): string | undefined {
+    if (!value) return undefined;
+
     if (Node.isStringLiteral(value)) {
       return value.getLiteralValue();
     } else if (Node.isJsxExpression(value)) {
       const expression = value.getExpression();
       if (expression) {
-        if (Node.isIdentifier(expression)) {
-          return expression.getText();
-        } else if (Node.isStringLiteral(expression)) {
-          return expression.getLiteralValue();
+        // Paths from constants, e.g. to={ROUTES.checkout}
+        const constant = this.constantEvaluator.evaluateString(expression);
+        if (constant !== undefined) {
+          return constant;
+        } else if (Node.isTemplateExpression(expression)) {
+          return (
+            "`" +
+            this.constantEvaluator.evaluateTemplate(
+              expression,
+              (span) => `\${${span.getText()}}`
+            ) +
+            "`"
+          );
         }
-        return expression.getText();
       }
     }
 
-    return value.getText ? value.getText() : "";
+    return undefined;
   }
 
   private extractJsxElementComponent(value: any): string {
@@ -537,6 +922,209 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     return "";
   }
 
+  // The page a route renders and the guards wrapped around it, e.g.
+  // <RequireAuth roles={['admin']}><Suspense><Admin /></Suspense></RequireAuth>
+  // renders Admin behind RequireAuth. A guard with nothing inside it is a
+  // layout guard and is the route's component itself.
+  private analyzeRouteElement(
+    node: Node
+  ): { component: string; guards: RouteGuard[] } | undefined {
+    const guards: RouteGuard[] = [];
+    let current = this.unwrapParentheses(node);
+
+    while (
+      Node.isJsxElement(current) ||
+      Node.isJsxSelfClosingElement(current) ||
+      Node.isJsxFragment(current)
+    ) {
+      const tagNameNode = Node.isJsxElement(current)
+        ? current.getOpeningElement().getTagNameNode()
+        : Node.isJsxSelfClosingElement(current)
+          ? current.getTagNameNode()
+          : undefined;
+      const guard =
+        tagNameNode &&
+        !Node.isJsxFragment(current) &&
+        this.getRouteGuard(tagNameNode, current);
+      if (guard) {
+        guards.push(guard);
+      }
+
+      const child = Node.isJsxSelfClosingElement(current)
+        ? undefined
+        : current
+            .getJsxChildren()
+            .find(
+              (c) => Node.isJsxElement(c) || Node.isJsxSelfClosingElement(c)
+            );
+      const isWrapper =
+        !tagNameNode ||
+        !!guard ||
+        ReactAnalyzer.TRANSPARENT_WRAPPERS.includes(tagNameNode.getText());
+      if (!child || !isWrapper) {
+        return tagNameNode
+          ? { component: tagNameNode.getText(), guards }
+          : undefined;
+      }
+      current = child;
+    }
+    return undefined;
+  }
+
+  // Guards on a <Route>'s element and on every <Route> it is nested in
+  private getNestedRouteGuards(
+    element: JsxElement | JsxSelfClosingElement
+  ): RouteGuard[] {
+    const routeElements = [
+      element,
+      ...element
+        .getAncestors()
+        .filter(
+          (ancestor): ancestor is JsxElement =>
+            Node.isJsxElement(ancestor) &&
+            this.getJsxTagName(ancestor) === "Route"
+        ),
+    ].reverse();
+
+    return routeElements.flatMap((routeElement) => {
+      const attributes = this.getJsxAttributes(routeElement);
+      const elementAttr = attributes.find((attr) => attr.name === "element");
+      const expression =
+        elementAttr && Node.isJsxExpression(elementAttr.value)
+          ? elementAttr.value.getExpression()
+          : undefined;
+      const guards =
+        (expression && this.analyzeRouteElement(expression)?.guards) || [];
+      const isEnclosingRoute =
+        routeElement !== element &&
+        attributes.some((attr) => attr.name === "path" || attr.name === "index");
+      return isEnclosingRoute
+        ? guards.map((guard) => ({ ...guard, inherited: true }))
+        : guards;
+    });
+  }
+
+  // A route's guards as its children see them. The redirects of a pathless
+  // layout route's guards are drawn from each child, as it has no node itself.
+  private inheritGuards(routeConfig: RouteConfig): RouteGuard[] {
+    const isRoute = routeConfig.path !== "" || !!routeConfig.index;
+    return (routeConfig.routeGuards ?? []).map((guard) =>
+      isRoute ? { ...guard, inherited: true } : guard
+    );
+  }
+
+  private addRouteGuards(routeConfig: RouteConfig, guards: RouteGuard[]): void {
+    if (guards.length > 0) {
+      routeConfig.routeGuards = [...(routeConfig.routeGuards ?? []), ...guards];
+    }
+  }
+
+  // A component is a guard when it is configured as one, or when it renders
+  // its children (or an <Outlet>) but can <Navigate> away instead
+  private getRouteGuard(
+    tagNameNode: Node,
+    usage?: JsxElement | JsxSelfClosingElement
+  ): RouteGuard | undefined {
+    const component = tagNameNode.getText();
+    const definition = this.getComponentRedirects(tagNameNode);
+    const isGuard =
+      this.guardComponents.has(component) ||
+      (!!definition &&
+        definition.redirects.length > 0 &&
+        definition.rendersChildren);
+    if (!isGuard) return undefined;
+
+    return {
+      name: usage ? this.describeGuardUsage(component, usage) : component,
+      component,
+      redirects: definition?.redirects ?? [],
+    };
+  }
+
+  // RequireAuth(roles=['admin']) for <RequireAuth roles={['admin']}>
+  private describeGuardUsage(
+    component: string,
+    usage: JsxElement | JsxSelfClosingElement
+  ): string {
+    const props = this.getJsxAttributes(usage)
+      .filter((attr) => attr.name !== "children" && attr.name !== "key")
+      .map((attr) => {
+        if (!attr.value) return attr.name;
+        const value = Node.isJsxExpression(attr.value)
+          ? attr.value.getExpression()?.getText()
+          : attr.value.getText();
+        return `${attr.name}=${value}`;
+      });
+    return props.length > 0 ? `${component}(${props.join(", ")})` : component;
+  }
+
+  // The <Navigate to> / <Redirect to> targets in a component's declaration,
+  // and whether it renders its children or an <Outlet>
+  private getComponentRedirects(
+    tagNameNode: Node
+  ): { redirects: GuardRedirect[]; rendersChildren: boolean } | undefined {
+    let symbol = tagNameNode.getSymbol();
+    if (symbol?.isAlias()) {
+      symbol = symbol.getAliasedSymbol() ?? symbol;
+    }
+    const declaration = symbol
+      ?.getDeclarations()
+      .find(
+        (d) =>
+          Node.isFunctionDeclaration(d) ||
+          Node.isVariableDeclaration(d) ||
+          Node.isClassDeclaration(d)
+      );
+    if (!declaration || declaration.getSourceFile().isInNodeModules()) {
+      return undefined;
+    }
+
+    const cached = this.componentRedirects.get(declaration);
+    if (cached) return cached;
+
+    const jsxElements = [
+      ...declaration.getDescendantsOfKind(SyntaxKind.JsxElement),
+      ...declaration.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+    ];
+    const redirects: GuardRedirect[] = [];
+    let rendersChildren = declaration
+      .getDescendantsOfKind(SyntaxKind.Identifier)
+      .some((identifier) => identifier.getText() === "children");
+
+    for (const element of jsxElements) {
+      const elementTagNameNode = Node.isJsxElement(element)
+        ? element.getOpeningElement().getTagNameNode()
+        : element.getTagNameNode();
+      if (
+        this.importTracer.isImportOf(
+          elementTagNameNode,
+          ReactAnalyzer.ROUTER_MODULES,
+          ["Outlet"]
+        )
+      ) {
+        rendersChildren = true;
+      } else if (
+        this.importTracer.isImportOf(
+          elementTagNameNode,
+          ReactAnalyzer.ROUTER_MODULES,
+          ["Navigate", "Redirect"]
+        )
+      ) {
+        const toAttr = this.getJsxAttributes(element).find(
+          (attr) => attr.name === "to"
+        );
+        const to = toAttr && this.extractTargetValue(toAttr.value);
+        if (to) {
+          redirects.push({ to, node: element });
+        }
+      }
+    }
+
+    const result = { redirects, rendersChildren };
+    this.componentRedirects.set(declaration, result);
+    return result;
+  }
+
   private extractNestedRoutes(element: JsxElement | JsxSelfClosingElement): void {
     if (Node.isJsxElement(element)) {
       const children = element.getJsxChildren();
@@ -580,76 +1168,387 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
 
   private processRouteConfigArray(
     array: ArrayLiteralExpression,
-    parentPath: string = ""
+    parentPath: string = "",
+    parentGuards: RouteGuard[] = []
   ): void {
     const elements = array.getElements();
 
     for (const element of elements) {
       if (Node.isObjectLiteralExpression(element)) {
-        this.processRouteConfigObject(element, parentPath);
+        this.processRouteConfigObject(element, parentPath, parentGuards);
       }
     }
   }
 
   private processRouteConfigObject(
     obj: ObjectLiteralExpression,
-    parentPath: string
+    parentPath: string,
+    parentGuards: RouteGuard[] = []
   ): void {
-    const routeConfig: RouteConfig = { path: "" };
-    let children: ArrayLiteralExpression | null = null;
+    const routeConfig: RouteConfig = {
+      path: "",
+      source: this.sourceLocator.fromNode(obj),
+    };
+    let children: Node | undefined;
 
     for (const prop of obj.getProperties()) {
       if (Node.isPropertyAssignment(prop)) {
         const name = prop.getName();
         const initializer = prop.getInitializer();
 
-        if (name === "path" && initializer) {
-          routeConfig.path = this.extractStringValue(initializer);
-        } else if (name === "element" && initializer) {
-          routeConfig.element = this.extractComponentFromInitializer(initializer);
-        } else if (name === "component" && initializer) {
-          routeConfig.component = this.extractComponentFromInitializer(initializer);
-        } else if (name === "index" && initializer) {
-          routeConfig.index = initializer.getText() === "true";
-          if (routeConfig.index) {
-            routeConfig.path = "";
-          }
-        } else if (name === "children" && initializer) {
-          if (Node.isArrayLiteralExpression(initializer)) {
-            children = initializer;
-          }
+        if (name === "children" && initializer) {
+          // An array, a constant or createRoutesFromElements(<Route>...)
+          children = this.resolveRouteTree(initializer);
+        } else if (initializer) {
+          this.applyRouteProperty(routeConfig, name, initializer);
         }
+      } else if (
+        Node.isShorthandPropertyAssignment(prop) ||
+        Node.isMethodDeclaration(prop)
+      ) {
+        // { loader, action } and { async loader() { ... } }
+        this.applyRouteProperty(routeConfig, prop.getName(), prop);
       }
     }
 
     // Add the route
+    const fullPath = this.addConfigRoute(routeConfig, parentPath, parentGuards);
+
+    // Process children, which are guarded by their parent's guards too
+    if (children) {
+      this.routerConfigNodes.add(children);
+      const guards = this.inheritGuards(routeConfig);
+      if (Node.isArrayLiteralExpression(children)) {
+        this.processRouteConfigArray(children, fullPath, guards);
+      } else {
+        this.processRouteElements(children, fullPath, guards);
+      }
+    }
+  }
+
+  // <Route> trees passed to createRoutesFromElements(), which nest their
+  // paths the same way route objects do
+  private processRouteElements(
+    node: Node,
+    parentPath: string = "",
+    parentGuards: RouteGuard[] = []
+  ): void {
+    const elements =
+      Node.isJsxElement(node) || Node.isJsxSelfClosingElement(node)
+        ? [node]
+        : Node.isJsxFragment(node)
+          ? node.getJsxChildren()
+          : [];
+
+    for (const element of elements) {
+      if (Node.isJsxFragment(element)) {
+        this.processRouteElements(element, parentPath, parentGuards);
+        continue;
+      }
+      if (
+        (!Node.isJsxElement(element) &&
+          !Node.isJsxSelfClosingElement(element)) ||
+        this.getJsxTagName(element) !== "Route"
+      ) {
+        continue;
+      }
+
+      const routeConfig: RouteConfig = {
+        path: "",
+        source: this.sourceLocator.fromNode(element),
+      };
+      const attributes = Node.isJsxElement(element)
+        ? element.getOpeningElement().getAttributes()
+        : element.getAttributes();
+      for (const attribute of attributes) {
+        if (!Node.isJsxAttribute(attribute)) continue;
+        const initializer = attribute.getInitializer();
+        const value =
+          initializer && Node.isJsxExpression(initializer)
+            ? initializer.getExpression()
+            : initializer;
+        this.applyRouteProperty(
+          routeConfig,
+          attribute.getNameNode().getText(),
+          value
+        );
+      }
+
+      const fullPath = this.addConfigRoute(
+        routeConfig,
+        parentPath,
+        parentGuards
+      );
+
+      if (Node.isJsxElement(element)) {
+        for (const child of element.getJsxChildren()) {
+          this.processRouteElements(
+            child,
+            fullPath,
+            this.inheritGuards(routeConfig)
+          );
+        }
+      }
+    }
+  }
+
+  // Reads one property of a route object or attribute of a <Route>.
+  // A missing value is a bare JSX attribute such as <Route index />.
+  private applyRouteProperty(
+    routeConfig: RouteConfig,
+    name: string,
+    value: Node | undefined
+  ): void {
+    const valueNode =
+      value && Node.isShorthandPropertyAssignment(value)
+        ? value.getNameNode()
+        : value;
+
+    switch (name) {
+      case "path":
+        if (valueNode) routeConfig.path = this.extractStringValue(valueNode);
+        break;
+      case "element": {
+        if (!valueNode) break;
+        const element = this.analyzeRouteElement(valueNode);
+        routeConfig.element =
+          element?.component ?? this.extractComponentFromInitializer(valueNode);
+        this.addRouteGuards(routeConfig, element?.guards ?? []);
+        break;
+      }
+      case "component":
+      case "Component": {
+        if (!valueNode) break;
+        routeConfig.component = this.extractComponentFromInitializer(valueNode);
+        // A guard layout given as the component, e.g. Component: RequireAuth
+        const guard = Node.isIdentifier(valueNode)
+          ? this.getRouteGuard(valueNode)
+          : undefined;
+        this.addRouteGuards(routeConfig, guard ? [guard] : []);
+        break;
+      }
+      case "index":
+        routeConfig.index = !valueNode || valueNode.getText() === "true";
+        if (routeConfig.index) {
+          routeConfig.path = ""; // Index routes don't have paths
+        }
+        break;
+      case "errorElement":
+      case "ErrorBoundary":
+        if (valueNode) {
+          routeConfig.errorElement =
+            this.extractComponentFromInitializer(valueNode);
+        }
+        break;
+      case "loader":
+      case "action": {
+        if (!value) break;
+        routeConfig[name] = this.describeRouteFunction(value);
+        const functionNode = this.resolveFunction(value);
+        if (functionNode) {
+          routeConfig.dataFunctions = [
+            ...(routeConfig.dataFunctions ?? []),
+            { kind: name, node: functionNode },
+          ];
+        }
+        break;
+      }
+      case "lazy":
+        if (valueNode) this.applyLazyModule(routeConfig, valueNode);
+        break;
+    }
+  }
+
+  // Adds a route read from a route object or <Route> element, and records
+  // the redirects its loader and action return. A route that renders
+  // nothing and only redirects becomes a redirect route.
+  private addConfigRoute(
+    routeConfig: RouteConfig,
+    parentPath: string,
+    parentGuards: RouteGuard[] = []
+  ): string {
     const fullPath = this.buildFullPath(parentPath, routeConfig.path);
+    routeConfig.routeGuards = [
+      ...parentGuards,
+      ...(routeConfig.routeGuards ?? []),
+    ];
+    const component = routeConfig.component || routeConfig.element;
+
+    for (const dataFunction of routeConfig.dataFunctions ?? []) {
+      this.routeDataFunctions.add(dataFunction.node);
+      for (const call of this.getRedirectCalls(dataFunction.node)) {
+        const target = this.extractNavigationTarget(call.getArguments()[0]);
+        if (!target) continue;
+
+        if (!component && !routeConfig.loadChildren && !routeConfig.redirect) {
+          routeConfig.redirect = target;
+        } else {
+          this.flows.push({
+            from: component || fullPath,
+            to: target,
+            type: "redirect",
+            label: dataFunction.kind,
+            source: this.sourceLocator.fromNode(call),
+          });
+        }
+      }
+    }
+    delete routeConfig.dataFunctions;
+
     if (routeConfig.path !== "" || routeConfig.index) {
       this.addRoute({ ...routeConfig, path: fullPath });
     }
+    return fullPath;
+  }
 
-    // Process children
-    if (children) {
-      this.processRouteConfigArray(children, fullPath);
+  // redirect() and redirectDocument() calls in a loader or action,
+  // whether returned or thrown
+  private getRedirectCalls(functionNode: Node): CallExpression[] {
+    return functionNode
+      .getDescendantsOfKind(SyntaxKind.CallExpression)
+      .filter(
+        (call) =>
+          call.getArguments().length > 0 &&
+          this.importTracer.isImportOf(
+            call.getExpression(),
+            ReactAnalyzer.REDIRECT_MODULES,
+            ["redirect", "redirectDocument"]
+          )
+      );
+  }
+
+  private describeRouteFunction(value: Node): RouteFunction {
+    if (Node.isIdentifier(value) || Node.isPropertyAccessExpression(value)) {
+      return { name: value.getText(), kind: "function" };
+    }
+    if (Node.isShorthandPropertyAssignment(value)) {
+      return { name: value.getName(), kind: "function" };
     }
+    return { name: "inline", kind: "inline", expression: value.getText() };
   }
 
-  private extractStringValue(node: Node): string {
-    if (Node.isStringLiteral(node)) {
-      return node.getLiteralValue();
-    } else if (Node.isIdentifier(node)) {
-      // Try to resolve the identifier
-      const symbol = node.getSymbol();
-      if (symbol) {
-        const valueDeclaration = symbol.getValueDeclaration();
-        if (valueDeclaration && Node.isVariableDeclaration(valueDeclaration)) {
-          const initializer = valueDeclaration.getInitializer();
-          if (initializer && Node.isStringLiteral(initializer)) {
-            return initializer.getLiteralValue();
-          }
-        }
+  // The function a loader or action refers to, following imports
+  private resolveFunction(value: Node): Node | undefined {
+    if (
+      Node.isArrowFunction(value) ||
+      Node.isFunctionExpression(value) ||
+      Node.isFunctionDeclaration(value) ||
+      Node.isMethodDeclaration(value)
+    ) {
+      return value;
+    }
+
+    let symbol = Node.isShorthandPropertyAssignment(value)
+      ? value.getValueSymbol()
+      : value.getSymbol();
+    if (symbol?.isAlias()) {
+      symbol = symbol.getAliasedSymbol() ?? symbol;
+    }
+    for (const declaration of symbol?.getDeclarations() ?? []) {
+      if (Node.isFunctionDeclaration(declaration)) {
+        return declaration;
+      }
+      const initializer = Node.isVariableDeclaration(declaration)
+        ? declaration.getInitializer()
+        : undefined;
+      if (
+        initializer &&
+        (Node.isArrowFunction(initializer) ||
+          Node.isFunctionExpression(initializer))
+      ) {
+        return initializer;
+      }
+    }
+    return undefined;
+  }
+
+  // lazy: () => import("./routes/dashboard"). The module exports the route's
+  // Component, loader, action and ErrorBoundary.
+  private applyLazyModule(routeConfig: RouteConfig, value: Node): void {
+    const importCall = value
+      .getDescendantsOfKind(SyntaxKind.CallExpression)
+      .find(
+        (call) => call.getExpression().getKind() === SyntaxKind.ImportKeyword
+      );
+    const specifier = importCall?.getArguments()[0];
+    if (!specifier || !Node.isStringLiteral(specifier)) return;
+
+    routeConfig.loadChildren = specifier.getLiteralValue();
+
+    // The type checker resolves the specifier to the module's source file
+    const module = specifier
+      .getSymbol()
+      ?.getDeclarations()
+      .find(Node.isSourceFile);
+    const exports = module?.getExportedDeclarations();
+
+    // export { DashboardPage as Component } keeps its own name; a plain
+    // `export function Component` is named after the module
+    const componentName = exports && this.getExportedName(exports, "Component");
+    routeConfig.component =
+      componentName && componentName !== "Component"
+        ? componentName
+        : this.getComponentNameFromPath(routeConfig.loadChildren);
+    if (module) {
+      this.registerComponentFile(routeConfig.component, module);
+    }
+
+    if (exports) {
+      this.applyRouteModuleExports(routeConfig, exports);
+    }
+  }
+
+  // The ErrorBoundary, loader and action exported by a lazy or Remix
+  // route module
+  private applyRouteModuleExports(
+    routeConfig: RouteConfig,
+    exports: ReadonlyMap<string, Node[]>
+  ): void {
+    if (exports.has("ErrorBoundary")) {
+      routeConfig.errorElement =
+        this.getExportedName(exports, "ErrorBoundary") ?? "ErrorBoundary";
+    }
+
+    for (const kind of ["loader", "action"] as const) {
+      const declaration = exports.get(kind)?.[0];
+      const functionNode = declaration && this.resolveFunction(declaration);
+      if (functionNode) {
+        routeConfig[kind] = { name: kind, kind: "function" };
+        routeConfig.dataFunctions = [
+          ...(routeConfig.dataFunctions ?? []),
+          { kind, node: functionNode },
+        ];
       }
     }
+  }
+
+  // The declared name of the function or variable exported as `name`
+  private getExportedName(
+    exports: ReadonlyMap<string, Node[]>,
+    name: string
+  ): string | undefined {
+    const declaration = exports.get(name)?.[0];
+    return declaration &&
+      (Node.isFunctionDeclaration(declaration) ||
+        Node.isVariableDeclaration(declaration))
+      ? declaration.getName()
+      : undefined;
+  }
+
+  // Flows from a lazy route module are attributed to the route's component
+  private registerComponentFile(component: string, sourceFile: SourceFile): void {
+    const filePath = sourceFile.getFilePath();
+    const components = this.fileToComponentMap.get(filePath) ?? new Set();
+    components.add(component);
+    this.fileToComponentMap.set(filePath, components);
+    this.componentToFileMap.set(component, filePath);
+  }
+
+  private extractStringValue(node: Node): string {
+    const constant = this.constantEvaluator.evaluateString(node);
+    if (constant !== undefined) {
+      return constant;
+    }
     return node.getText().replace(/['"]/g, "");
   }
 
@@ -695,6 +1594,10 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     if (childPath.startsWith("/")) {
       return childPath;
     }
+    // Index and pathless layout routes share their parent's path
+    if (childPath === "") {
+      return parentPath || "/";
+    }
     
     const cleanParent = parentPath.endsWith("/") 
       ? parentPath.slice(0, -1) 
@@ -719,7 +1622,49 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
         : "/" + routeConfig.path,
       component: routeConfig.component || routeConfig.element,
       guards: routeConfig.guards,
+      source: routeConfig.source,
     };
+    if (routeConfig.redirect) route.redirectTo = routeConfig.redirect;
+    if (routeConfig.loadChildren) route.loadChildren = routeConfig.loadChildren;
+    if (routeConfig.loader) route.loader = routeConfig.loader;
+    if (routeConfig.action) route.action = routeConfig.action;
+    if (routeConfig.errorElement) route.errorElement = routeConfig.errorElement;
+
+    const routeGuards = routeConfig.routeGuards ?? [];
+    if (routeGuards.length > 0) {
+      route.guards = [
+        ...new Set([
+          ...(route.guards ?? []),
+          ...routeGuards.map((guard) => guard.name),
+        ]),
+      ];
+    }
+
+    // Where each guard sends users it turns away, from the guarded page
+    const guardedFrom =
+      route.component && /^[A-Z]/.test(route.component)
+        ? route.component
+        : route.fullPath;
+    for (const guard of routeGuards) {
+      if (guard.inherited) continue;
+      for (const redirect of guard.redirects) {
+        const exists = this.flows.some(
+          (flow) =>
+            flow.type === "guard" &&
+            flow.from === guardedFrom &&
+            flow.to === redirect.to
+        );
+        if (!exists) {
+          this.flows.push({
+            from: guardedFrom,
+            to: redirect.to,
+            type: "guard",
+            label: guard.component,
+            source: this.sourceLocator.fromNode(redirect.node),
+          });
+        }
+      }
+    }
 
     // Avoid duplicates
     const exists = this.routes.some(
@@ -760,98 +1705,843 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     if (fs.existsSync(srcAppDir)) {
       await this.analyzeNextJsAppRouter(srcAppDir);
     }
+
+    // Middleware matches page paths before basePath is added, and
+    // next.config redirects do not pass through it
+    this.analyzeNextJsMiddleware();
+    this.analyzeNextJsConfig();
   }
 
-  private async analyzeNextJsPagesRouter(pagesDir: string): Promise<void> {
-    const pageFiles = await glob("**/*.{js,jsx,ts,tsx}", {
-      cwd: pagesDir,
-      absolute: true,
-      ignore: ["_app.*", "_document.*", "api/**"],
-    });
+  // middleware.ts runs before every route its config.matcher covers.
+  // Those routes get a "middleware" guard, its NextResponse.redirect()
+  // targets become guard flows and its rewrite() targets redirect flows.
+  private analyzeNextJsMiddleware(): void {
+    const middleware = this.getProjectRootFile(
+      ["middleware", "src/middleware", "proxy", "src/proxy"],
+      ["ts", "js"]
+    );
+    if (!middleware) return;
+    this.nextMiddlewareFile = middleware;
+
+    const matchers = this.getNextJsMiddlewareMatchers(middleware);
+    // Pages, not the layouts around them
+    const pages = this.getAllRoutes().filter(
+      (route) =>
+        !route.children?.length &&
+        !route.redirectTo &&
+        (!matchers || matchers.some((matcher) => matcher.test(route.fullPath)))
+    );
 
-    for (const file of pageFiles) {
-      const relativePath = path.relative(pagesDir, file);
-      const routePath = this.nextJsFileToRoute(relativePath);
-      const componentName = this.getComponentNameFromFile(file);
+    for (const route of pages) {
+      route.guards = [...new Set([...(route.guards ?? []), "middleware"])];
+    }
 
-      this.routes.push({
-        path: routePath,
-        fullPath: routePath,
-        component: componentName,
-      });
+    for (const call of middleware.getDescendantsOfKind(
+      SyntaxKind.CallExpression
+    )) {
+      const callee = call.getExpression();
+      if (
+        !Node.isPropertyAccessExpression(callee) ||
+        !["redirect", "rewrite"].includes(callee.getName()) ||
+        !this.importTracer.isImportOf(
+          callee.getExpression(),
+          ["next/server"],
+          ["NextResponse"]
+        )
+      ) {
+        continue;
+      }
 
-      this.routeComponents.add(componentName);
+      const [targetArg] = call.getArguments();
+      const target =
+        targetArg && this.extractMiddlewareTarget(targetArg).split(/[?#]/)[0];
+      if (!target?.startsWith("/")) continue;
+
+      const isRewrite = callee.getName() === "rewrite";
+      const condition = this.getMiddlewareConditionPaths(call);
+      for (const route of pages) {
+        if (
+          route.fullPath === target ||
+          (condition.include.length > 0 &&
+            !condition.include.some((prefix) =>
+              this.isUnderPath(route.fullPath, prefix)
+            )) ||
+          condition.exclude.some((prefix) =>
+            this.isUnderPath(route.fullPath, prefix)
+          )
+        ) {
+          continue;
+        }
+
+        this.flows.push({
+          from: route.component ?? route.fullPath,
+          to: target,
+          type: isRewrite ? "redirect" : "guard",
+          label: isRewrite ? "rewrite" : "middleware",
+          source: this.sourceLocator.fromNode(call),
+        });
+      }
     }
   }
 
-  private async analyzeNextJsAppRouter(appDir: string): Promise<void> {
-    const pageFiles = await glob("**/page.{js,jsx,ts,tsx}", {
-      cwd: appDir,
-      absolute: true,
-    });
-
-    for (const file of pageFiles) {
-      const relativePath = path.relative(appDir, path.dirname(file));
-      const routePath = this.nextJsAppDirToRoute(relativePath);
-      const componentName = this.getComponentNameFromFile(file);
+  // The exported config.matcher as regular expressions, or undefined when
+  // the middleware runs for every path
+  private getNextJsMiddlewareMatchers(
+    middleware: SourceFile
+  ): RegExp[] | undefined {
+    const initializer = middleware
+      .getVariableDeclaration("config")
+      ?.getInitializer();
+    const config = initializer && this.unwrapConfigValue(initializer);
+    const matcher =
+      config && Node.isObjectLiteralExpression(config)
+        ? this.getConfigValue(config, "matcher")
+        : undefined;
+    if (!matcher) return undefined;
+
+    const value = this.unwrapConfigValue(matcher);
+    const entries = Node.isArrayLiteralExpression(value)
+      ? value.getElements()
+      : [value];
+    const patterns = entries
+      .map((entry) => {
+        const unwrapped = this.unwrapConfigValue(entry);
+        // { source: '/dashboard/:path*', has: [...] }
+        const source = Node.isObjectLiteralExpression(unwrapped)
+          ? this.getConfigValue(unwrapped, "source")
+          : unwrapped;
+        return source && this.constantEvaluator.evaluateString(source);
+      })
+      .filter((pattern): pattern is string => !!pattern);
+
+    return patterns
+      .map((pattern) => this.nextJsMatcherToRegExp(pattern))
+      .filter((matcher): matcher is RegExp => !!matcher);
+  }
 
-      this.routes.push({
-        path: routePath,
-        fullPath: routePath,
-        component: componentName,
+  // Converts a path-to-regexp matcher such as /dashboard/:path* or
+  // /((?!api|_next).*) so route paths can be tested against it
+  private nextJsMatcherToRegExp(pattern: string): RegExp | undefined {
+    let regex = "";
+    for (let i = 0; i < pattern.length; i++) {
+      const char = pattern[i];
+      if (char === "(") {
+        // Custom regex groups are copied as written
+        let depth = 0;
+        let j = i;
+        for (; j < pattern.length; j++) {
+          if (pattern[j] === "\\") j++;
+          else if (pattern[j] === "(") depth++;
+          else if (pattern[j] === ")" && --depth === 0) break;
+        }
+        regex += pattern.slice(i, j + 1);
+        i = j;
+      } else if (char === ":") {
+        const name = /^:\w+/.exec(pattern.slice(i))![0];
+        i += name.length;
+        let segment = "[^/]+";
+        if (pattern[i] === "(") {
+          const group = /^\((?:\\.|[^)])*\)/.exec(pattern.slice(i))?.[0] ?? "";
+          segment = group;
+          i += group.length;
+        }
+        const modifier = "*+?".includes(pattern[i] ?? "") ? pattern[i] : "";
+        if (!modifier) {
+          i--;
+        }
+        if (modifier && regex.endsWith("/")) {
+          // /:path* also matches the bare prefix
+          regex = regex.slice(0, -1);
+          segment =
+            modifier === "+"
+              ? `/${segment}(?:/${segment})*`
+              : `(?:/${segment})${modifier}`;
+        } else if (modifier) {
+          segment = `(?:${segment})${modifier}`;
+        }
+        regex += segment;
+      } else {
+        regex += char.replace(/[.*+?^${}|[\]\\]/g, "\\$&");
+      }
+    }
+
+    try {
+      return new RegExp(`^${regex}$`);
+    } catch {
+      return undefined;
+    }
+  }
+
+  // new URL('/login', request.url), a string, or a cloned nextUrl whose
+  // pathname is assigned before the call
+  private extractMiddlewareTarget(arg: Node): string {
+    const value = this.unwrapConfigValue(arg);
+    if (Node.isNewExpression(value)) {
+      const [urlArg] = value.getArguments();
+      return urlArg ? this.extractNavigationTarget(urlArg) : "";
+    }
+
+    if (Node.isIdentifier(value)) {
+      const declaration = value
+        .getSymbol()
+        ?.getDeclarations()
+        .find(Node.isVariableDeclaration);
+      const initializer = declaration?.getInitializer();
+      if (
+        initializer &&
+        Node.isNewExpression(this.unwrapConfigValue(initializer))
+      ) {
+        return this.extractMiddlewareTarget(initializer);
+      }
+
+      const scope =
+        value.getFirstAncestor((ancestor) =>
+          Node.isFunctionLikeDeclaration(ancestor)
+        ) ?? value.getSourceFile();
+      const assignment = scope
+        .getDescendantsOfKind(SyntaxKind.BinaryExpression)
+        .filter((binary) => {
+          const left = binary.getLeft();
+          return (
+            binary.getOperatorToken().getKind() === SyntaxKind.EqualsToken &&
+            binary.getEnd() < value.getStart() &&
+            Node.isPropertyAccessExpression(left) &&
+            left.getName() === "pathname" &&
+            left.getExpression().getText() === value.getText()
+          );
+        })
+        .pop();
+      return assignment
+        ? this.extractNavigationTarget(assignment.getRight())
+        : "";
+    }
+
+    return this.extractNavigationTarget(value);
+  }
+
+  // Paths tested by the if statements around a middleware redirect, e.g.
+  // pathname.startsWith('/admin'), so it only applies to routes under them.
+  // Paths under a `!` exclude routes instead.
+  private getMiddlewareConditionPaths(call: Node): {
+    include: string[];
+    exclude: string[];
+  } {
+    const include: string[] = [];
+    const exclude: string[] = [];
+
+    for (const statement of call.getAncestors()) {
+      if (!Node.isIfStatement(statement)) continue;
+      const inElse = !!statement
+        .getElseStatement()
+        ?.containsRange(call.getPos(), call.getEnd());
+
+      const condition = statement.getExpression();
+      for (const literal of condition.getDescendantsOfKind(
+        SyntaxKind.StringLiteral
+      )) {
+        const value = literal.getLiteralValue();
+        if (!value.startsWith("/")) continue;
+
+        const negations = literal
+          .getAncestors()
+          .filter(
+            (ancestor) =>
+              ancestor.getPos() >= condition.getPos() &&
+              Node.isPrefixUnaryExpression(ancestor) &&
+              ancestor.getOperatorToken() === SyntaxKind.ExclamationToken
+          ).length;
+        (negations % 2 === 1) !== inElse
+          ? exclude.push(value)
+          : include.push(value);
+      }
+    }
+
+    return { include, exclude };
+  }
+
+  private isUnderPath(routePath: string, prefix: string): boolean {
+    if (prefix === "/") return routePath === "/";
+    const base = prefix.replace(/\/+$/, "");
+    return routePath === base || routePath.startsWith(base + "/");
+  }
+
+  // redirects() and rewrites() from next.config.js become routes that
+  // redirect to their destination, with basePath applied to page routes,
+  // rules and (through this.basename) every flow
+  private analyzeNextJsConfig(): void {
+    const configFile = this.getProjectRootFile(
+      ["next.config"],
+      ["js", "mjs", "ts", "cjs"]
+    );
+    const config = configFile && this.getNextJsConfigObject(configFile);
+    if (!config) return;
+
+    console.log(
+      `  Reading redirects and rewrites from ${path.basename(
+        configFile!.getFilePath()
+      )}`
+    );
+
+    const basePathValue = this.getConfigValue(config, "basePath");
+    const basePath =
+      basePathValue && this.constantEvaluator.evaluateString(basePathValue);
+    if (basePath && basePath !== "/") {
+      this.basename = "/" + basePath.replace(/^\/+|\/+$/g, "");
+      for (const route of this.getAllRoutes()) {
+        route.fullPath = this.withBasename(route.fullPath);
+        route.path = route.fullPath;
+        if (route.data?.interceptedFrom) {
+          route.data.interceptedFrom = this.withBasename(
+            route.data.interceptedFrom
+          );
+        }
+      }
+      for (const apiRoute of this.apiRoutes) {
+        apiRoute.path = this.withBasename(apiRoute.path);
+      }
+    }
+
+    // Rules apply to every locale unless they opt out with locale: false
+    const i18n = this.getConfigValue(config, "i18n");
+    const i18nConfig = i18n && this.unwrapConfigValue(i18n);
+    const localesValue =
+      i18nConfig && Node.isObjectLiteralExpression(i18nConfig)
+        ? this.getConfigValue(i18nConfig, "locales")
+        : undefined;
+    const localesArray = localesValue && this.unwrapConfigValue(localesValue);
+    const locales =
+      localesArray && Node.isArrayLiteralExpression(localesArray)
+        ? localesArray
+            .getElements()
+            .map((element) => this.constantEvaluator.evaluateString(element))
+            .filter((locale): locale is string => !!locale)
+        : [];
+
+    for (const kind of ["redirects", "rewrites"] as const) {
+      const rulesValue = this.getConfigValue(config, kind);
+      const rules = rulesValue ? this.resolveNextConfigRules(rulesValue) : [];
+
+      for (const rule of rules) {
+        this.addNextConfigRule(rule, kind === "rewrites", locales);
+      }
+    }
+  }
+
+  private addNextConfigRule(
+    rule: ObjectLiteralExpression,
+    isRewrite: boolean,
+    locales: string[]
+  ): void {
+    const read = (name: string) => {
+      const value = this.getConfigValue(rule, name);
+      return value && this.constantEvaluator.evaluateString(value);
+    };
+    const isFalse = (name: string) =>
+      this.getConfigValue(rule, name)?.getKind() === SyntaxKind.FalseKeyword;
+
+    const source = read("source");
+    const destination = read("destination");
+    // External destinations (proxies to other hosts) have no route to point at
+    if (!source?.startsWith("/") || !destination?.startsWith("/")) return;
+
+    const prefix = isFalse("basePath") ? "" : this.basename;
+    const withPrefix = (pattern: string) => {
+      const routePath = this.nextJsPatternToRoute(pattern);
+      return prefix && routePath === "/" ? prefix : prefix + routePath;
+    };
+
+    const data: Record<string, any> = isRewrite
+      ? { rewrite: true }
+      : {
+          permanent:
+            this.getConfigValue(rule, "permanent")?.getKind() ===
+              SyntaxKind.TrueKeyword ||
+            [301, 308].includes(
+              Number(this.getConfigValue(rule, "statusCode")?.getText())
+            ),
+        };
+    if (locales.length > 0 && !isFalse("locale")) {
+      data.locales = locales;
+    }
+
+    const fullPath = withPrefix(source);
+    this.routes.push({
+      path: fullPath,
+      fullPath,
+      redirectTo: withPrefix(destination),
+      data,
+      source: this.sourceLocator.fromNode(rule),
+    });
+  }
+
+  // '/blog/:slug(\\d{1,})' → '/blog/:slug', dropping query strings
+  private nextJsPatternToRoute(pattern: string): string {
+    const routePath = pattern
+      .split(/[?#]/)[0]
+      .replace(/(:\w+)\((?:\\.|[^)])*\)/g, "$1")
+      .replace(/\/+$/, "");
+    return routePath || "/";
+  }
+
+  // The object literal module.exports or export default evaluates to,
+  // through constants, wrappers such as withBundleAnalyzer(config) and
+  // (phase) => config functions
+  private getNextJsConfigObject(
+    configFile: SourceFile
+  ): ObjectLiteralExpression | undefined {
+    for (const statement of configFile.getStatements()) {
+      let exported: Node | undefined;
+      if (Node.isExportAssignment(statement)) {
+        exported = statement.getExpression();
+      } else if (Node.isExpressionStatement(statement)) {
+        const expression = statement.getExpression();
+        if (
+          Node.isBinaryExpression(expression) &&
+          expression.getLeft().getText() === "module.exports"
+        ) {
+          exported = expression.getRight();
+        }
+      }
+
+      const config = exported && this.resolveNextConfigObject(exported);
+      if (config) return config;
+    }
+    return undefined;
+  }
+
+  private resolveNextConfigObject(
+    node: Node,
+    depth: number = 0
+  ): ObjectLiteralExpression | undefined {
+    if (depth > 10) return undefined;
+
+    const value = this.unwrapConfigValue(node);
+    if (Node.isObjectLiteralExpression(value)) {
+      return value;
+    }
+    if (Node.isCallExpression(value)) {
+      for (const arg of [...value.getArguments()].reverse()) {
+        const config = this.resolveNextConfigObject(arg, depth + 1);
+        if (config) return config;
+      }
+      return undefined;
+    }
+    for (const returned of this.getReturnedValues(value)) {
+      const config = this.resolveNextConfigObject(returned, depth + 1);
+      if (config) return config;
+    }
+    return undefined;
+  }
+
+  // The rule objects a redirects() or rewrites() value returns, including
+  // spread constants and the { beforeFiles, afterFiles, fallback } form
+  private resolveNextConfigRules(
+    node: Node,
+    depth: number = 0
+  ): ObjectLiteralExpression[] {
+    if (depth > 10) return [];
+
+    const value = this.unwrapConfigValue(node);
+    if (Node.isArrayLiteralExpression(value)) {
+      return value.getElements().flatMap((element) => {
+        const rule = this.unwrapConfigValue(element);
+        return Node.isObjectLiteralExpression(rule)
+          ? [rule]
+          : this.resolveNextConfigRules(
+              Node.isSpreadElement(rule) ? rule.getExpression() : rule,
+              depth + 1
+            );
       });
+    }
+    if (Node.isObjectLiteralExpression(value)) {
+      return ["beforeFiles", "afterFiles", "fallback"].flatMap((phase) => {
+        const rules = this.getConfigValue(value, phase);
+        return rules ? this.resolveNextConfigRules(rules, depth + 1) : [];
+      });
+    }
+    if (Node.isCallExpression(value)) {
+      return this.resolveNextConfigRules(value.getExpression(), depth + 1);
+    }
+    return this.getReturnedValues(value).flatMap((returned) =>
+      this.resolveNextConfigRules(returned, depth + 1)
+    );
+  }
 
-      this.routeComponents.add(componentName);
+  // What a function returns, or a constant's initializer, for following
+  // config values to where they are written
+  private getReturnedValues(node: Node): Node[] {
+    if (Node.isIdentifier(node)) {
+      let symbol = node.getSymbol();
+      if (symbol?.isAlias()) {
+        symbol = symbol.getAliasedSymbol() ?? symbol;
+      }
+      return (symbol?.getDeclarations() ?? []).flatMap((declaration) => {
+        if (Node.isVariableDeclaration(declaration)) {
+          const initializer = declaration.getInitializer();
+          return initializer ? [initializer] : [];
+        }
+        return Node.isFunctionDeclaration(declaration)
+          ? this.getReturnedValues(declaration)
+          : [];
+      });
+    }
+
+    if (Node.isArrowFunction(node) && !Node.isBlock(node.getBody())) {
+      return [node.getBody()];
+    }
+    if (
+      Node.isArrowFunction(node) ||
+      Node.isFunctionExpression(node) ||
+      Node.isFunctionDeclaration(node) ||
+      Node.isMethodDeclaration(node)
+    ) {
+      return node
+        .getDescendantsOfKind(SyntaxKind.ReturnStatement)
+        .filter(
+          (statement) =>
+            statement.getFirstAncestor((ancestor) =>
+              Node.isFunctionLikeDeclaration(ancestor)
+            ) === node
+        )
+        .flatMap((statement) => statement.getExpression() ?? []);
+    }
+    return [];
+  }
+
+  // A property's value: the initializer, the shorthand identifier, or the
+  // method itself for `async redirects() { ... }`
+  private getConfigValue(
+    object: ObjectLiteralExpression,
+    name: string
+  ): Node | undefined {
+    const property = object.getProperty(name);
+    if (Node.isPropertyAssignment(property)) {
+      return property.getInitializer();
+    }
+    if (Node.isShorthandPropertyAssignment(property)) {
+      return property.getNameNode();
+    }
+    return Node.isMethodDeclaration(property) ? property : undefined;
+  }
+
+  // (x), x as T, x satisfies T, await x
+  private unwrapConfigValue(node: Node): Node {
+    let current = node;
+    while (
+      Node.isParenthesizedExpression(current) ||
+      Node.isAsExpression(current) ||
+      Node.isSatisfiesExpression(current) ||
+      Node.isAwaitExpression(current)
+    ) {
+      current = current.getExpression();
+    }
+    return current;
+  }
+
+  private getProjectRootFile(
+    names: string[],
+    extensions: string[]
+  ): SourceFile | undefined {
+    for (const name of names) {
+      for (const extension of extensions) {
+        const filePath = path.join(this.projectPath, `${name}.${extension}`);
+        const sourceFile =
+          this.project.getSourceFile(filePath) ??
+          (fs.existsSync(filePath) && !this.ignoreFilter.isIgnored(filePath)
+            ? this.project.addSourceFileAtPath(filePath)
+            : undefined);
+        if (sourceFile) return sourceFile;
+      }
     }
+    return undefined;
+  }
 
-    // Also check for route.ts/js files (API routes)
-    const routeFiles = await glob("**/route.{js,ts}", {
-      cwd: appDir,
+  private async analyzeNextJsPagesRouter(pagesDir: string): Promise<void> {
+    const pageFiles = await glob("**/*.{js,jsx,ts,tsx}", {
+      cwd: pagesDir,
       absolute: true,
+      ignore: ["_app.*", "_document.*"],
     });
 
-    for (const file of routeFiles) {
-      const relativePath = path.relative(appDir, path.dirname(file));
-      const routePath = this.nextJsAppDirToRoute(relativePath);
+    for (const file of this.ignoreFilter.filter(pageFiles)) {
+      const relativePath = path.relative(pagesDir, file);
+      const routePath = this.nextJsFileToRoute(relativePath);
+
+      // pages/api/* are endpoints, with one handler for every method
+      if (routePath === "/api" || routePath.startsWith("/api/")) {
+        this.apiRoutes.push({
+          path: routePath,
+          methods: [],
+          source: this.getFileRouteSource(file),
+        });
+        this.nextApiFiles.set(file, routePath);
+        continue;
+      }
+
+      const componentName = this.getComponentNameFromFile(file);
 
       this.routes.push({
-        path: routePath + " (API)",
+        path: routePath,
         fullPath: routePath,
-        component: "API Route",
+        component: componentName,
+        source: this.getFileRouteSource(file),
       });
+
+      this.routeComponents.add(componentName);
+      this.nextRouteFiles.set(file, componentName);
+      if (routePath === "/404") {
+        this.nextNotFoundPath = routePath;
+      }
     }
   }
 
-  private nextJsFileToRoute(filePath: string): string {
-    let route = "/" + filePath.replace(/\.(js|jsx|ts|tsx)$/, "");
+  private async analyzeNextJsAppRouter(appDir: string): Promise<void> {
+    const files = await glob(
+      `**/{${ReactAnalyzer.NEXT_APP_FILES.join(",")}}.{js,jsx,ts,tsx}`,
+      { cwd: appDir, absolute: true }
+    );
 
-    // Handle index files
-    route = route.replace(/\/index$/, "");
+    // Special files by kind, per directory relative to app/ ("" for app/)
+    const segments = new Map<string, Map<string, string>>();
+    for (const file of this.ignoreFilter.filter(files)) {
+      const dir = path
+        .relative(appDir, path.dirname(file))
+        .split(path.sep)
+        .join("/");
+      const kind = path.basename(file, path.extname(file));
+      if (!segments.has(dir)) {
+        segments.set(dir, new Map());
+      }
+      segments.get(dir)!.set(kind, file);
+    }
 
-    // Convert [...param] to :param* (catch-all)
-    route = route.replace(/\[\.\.\.([^\]]+)\]/g, ":$1*");
+    this.routes.push(
+      ...this.buildNextJsAppSegment("", segments, {
+        urlPath: "/",
+        boundaries: {},
+      })
+    );
+  }
 
-    // Convert [param] to :param
-    route = route.replace(/\[([^\]]+)\]/g, ":$1");
+  /**
+   * Builds the routes for one app/ directory. A layout.tsx wraps the page
+   * and every segment below it, so it becomes a route with those as its
+   * children; directories without one only add their segment to the path.
+   */
+  private buildNextJsAppSegment(
+    dir: string,
+    segments: Map<string, Map<string, string>>,
+    parent: AppSegmentContext
+  ): Route[] {
+    const name = dir.split("/").pop()!;
+    // _private folders are left out of routing
+    if (name.startsWith("_")) return [];
+
+    const files = segments.get(dir) ?? new Map<string, string>();
+    const context = this.getNextJsAppSegmentContext(name, parent);
+
+    // The nearest error, loading and not-found boundaries cover the
+    // segment and everything below it
+    const boundaries = { ...parent.boundaries };
+    for (const [kind, field] of [
+      ["error", "errorElement"],
+      ["loading", "loading"],
+      ["not-found", "notFound"],
+    ] as const) {
+      const file = files.get(kind);
+      if (file) {
+        boundaries[field] = this.getNextJsAppComponentName(file, dir);
+      }
+    }
+    context.boundaries = boundaries;
 
-    return route || "/";
+    const handler = files.get("route");
+    if (handler) {
+      this.apiRoutes.push({
+        path: context.urlPath,
+        methods: this.getRouteHandlerMethods(handler),
+        source: this.getFileRouteSource(handler),
+      });
+      this.nextApiFiles.set(handler, context.urlPath);
+    }
+
+    const routes: Route[] = [];
+    const page = files.get("page");
+    if (page) {
+      routes.push(this.createNextJsAppRoute(page, dir, context));
+    }
+
+    // The root not-found.tsx is served as /_not-found, where notFound()
+    // calls without a nearer boundary end up
+    const notFound = files.get("not-found");
+    if (!dir && notFound) {
+      routes.push(
+        this.createNextJsAppRoute(notFound, dir, {
+          urlPath: "/_not-found",
+          boundaries: {},
+        })
+      );
+      this.nextNotFoundPath = "/_not-found";
+    }
+
+    const prefix = dir ? dir + "/" : "";
+    const childDirs = new Set<string>();
+    for (const key of segments.keys()) {
+      if (key !== dir && key.startsWith(prefix)) {
+        childDirs.add(prefix + key.slice(prefix.length).split("/")[0]);
+      }
+    }
+    for (const childDir of [...childDirs].sort()) {
+      routes.push(...this.buildNextJsAppSegment(childDir, segments, context));
+    }
+
+    const layout = files.get("layout") ?? files.get("template");
+    const layoutRoute =
+      layout && this.createNextJsAppRoute(layout, dir, context);
+
+    // Server actions and helpers beside a page belong to it
+    const owner = page ?? layout;
+    if (owner) {
+      this.nextRouteDirs.set(
+        path.dirname(owner),
+        this.nextRouteFiles.get(owner)!
+      );
+    }
+
+    if (!layoutRoute) return routes;
+    layoutRoute.children = routes;
+    return [layoutRoute];
+  }
+
+  // Route groups (marketing) and slots @modal add no URL segment;
+  // intercepting routes (.)photo resolve against the parent's URL
+  private getNextJsAppSegmentContext(
+    name: string,
+    parent: AppSegmentContext
+  ): AppSegmentContext {
+    const context = { ...parent };
+    if (!name || /^\([^.)][^)]*\)$/.test(name)) {
+      return context;
+    }
+    if (name.startsWith("@")) {
+      context.slot = name.slice(1);
+      return context;
+    }
+
+    const intercept = /^((?:\(\.{1,3}\))+)(.+)$/.exec(name);
+    let base = parent.urlPath;
+    let segment = name;
+    if (intercept) {
+      // (.) same level, (..) one segment up, (...) from the root
+      for (const marker of intercept[1].match(/\(\.{1,3}\)/g)!) {
+        if (marker === "(...)") base = "/";
+        else if (marker === "(..)") base = path.posix.dirname(base);
+      }
+      segment = intercept[2];
+      context.interceptedFrom = parent.urlPath;
+    }
+
+    const routeSegment = segment
+      // [[...slug]] -> :slug* (optional catch-all)
+      .replace(/^\[\[\.\.\.([^\]]+)\]\]$/, ":$1*")
+      // [...slug] -> :slug+ (catch-all)
+      .replace(/^\[\.\.\.([^\]]+)\]$/, ":$1+")
+      // [id] -> :id
+      .replace(/^\[([^\]]+)\]$/, ":$1");
+    context.urlPath =
+      base === "/" ? "/" + routeSegment : `${base}/${routeSegment}`;
+    return context;
+  }
+
+  private createNextJsAppRoute(
+    file: string,
+    dir: string,
+    context: AppSegmentContext
+  ): Route {
+    const component = this.getNextJsAppComponentName(file, dir);
+    const route: Route = {
+      path: context.urlPath,
+      fullPath: context.urlPath,
+      component,
+      ...context.boundaries,
+      source: this.getFileRouteSource(file),
+    };
+    if (context.slot) {
+      route.outlet = context.slot;
+    }
+    if (context.interceptedFrom) {
+      route.data = { interceptedFrom: context.interceptedFrom };
+    }
+
+    // Links in the file belong to the route's component
+    this.routeComponents.add(component);
+    const sourceFile = this.project.getSourceFile(file);
+    if (sourceFile) {
+      this.registerComponentFile(component, sourceFile);
+    }
+    this.nextRouteFiles.set(file, component);
+    return route;
+  }
+
+  // The default export's own name (export default function PhotoModal),
+  // or else the segment and file kind, e.g. settings/layout.tsx gives
+  // SettingsLayout and a bare Page or Layout stays unambiguous
+  private getNextJsAppComponentName(file: string, dir: string): string {
+    const kind = this.kebabToPascalCase(
+      path.basename(file, path.extname(file))
+    );
+    const sourceFile = this.project.getSourceFile(file);
+    const declaredName = sourceFile && this.getDefaultExportName(sourceFile);
+    if (declaredName && declaredName !== kind) {
+      return declaredName;
+    }
+
+    const segment = dir
+      .split("/")
+      .map((part) => part.replace(/^(\(\.{1,3}\))+/, ""))
+      .reverse()
+      .find((part) => part && !part.startsWith("(") && !part.startsWith("@"));
+    return segment
+      ? this.kebabToPascalCase(segment.replace(/[[\].]/g, "")) + kind
+      : kind;
+  }
+
+  // The name of a default-exported function or class declaration
+  private getDefaultExportName(sourceFile: SourceFile): string | undefined {
+    const declaration = sourceFile
+      .getDefaultExportSymbol()
+      ?.getDeclarations()[0];
+    return declaration &&
+      (Node.isFunctionDeclaration(declaration) ||
+        Node.isClassDeclaration(declaration))
+      ? declaration.getName()
+      : undefined;
+  }
+
+  // The HTTP methods a route.ts exports handlers for
+  private getRouteHandlerMethods(file: string): string[] {
+    const exported = this.project
+      .getSourceFile(file)
+      ?.getExportedDeclarations();
+    return ReactAnalyzer.HTTP_METHODS.filter((method) => exported?.has(method));
   }
 
-  private nextJsAppDirToRoute(dirPath: string): string {
-    if (dirPath === ".") return "/";
+  private nextJsFileToRoute(filePath: string): string {
+    let route = "/" + filePath.replace(/\.(js|jsx|ts|tsx)$/, "");
 
-    let route = "/" + dirPath;
+    // Handle index files
+    route = route.replace(/\/index$/, "");
 
-    // Remove route groups (parentheses)
-    route = route.replace(/\/\([^)]+\)/g, "");
+    // Convert [[...param]] to :param* (optional catch-all)
+    route = route.replace(/\[\[\.\.\.([^\]]+)\]\]/g, ":$1*");
 
-    // Convert [...param] to :param* (catch-all)
-    route = route.replace(/\[\.\.\.([^\]]+)\]/g, ":$1*");
+    // Convert [...param] to :param+ (catch-all)
+    route = route.replace(/\[\.\.\.([^\]]+)\]/g, ":$1+");
 
     // Convert [param] to :param
     route = route.replace(/\[([^\]]+)\]/g, ":$1");
 
-    return route;
+    return route || "/";
   }
 
   private getComponentNameFromFile(filePath: string): string {
@@ -869,6 +2559,17 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     return this.kebabToPascalCase(fileName);
   }
 
+  private getFileRouteSource(filePath: string): SourceLocation {
+    // Point at the default export (the page component) when we can find it
+    const sourceFile = this.project.getSourceFile(filePath);
+    const declaration = sourceFile
+      ?.getDefaultExportSymbol()
+      ?.getDeclarations()[0];
+    return declaration
+      ? this.sourceLocator.fromNode(declaration)
+      : this.sourceLocator.fromFile(filePath);
+  }
+
   private async analyzeGatsbyRouting(): Promise<void> {
     console.log("🟣 Analyzing Gatsby routing...");
 
@@ -880,7 +2581,7 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
         absolute: true,
       });
 
-      for (const file of pageFiles) {
+      for (const file of this.ignoreFilter.filter(pageFiles)) {
         const relativePath = path.relative(pagesDir, file);
         const routePath = this.gatsbyFileToRoute(relativePath);
         const componentName = this.getComponentNameFromFile(file);
@@ -889,6 +2590,7 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
           path: routePath,
           fullPath: routePath,
           component: componentName,
+          source: this.getFileRouteSource(file),
         });
 
         this.routeComponents.add(componentName);
@@ -923,54 +2625,317 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
   private async analyzeRemixRouting(): Promise<void> {
     console.log("🎸 Analyzing Remix routing...");
 
-    // Analyze routes directory
-    const routesDir = path.join(this.projectPath, "app", "routes");
-    if (fs.existsSync(routesDir)) {
-      const routeFiles = await glob("**/*.{js,jsx,ts,tsx}", {
-        cwd: routesDir,
-        absolute: true,
+    // React Router framework mode lists its routes in app/routes.ts,
+    // otherwise every module in app/routes is a route
+    const appDir = path.join(this.projectPath, "app");
+    const routesConfig = this.getProjectRootFile(
+      ["app/routes"],
+      ["ts", "mts", "js", "mjs"]
+    );
+    const routes = routesConfig
+      ? this.readRemixRoutesConfig(routesConfig, appDir)
+      : this.readRemixFlatRoutes(path.join(appDir, "routes"));
+
+    // app/root.tsx renders the top-level routes in its <Outlet />
+    const rootFile = ReactAnalyzer.REMIX_MODULE_EXTENSIONS.map((extension) =>
+      path.join(appDir, `root.${extension}`)
+    ).find((file) => this.project.getSourceFile(file));
+    const entries = rootFile
+      ? [{ file: rootFile, path: "", children: routes }]
+      : routes;
+
+    for (const entry of entries) {
+      this.addRemixRoute(entry, "");
+    }
+  }
+
+  // Remix v2 flat routes: app/routes/users.$id.edit.tsx, or a folder of that
+  // name holding route.tsx. A route is nested in the route whose name is
+  // its longest dot-separated prefix, so users_.$id escapes the users layout.
+  private readRemixFlatRoutes(routesDir: string): RemixRouteEntry[] {
+    if (!fs.existsSync(routesDir)) return [];
+
+    const modules = new Map<string, string>();
+    for (const dirent of fs.readdirSync(routesDir, { withFileTypes: true })) {
+      const entryPath = path.join(routesDir, dirent.name);
+      const extension = path.extname(dirent.name);
+      const file = dirent.isDirectory()
+        ? ["route", "index"]
+            .flatMap((name) =>
+              ReactAnalyzer.REMIX_MODULE_EXTENSIONS.map((ext) =>
+                path.join(entryPath, `${name}.${ext}`)
+              )
+            )
+            .find((candidate) => fs.existsSync(candidate))
+        : this.getSupportedExtensions().includes(extension)
+          ? entryPath
+          : undefined;
+      if (file && !this.ignoreFilter.isIgnored(file)) {
+        const name = dirent.isDirectory()
+          ? dirent.name
+          : path.basename(dirent.name, extension);
+        modules.set(name, file);
+      }
+    }
+
+    const names = [...modules.keys()];
+    const parents = new Map<string, string | undefined>();
+    const entries = new Map<string, RemixRouteEntry>();
+    for (const name of names) {
+      const parentName = names
+        .filter((other) => name.startsWith(`${other}.`))
+        .sort((a, b) => b.length - a.length)[0];
+      const { path: routePath, index } = this.remixRouteNameToPath(name);
+      const parentPath = parentName
+        ? this.remixRouteNameToPath(parentName).path
+        : "";
+
+      parents.set(name, parentName);
+      entries.set(name, {
+        file: modules.get(name)!,
+        path:
+          parentPath && routePath.startsWith(`${parentPath}/`)
+            ? routePath.slice(parentPath.length + 1)
+            : routePath === parentPath
+              ? ""
+              : routePath,
+        index,
+        children: [],
       });
+    }
 
-      for (const file of routeFiles) {
-        const relativePath = path.relative(routesDir, file);
-        const routePath = this.remixFileToRoute(relativePath);
-        const componentName = this.getComponentNameFromFile(file);
+    const topLevel: RemixRouteEntry[] = [];
+    for (const name of names) {
+      const parentName = parents.get(name);
+      (parentName ? entries.get(parentName)!.children : topLevel).push(
+        entries.get(name)!
+      );
+    }
+    return topLevel;
+  }
 
-        this.routes.push({
-          path: routePath,
-          fullPath: routePath,
-          component: componentName,
-        });
+  // users.$id.edit → users/:id/edit. `$` alone is a splat, ($lang) is
+  // optional, _auth is a pathless layout, _index an index route, a
+  // trailing _ only escapes nesting and [.] escapes special characters.
+  private remixRouteNameToPath(name: string): { path: string; index: boolean } {
+    const segments: string[] = [];
+    let index = false;
+
+    for (const raw of name.match(/(?:\[[^\]]*\]|[^.[])+/g) ?? []) {
+      if (raw === "_index") {
+        index = true;
+        continue;
+      }
+      if (raw.startsWith("_")) continue;
 
-        this.routeComponents.add(componentName);
+      let segment = raw.endsWith("_") ? raw.slice(0, -1) : raw;
+      const optional = /^\(.*\)$/.test(segment);
+      if (optional) {
+        segment = segment.slice(1, -1);
       }
+      if (segment.startsWith("$")) {
+        segment = segment === "$" ? "*" : `:${segment.slice(1)}`;
+      }
+      segment = segment.replace(/\[([^\]]*)\]/g, "$1");
+      segments.push(optional ? `${segment}?` : segment);
     }
+    return { path: segments.join("/"), index };
   }
 
-  private remixFileToRoute(filePath: string): string {
-    let route = filePath.replace(/\.(js|jsx|ts|tsx)$/, "");
-    
-    // Handle index routes
-    if (route.endsWith("/_index") || route === "_index") {
-      route = route.replace(/\/_index$/, "").replace(/^_index$/, "/");
+  // export default [index("routes/home.tsx"), route("about", "routes/about.tsx"),
+  // layout("routes/auth.tsx", [...]), ...prefix("docs", [...]),
+  // ...(await flatRoutes())] satisfies RouteConfig
+  private readRemixRoutesConfig(
+    sourceFile: SourceFile,
+    appDir: string
+  ): RemixRouteEntry[] {
+    const exported = sourceFile
+      .getExportAssignment((assignment) => !assignment.isExportEquals())
+      ?.getExpression();
+    return exported ? this.resolveRemixRouteConfigs(exported, appDir) : [];
+  }
+
+  private resolveRemixRouteConfigs(
+    node: Node,
+    appDir: string,
+    depth: number = 0
+  ): RemixRouteEntry[] {
+    if (depth > 10) return [];
+    const value = this.unwrapConfigValue(node);
+
+    if (Node.isIdentifier(value)) {
+      const initializer = value
+        .getSymbol()
+        ?.getDeclarations()
+        .find(Node.isVariableDeclaration)
+        ?.getInitializer();
+      return initializer
+        ? this.resolveRemixRouteConfigs(initializer, appDir, depth + 1)
+        : [];
+    }
+    if (Node.isArrayLiteralExpression(value)) {
+      return value
+        .getElements()
+        .flatMap((element) =>
+          this.resolveRemixRouteConfigs(
+            Node.isSpreadElement(element) ? element.getExpression() : element,
+            appDir,
+            depth + 1
+          )
+        );
     }
-    
-    // Convert $ prefixed params to :param
-    route = route.replace(/\$([^/]+)/g, ":$1");
-    
-    // Handle dot notation for nested routes
-    route = route.replace(/\./g, "/");
-    
-    // Remove underscore prefixes (pathless routes)
-    route = route.replace(/\/_/g, "/");
-    
-    return "/" + route;
+    if (!Node.isCallExpression(value)) return [];
+
+    const binding = this.importTracer.getImport(value.getExpression());
+    if (
+      !binding ||
+      !ReactAnalyzer.REMIX_ROUTE_CONFIG_MODULES.includes(binding.module)
+    ) {
+      return [];
+    }
+    const args = value.getArguments();
+    const file = (arg: Node | undefined) =>
+      arg ? path.resolve(appDir, this.extractStringValue(arg)) : "";
+    // Children come last, after an optional { id, caseSensitive } object
+    const children = (minArgs: number) => {
+      const last = args[args.length - 1];
+      return args.length > minArgs &&
+        Node.isArrayLiteralExpression(this.unwrapConfigValue(last))
+        ? this.resolveRemixRouteConfigs(last, appDir, depth + 1)
+        : [];
+    };
+
+    switch (binding.name) {
+      case "route":
+        return [
+          {
+            file: file(args[1]),
+            path: args[0] ? this.extractStringValue(args[0]) : "",
+            children: children(2),
+          },
+        ];
+      case "index":
+        return [{ file: file(args[0]), path: "", index: true, children: [] }];
+      case "layout":
+        return [{ file: file(args[0]), path: "", children: children(1) }];
+      case "prefix":
+        return this.prefixRemixRoutes(
+          args[0] ? this.extractStringValue(args[0]) : "",
+          children(1)
+        );
+      case "flatRoutes": {
+        const options = args[0] && this.unwrapConfigValue(args[0]);
+        const rootDirectory =
+          options && Node.isObjectLiteralExpression(options)
+            ? this.getConfigValue(options, "rootDirectory")
+            : undefined;
+        return this.readRemixFlatRoutes(
+          path.join(
+            appDir,
+            rootDirectory ? this.extractStringValue(rootDirectory) : "routes"
+          )
+        );
+      }
+    }
+    return [];
+  }
+
+  // prefix("docs", routes) adds the prefix to each route with a path (or
+  // index) and passes through pathless layouts to their children
+  private prefixRemixRoutes(
+    prefix: string,
+    entries: RemixRouteEntry[]
+  ): RemixRouteEntry[] {
+    return entries.map((entry) =>
+      entry.path || entry.index
+        ? {
+            ...entry,
+            path: entry.path
+              ? `${prefix.replace(/\/+$/, "")}/${entry.path.replace(/^\/+/, "")}`
+              : prefix,
+          }
+        : { ...entry, children: this.prefixRemixRoutes(prefix, entry.children) }
+    );
+  }
+
+  // A route module's default export is the page, its loader and action
+  // redirects become flows and a module with neither a page nor children
+  // that only answers with data is a resource route
+  private addRemixRoute(entry: RemixRouteEntry, parentPath: string): void {
+    const sourceFile = this.project.getSourceFile(entry.file);
+    if (!sourceFile) return;
+
+    const routeConfig: RouteConfig = {
+      path: entry.path,
+      index: entry.index,
+      source: this.getFileRouteSource(entry.file),
+    };
+    const exports = sourceFile.getExportedDeclarations();
+    this.applyRouteModuleExports(routeConfig, exports);
+
+    if (exports.has("default")) {
+      routeConfig.component = this.getRemixComponentName(sourceFile);
+      this.registerComponentFile(routeConfig.component, sourceFile);
+    } else if (
+      entry.children.length === 0 &&
+      (routeConfig.loader || routeConfig.action) &&
+      !routeConfig.dataFunctions?.some(
+        (dataFunction) => this.getRedirectCalls(dataFunction.node).length > 0
+      )
+    ) {
+      // The action answers every method but GET
+      this.apiRoutes.push({
+        path: this.buildFullPath(parentPath, entry.path),
+        methods: [
+          ...(routeConfig.loader ? ["GET"] : []),
+          ...(routeConfig.action ? ["POST", "PUT", "PATCH", "DELETE"] : []),
+        ],
+        source: routeConfig.source,
+      });
+      return;
+    }
+
+    const fullPath = this.addConfigRoute(routeConfig, parentPath);
+    for (const child of entry.children) {
+      this.addRemixRoute(child, fullPath);
+    }
+  }
+
+  // The default export's own name (export default function UserProfile),
+  // or else the route name, e.g. users.$id.edit gives UsersIdEdit
+  private getRemixComponentName(sourceFile: SourceFile): string {
+    const declaredName = this.getDefaultExportName(sourceFile);
+    if (declaredName) return declaredName;
+
+    const filePath = sourceFile.getFilePath();
+    let name = path.basename(filePath, path.extname(filePath));
+    if (name === "route" || name === "index") {
+      name = path.basename(path.dirname(filePath));
+    }
+    return (
+      this.kebabToPascalCase(
+        name.replace(/[[\]()$]/g, "").replace(/\./g, "-")
+      ) || "Splat"
+    );
   }
 
   private async analyzeTanstackRouting(): Promise<void> {
     console.log("🔄 Analyzing TanStack Router routes...");
 
-    const sourceFiles = this.project.getSourceFiles();
+    const sourceFiles = this.project
+      .getSourceFiles()
+      .filter((sourceFile) => !this.isTanstackRouteTree(sourceFile));
+
+    // File-based routes, nested by their route IDs
+    const fileRoutes = this.collectTanstackFileRoutes(sourceFiles);
+    const root = fileRoutes.get(ReactAnalyzer.TANSTACK_ROOT_ID);
+    if (fileRoutes.size > 0) {
+      this.addTanstackFileRoute(
+        root ?? { id: ReactAnalyzer.TANSTACK_ROOT_ID, options: [] },
+        fileRoutes,
+        ""
+      );
+    }
 
     for (const sourceFile of sourceFiles) {
       // Look for route definitions
@@ -991,33 +2956,222 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     }
   }
 
-  private processTanstackRoute(routeConfig: ObjectLiteralExpression): void {
-    let path = "";
-    let component = "";
+  // routeTree.gen.ts repeats the file routes as generated code
+  private isTanstackRouteTree(sourceFile: SourceFile): boolean {
+    return (
+      /^routeTree\.gen\.[jt]sx?$/.test(sourceFile.getBaseName()) ||
+      sourceFile
+        .getFullText()
+        .startsWith(
+          "// This file was automatically generated by TanStack Router"
+        )
+    );
+  }
 
-    for (const prop of routeConfig.getProperties()) {
-      if (Node.isPropertyAssignment(prop)) {
-        const name = prop.getName();
-        const initializer = prop.getInitializer();
+  // export const Route = createFileRoute('/posts/$postId')({ ... }), its
+  // createLazyFileRoute() counterpart in posts.$postId.lazy.tsx and the
+  // createRootRoute() / createRootRouteWithContext<T>()() of __root.tsx
+  private collectTanstackFileRoutes(
+    sourceFiles: SourceFile[]
+  ): Map<string, TanstackFileRoute> {
+    const routes = new Map<string, TanstackFileRoute>();
 
-        if (name === "path" && initializer) {
-          path = this.extractStringValue(initializer);
-        } else if (name === "component" && initializer) {
-          component = this.extractComponentFromInitializer(initializer);
+    for (const sourceFile of sourceFiles) {
+      for (const call of sourceFile.getDescendantsOfKind(
+        SyntaxKind.CallExpression
+      )) {
+        const callee = call.getExpression();
+        const factory = Node.isCallExpression(callee)
+          ? callee.getExpression()
+          : callee;
+        const binding = this.importTracer.getImport(factory);
+        if (binding?.module !== "@tanstack/react-router") continue;
+
+        let id: string | undefined;
+        if (
+          Node.isCallExpression(callee) &&
+          ["createFileRoute", "createLazyFileRoute"].includes(binding.name)
+        ) {
+          const idArg = callee.getArguments()[0];
+          id = idArg && this.extractStringValue(idArg);
+        } else if (
+          (binding.name === "createRootRoute" && callee === factory) ||
+          (binding.name === "createRootRouteWithContext" && callee !== factory)
+        ) {
+          id = ReactAnalyzer.TANSTACK_ROOT_ID;
         }
+
+        const options = call.getArguments()[0];
+        if (!id || !options || !Node.isObjectLiteralExpression(options)) {
+          continue;
+        }
+        const route = routes.get(id) ?? { id, options: [] };
+        route.options.push(options);
+        routes.set(id, route);
       }
     }
+    return routes;
+  }
 
-    if (path) {
-      this.routes.push({
-        path,
-        fullPath: path.startsWith("/") ? path : "/" + path,
-        component,
-      });
+  // Adds a file route and the routes nested in it: /posts/$postId sits in
+  // /posts, /_auth/dashboard in the pathless _auth layout, and posts_ in
+  // /posts_/$postId/edit escapes the /posts layout
+  private addTanstackFileRoute(
+    route: TanstackFileRoute,
+    routes: Map<string, TanstackFileRoute>,
+    parentPath: string,
+    parentGuards: RouteGuard[] = []
+  ): void {
+    const isRoot = route.id === ReactAnalyzer.TANSTACK_ROOT_ID;
+    const lastSegment = route.id.split("/").filter(Boolean).pop() ?? "";
+    const isPathless =
+      isRoot || (lastSegment.startsWith("_") && !route.id.endsWith("/"));
+    const routeConfig: RouteConfig = {
+      path: isPathless ? "" : this.tanstackIdToPath(route.id),
+      source: route.options[0] && this.sourceLocator.fromNode(route.options[0]),
+    };
+
+    for (const options of route.options) {
+      this.applyTanstackRouteOptions(routeConfig, options);
+    }
+    // Inline components are named after the route, as the generator does
+    const component = route.options
+      .map((options) => this.getConfigValue(options, "component"))
+      .find(Boolean);
+    if (!component || !Node.isIdentifier(component)) {
+      routeConfig.component = isRoot
+        ? "Root"
+        : this.getTanstackRouteName(route.id);
+    }
+    // Links in the route and lazy route files belong to the component
+    for (const options of route.options) {
+      this.registerComponentFile(
+        routeConfig.component!,
+        options.getSourceFile()
+      );
+    }
 
-      if (component) {
-        this.routeComponents.add(component);
+    const fullPath = this.addConfigRoute(routeConfig, parentPath, parentGuards);
+    const guards = this.inheritGuards(routeConfig);
+    for (const child of routes.values()) {
+      if (
+        child !== route &&
+        this.getTanstackParentId(child.id, routes) === route.id
+      ) {
+        this.addTanstackFileRoute(child, routes, fullPath, guards);
+      }
+    }
+  }
+
+  // The longest route ID the route's ID extends. Index IDs (/posts/) have
+  // no children, and routes under no other ID belong to __root__.
+  private getTanstackParentId(
+    id: string,
+    routes: Map<string, TanstackFileRoute>
+  ): string | undefined {
+    if (id === ReactAnalyzer.TANSTACK_ROOT_ID) return undefined;
+    const parentId = [...routes.keys()]
+      .filter(
+        (other) =>
+          other !== id &&
+          other !== ReactAnalyzer.TANSTACK_ROOT_ID &&
+          !other.endsWith("/") &&
+          id.startsWith(`${other}/`)
+      )
+      .sort((a, b) => b.length - a.length)[0];
+    return parentId ?? ReactAnalyzer.TANSTACK_ROOT_ID;
+  }
+
+  // Reads the component, errorComponent, loader and beforeLoad of a
+  // createRoute() or file route's options. A beforeLoad that can
+  // `throw redirect({ to })` guards the route and the routes inside it.
+  private applyTanstackRouteOptions(
+    routeConfig: RouteConfig,
+    options: ObjectLiteralExpression
+  ): void {
+    for (const prop of options.getProperties()) {
+      if (
+        !Node.isPropertyAssignment(prop) &&
+        !Node.isShorthandPropertyAssignment(prop) &&
+        !Node.isMethodDeclaration(prop)
+      ) {
+        continue;
       }
+      const name = prop.getName();
+      const value = Node.isPropertyAssignment(prop)
+        ? prop.getInitializer()
+        : prop;
+
+      if (name === "beforeLoad") {
+        const functionNode = value && this.resolveFunction(value);
+        if (!functionNode) continue;
+        this.routeDataFunctions.add(functionNode);
+        const redirects = this.getRedirectCalls(functionNode)
+          .map((call) => ({
+            to: this.extractNavigationTarget(call.getArguments()[0]),
+            node: call as Node,
+          }))
+          .filter((redirect) => redirect.to);
+        if (redirects.length > 0) {
+          this.addRouteGuards(routeConfig, [
+            { name: "beforeLoad", component: "beforeLoad", redirects },
+          ]);
+        }
+      } else if (["path", "component", "loader"].includes(name)) {
+        this.applyRouteProperty(routeConfig, name, value);
+      } else if (name === "errorComponent") {
+        this.applyRouteProperty(routeConfig, "errorElement", value);
+      }
+    }
+  }
+
+  // /_auth/posts_/$postId/edit → /posts/:postId/edit. Pathless _layout
+  // segments and (group) folders add nothing, a trailing _ only escapes
+  // nesting, $ alone is a splat, {-$lang} is optional and [.] escapes.
+  private tanstackIdToPath(id: string): string {
+    const segments = id
+      .split("/")
+      .filter(
+        (segment) =>
+          segment && !segment.startsWith("_") && !/^\(.*\)$/.test(segment)
+      )
+      .map((segment) =>
+        segment
+          .replace(/_$/, "")
+          .replace(/^\{-\$(\w+)\}$/, ":$1?")
+          .replace(/^\$$/, "*")
+          .replace(/^\$(\w+)$/, ":$1")
+          .replace(/\[([^\]]*)\]/g, "$1")
+      );
+    return "/" + segments.join("/");
+  }
+
+  // /posts/$postId gives PostsPostId and /posts/ PostsIndex
+  private getTanstackRouteName(id: string): string {
+    const name = id
+      .split("/")
+      .map((segment) => this.kebabToPascalCase(segment.replace(/[^\w-]/g, "")))
+      .join("");
+    return id.endsWith("/") ? `${name}Index` : name || "Splat";
+  }
+
+  // TanStack Router writes params in links as it does in route IDs, e.g.
+  // <Link to="/posts/$postId" params={{ postId }}>
+  private applyTanstackParamsToFlows(): void {
+    for (const flow of this.flows) {
+      flow.to = flow.to.replace(/\$([A-Za-z_]\w*)/g, ":$1");
+    }
+  }
+
+  private processTanstackRoute(routeOptions: ObjectLiteralExpression): void {
+    const routeConfig: RouteConfig = {
+      path: "",
+      source: this.sourceLocator.fromNode(routeOptions),
+    };
+    this.applyTanstackRouteOptions(routeConfig, routeOptions);
+
+    if (routeConfig.path) {
+      this.addConfigRoute(routeConfig, "");
     }
   }
 
@@ -1048,6 +3202,7 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
               path,
               fullPath: path.startsWith("/") ? path : "/" + path,
               component: tagName,
+              source: this.sourceLocator.fromNode(element),
             });
 
             this.routeComponents.add(tagName);
@@ -1097,8 +3252,10 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
           if (clause.getKind() === SyntaxKind.CaseClause) {
             const caseClause = clause as any; // Cast to access CaseClause methods
             const caseExpression = caseClause.getExpression();
-            if (caseExpression && Node.isStringLiteral(caseExpression)) {
-              const path = caseExpression.getLiteralValue();
+            const path = caseExpression
+              ? this.constantEvaluator.evaluateString(caseExpression)
+              : undefined;
+            if (path !== undefined) {
               
               // Try to find the component being rendered
               const statements = caseClause.getStatements();
@@ -1117,6 +3274,7 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
                 path,
                 fullPath: path.startsWith("/") ? path : "/" + path,
                 component,
+                source: this.sourceLocator.fromNode(caseExpression),
               });
             }
           }
@@ -1150,6 +3308,7 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
             path,
             fullPath: path.startsWith("/") ? path : "/" + path,
             component: componentMatch[1],
+            source: this.sourceLocator.fromNode(conditional),
           });
         }
       }
@@ -1198,6 +3357,7 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
           path,
           fullPath: path.startsWith("/") ? path : "/" + path,
           component: hasComponent ? component : "UnknownComponent",
+          source: this.sourceLocator.fromNode(obj),
         });
       }
     }
@@ -1209,12 +3369,20 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     const sourceFiles = this.project.getSourceFiles();
 
     for (const sourceFile of sourceFiles) {
+      // Server-side redirects in Next.js pages, actions and route handlers
+      if (this.nextRouteFiles.size > 0 || this.nextApiFiles.size > 0) {
+        this.extractNextJsServerRedirects(sourceFile);
+      }
+
       // Extract programmatic navigation
       this.extractProgrammaticNavigation(sourceFile);
 
       // Extract Link components
       this.extractLinkNavigation(sourceFile);
 
+      // Extract <Form action> submissions
+      this.extractFormNavigation(sourceFile);
+
       // Extract anchor tags
       this.extractAnchorNavigation(sourceFile);
     }
@@ -1229,62 +3397,279 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     );
 
     for (const call of callExpressions) {
-      const expression = call.getExpression();
-      const expressionText = expression.getText();
-
-      // React Router navigation
-      if (
-        expressionText.includes("navigate") ||
-        expressionText.includes("push") ||
-        expressionText.includes("replace") ||
-        expressionText.includes("redirect")
-      ) {
-        const args = call.getArguments();
-        if (args.length > 0) {
-          const firstArg = args[0];
-          let targetPath = "";
-
-          if (Node.isStringLiteral(firstArg)) {
-            targetPath = firstArg.getLiteralValue();
-          } else if (Node.isTemplateExpression(firstArg)) {
-            // Handle template literals
-            targetPath = this.extractPathFromTemplate(firstArg);
-          } else if (Node.isObjectLiteralExpression(firstArg)) {
-            // Handle object with pathname
-            const pathnameProp = firstArg.getProperty("pathname");
-            if (pathnameProp && Node.isPropertyAssignment(pathnameProp)) {
-              const initializer = pathnameProp.getInitializer();
-              if (initializer && Node.isStringLiteral(initializer)) {
-                targetPath = initializer.getLiteralValue();
-              }
-            }
-          }
-
-          if (targetPath) {
-            this.flows.push({
-              from: fromComponent,
-              to: targetPath,
-              type: "dynamic",
-            });
-          }
-        }
+      if (!this.isNavigationCall(call) || this.serverRedirectCalls.has(call)) {
+        continue;
       }
+      // Redirects in route loaders and actions are recorded with the route
+      if (call.getFirstAncestor((node) => this.routeDataFunctions.has(node))) {
+        continue;
+      }
+
+      const args = call.getArguments();
+      if (args.length > 0) {
+        const targetPath = this.extractNavigationTarget(args[0]);
 
-      // Next.js router
-      if (expressionText === "router.push" || expressionText === "router.replace") {
-        const args = call.getArguments();
-        if (args.length > 0 && Node.isStringLiteral(args[0])) {
-          const targetPath = args[0].getLiteralValue();
+        if (targetPath) {
           this.flows.push({
             from: fromComponent,
             to: targetPath,
             type: "dynamic",
+            source: this.sourceLocator.fromNode(call),
           });
         }
       }
     }
   }
 
+  // Redirects that happen on the server in Next.js: redirect(),
+  // permanentRedirect() and notFound() in server components and actions,
+  // { redirect } and { notFound } returned from getServerSideProps or
+  // getStaticProps, and redirect responses from route handlers. They are
+  // drawn from the page or layout the file belongs to.
+  private extractNextJsServerRedirects(sourceFile: SourceFile): void {
+    // The middleware's redirects apply to the routes it matches
+    if (sourceFile === this.nextMiddlewareFile) return;
+
+    const redirects: { to: string; label: string; node: Node }[] = [];
+    const apiPath = this.nextApiFiles.get(sourceFile.getFilePath());
+
+    for (const call of sourceFile.getDescendantsOfKind(
+      SyntaxKind.CallExpression
+    )) {
+      const callee = call.getExpression();
+      const [targetArg] = call.getArguments();
+      const binding = this.importTracer.getImport(callee);
+
+      if (binding?.module === "next/navigation") {
+        if (["redirect", "permanentRedirect"].includes(binding.name)) {
+          this.serverRedirectCalls.add(call);
+          const to = targetArg && this.extractNavigationTarget(targetArg);
+          if (to) {
+            redirects.push({ to, label: binding.name, node: call });
+          }
+        } else if (binding.name === "notFound") {
+          redirects.push({
+            to: this.getNextJsNotFoundPath("/_not-found"),
+            label: "notFound",
+            node: call,
+          });
+        }
+      } else if (
+        apiPath !== undefined &&
+        Node.isPropertyAccessExpression(callee) &&
+        callee.getName() === "redirect" &&
+        this.isNextJsResponse(callee.getExpression())
+      ) {
+        // NextResponse.redirect(new URL('/login', request.url)), or
+        // res.redirect(307, '/login') in pages/api
+        const urlArg = call
+          .getArguments()
+          .find((arg) => !Node.isNumericLiteral(arg));
+        const to = urlArg && this.extractMiddlewareTarget(urlArg);
+        if (to) {
+          redirects.push({ to, label: "route handler", node: call });
+        }
+      }
+    }
+
+    for (const name of ["getServerSideProps", "getStaticProps"]) {
+      const declaration = sourceFile.getExportedDeclarations().get(name)?.[0];
+      const dataFunction =
+        declaration && Node.isVariableDeclaration(declaration)
+          ? declaration.getInitializer()
+          : declaration;
+      if (!dataFunction) continue;
+
+      for (const returned of this.getReturnedValues(
+        this.unwrapConfigValue(dataFunction)
+      )) {
+        const props = this.unwrapConfigValue(returned);
+        if (!Node.isObjectLiteralExpression(props)) continue;
+
+        // return { redirect: { destination: '/login', permanent: false } }
+        const redirect = this.getConfigValue(props, "redirect");
+        const redirectObject = redirect && this.unwrapConfigValue(redirect);
+        const destination =
+          redirectObject && Node.isObjectLiteralExpression(redirectObject)
+            ? this.getConfigValue(redirectObject, "destination")
+            : undefined;
+        const to = destination && this.extractNavigationTarget(destination);
+        if (to) {
+          redirects.push({ to, label: name, node: props });
+        }
+
+        if (
+          this.getConfigValue(props, "notFound")?.getKind() ===
+          SyntaxKind.TrueKeyword
+        ) {
+          redirects.push({
+            to: this.getNextJsNotFoundPath("/404"),
+            label: "notFound",
+            node: props,
+          });
+        }
+      }
+    }
+
+    if (redirects.length === 0) return;
+
+    const owners = this.getNextJsOwners(sourceFile);
+    const froms =
+      owners.length > 0
+        ? owners
+        : [apiPath ?? this.getMainComponentFromFile(sourceFile) ?? ""];
+    for (const redirect of redirects) {
+      const to = redirect.to.split(/[?#]/)[0];
+      if (!to.startsWith("/")) continue;
+
+      for (const from of froms) {
+        this.flows.push({
+          from,
+          to,
+          type: "redirect",
+          label: redirect.label,
+          source: this.sourceLocator.fromNode(redirect.node),
+        });
+      }
+    }
+  }
+
+  // The app's not-found page, or else the one Next.js serves itself:
+  // /_not-found in the App Router and /404 in the Pages Router. Routes
+  // already carry the basePath, flows get it later.
+  private getNextJsNotFoundPath(builtInPath: string): string {
+    if (this.nextNotFoundPath) return this.nextNotFoundPath;
+    const fullPath = this.withBasename(builtInPath);
+    if (!this.routes.some((route) => route.fullPath === fullPath)) {
+      this.routes.push({ path: fullPath, fullPath });
+    }
+    return builtInPath;
+  }
+
+  // NextResponse / Response, or the response parameter of a pages/api
+  // handler (the second parameter of the default export)
+  private isNextJsResponse(receiver: Node): boolean {
+    if (
+      receiver.getText() === "Response" ||
+      this.importTracer.isImportOf(receiver, ["next/server"], ["NextResponse"])
+    ) {
+      return true;
+    }
+
+    const parameter = receiver
+      .getSymbol()
+      ?.getDeclarations()
+      .find(Node.isParameterDeclaration);
+    const handler = parameter?.getParent();
+    return (
+      !!handler &&
+      Node.isFunctionLikeDeclaration(handler) &&
+      handler.getParameters()[1] === parameter
+    );
+  }
+
+  // The pages and layouts a server-side file belongs to: the route it
+  // renders, the nearest page or layout above it in app/, or else the
+  // routes whose files import it (server actions kept in their own module)
+  private getNextJsOwners(
+    sourceFile: SourceFile,
+    seen = new Set<SourceFile>()
+  ): string[] {
+    seen.add(sourceFile);
+    const filePath = sourceFile.getFilePath();
+    const own = this.nextRouteFiles.get(filePath);
+    if (own) return [own];
+
+    // Route handlers only belong to a page in their own directory
+    const projectRoot = path.resolve(this.projectPath);
+    let dir = path.dirname(filePath);
+    const root = this.nextApiFiles.has(filePath)
+      ? path.dirname(dir)
+      : projectRoot;
+    while (dir.startsWith(projectRoot) && dir !== root) {
+      const owner = this.nextRouteDirs.get(dir);
+      if (owner) return [owner];
+      dir = path.dirname(dir);
+    }
+    if (this.nextApiFiles.has(filePath)) return [];
+
+    const owners = new Set<string>();
+    for (const importer of sourceFile.getReferencingSourceFiles()) {
+      if (seen.has(importer)) continue;
+      for (const owner of this.getNextJsOwners(importer, seen)) {
+        owners.add(owner);
+      }
+    }
+    return [...owners];
+  }
+
+  // The path a navigate, push or redirect argument points to
+  private extractNavigationTarget(firstArg: Node): string {
+    const constant = this.constantEvaluator.evaluateString(firstArg);
+    if (constant !== undefined) {
+      return constant;
+    } else if (Node.isTemplateExpression(firstArg)) {
+      // Handle template literals
+      return this.extractPathFromTemplate(firstArg);
+    } else if (Node.isObjectLiteralExpression(firstArg)) {
+      // Handle { pathname } (React Router, Next.js) and { to } (TanStack)
+      const pathnameProp =
+        firstArg.getProperty("pathname") ?? firstArg.getProperty("to");
+      if (pathnameProp && Node.isPropertyAssignment(pathnameProp)) {
+        const initializer = pathnameProp.getInitializer();
+        if (initializer) {
+          return this.constantEvaluator.evaluateString(initializer) ?? "";
+        }
+      }
+    }
+    return "";
+  }
+
+  // Confirms the callee really navigates: a useNavigate() result, a Next.js
+  // or history router's push/replace, or an imported redirect(), rather
+  // than any function whose name happens to match
+  private isNavigationCall(call: CallExpression): boolean {
+    const expression = call.getExpression();
+    const tracer = this.importTracer;
+
+    if (Node.isIdentifier(expression)) {
+      return (
+        tracer.isCallResultOf(expression, ReactAnalyzer.ROUTER_MODULES, ["useNavigate"]) ||
+        tracer.hasLibraryType(expression, ReactAnalyzer.ROUTER_MODULES, ["NavigateFunction"]) ||
+        tracer.isImportOf(expression, ReactAnalyzer.REDIRECT_MODULES, [
+          "redirect",
+          "redirectDocument",
+          "permanentRedirect",
+        ]) ||
+        tracer.isImportOf(expression, ["@reach/router"], ["navigate"])
+      );
+    }
+
+    if (
+      Node.isPropertyAccessExpression(expression) &&
+      /^(push|replace|navigate)$/.test(expression.getName())
+    ) {
+      const receiver = expression.getExpression();
+      return (
+        tracer.isCallResultOf(receiver, ["next/router", "next/navigation"], ["useRouter"]) ||
+        tracer.isImportOf(receiver, ["next/router"], ["default", "Router"]) ||
+        tracer.isCallResultOf(receiver, ReactAnalyzer.ROUTER_MODULES, ["useHistory", "useRouter"]) ||
+        tracer.isCallResultOf(receiver, ["history"], [
+          "createBrowserHistory",
+          "createHashHistory",
+          "createMemoryHistory",
+        ]) ||
+        tracer.hasLibraryType(
+          receiver,
+          ["next", "history", ...ReactAnalyzer.ROUTER_MODULES],
+          ["NextRouter", "AppRouterInstance", "History", "Router"]
+        )
+      );
+    }
+
+    return false;
+  }
+
   private extractLinkNavigation(sourceFile: SourceFile): void {
     const fromComponent = this.getMainComponentFromFile(sourceFile);
     if (!fromComponent) return;
@@ -1309,12 +3694,21 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
 
         const targetAttr = toAttr || hrefAttr;
         if (targetAttr) {
-          const targetPath = this.extractAttributeValue(targetAttr.value);
+          let targetPath = this.extractTargetValue(targetAttr.value) ?? "";
+          // TanStack Router resolves relative links from their `from` route
+          const fromAttr = attributes.find((attr) => attr.name === "from");
+          if (fromAttr && targetPath.startsWith(".")) {
+            targetPath = path.posix.join(
+              this.extractAttributeValue(fromAttr.value),
+              targetPath
+            );
+          }
           if (targetPath) {
             this.flows.push({
               from: fromComponent,
               to: targetPath,
               type: "static",
+              source: this.sourceLocator.fromNode(element),
             });
           }
         }
@@ -1322,6 +3716,41 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     }
   }
 
+  // A React Router or Remix <Form action="/logout"> submits to the action's
+  // route. Forms without an action, or with "." or "?index", stay on the
+  // current route.
+  private extractFormNavigation(sourceFile: SourceFile): void {
+    const fromComponent = this.getMainComponentFromFile(sourceFile);
+    if (!fromComponent) return;
+
+    const elements = [
+      ...sourceFile.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
+      ...sourceFile.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+    ];
+
+    for (const element of elements) {
+      const isForm = this.importTracer.isImportOf(
+        element.getTagNameNode(),
+        ReactAnalyzer.ROUTER_MODULES,
+        ["Form"]
+      );
+      const actionAttr = isForm ? element.getAttribute("action") : undefined;
+      if (!actionAttr || !Node.isJsxAttribute(actionAttr)) continue;
+
+      const target =
+        this.extractTargetValue(actionAttr.getInitializer()) ?? "";
+      if (target.replace(/^`/, "").startsWith("/")) {
+        this.flows.push({
+          from: fromComponent,
+          to: target,
+          type: "static",
+          label: "form",
+          source: this.sourceLocator.fromNode(element),
+        });
+      }
+    }
+  }
+
   private extractAnchorNavigation(sourceFile: SourceFile): void {
     const fromComponent = this.getMainComponentFromFile(sourceFile);
     if (!fromComponent) return;
@@ -1341,13 +3770,14 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
         const hrefAttr = attributes.find((attr) => attr.name === "href");
 
         if (hrefAttr) {
-          const href = this.extractAttributeValue(hrefAttr.value);
+          const href = this.extractTargetValue(hrefAttr.value);
           // Only track internal links
           if (href && href.startsWith("/") && !href.startsWith("//")) {
             this.flows.push({
               from: fromComponent,
               to: href,
               type: "static",
+              source: this.sourceLocator.fromNode(element),
             });
           }
         }
@@ -1355,12 +3785,9 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     }
   }
 
-  private extractPathFromTemplate(template: Node): string {
-    // Simple extraction - in real implementation would need more sophisticated parsing
-    const text = template.getText();
-    // Extract static parts and indicate dynamic parts
-    const cleaned = text.replace(/\$\{[^}]+\}/g, ":param");
-    return cleaned.replace(/[`'"]/g, "");
+  private extractPathFromTemplate(template: TemplateExpression): string {
+    // Constant parts are filled in, dynamic parts become params
+    return this.constantEvaluator.evaluateTemplate(template, () => ":param");
   }
 
   private getMainComponentFromFile(sourceFile: SourceFile): string | null {
@@ -1562,8 +3989,9 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
     const elements = array.getElements();
 
     for (const element of elements) {
-      if (Node.isStringLiteral(element)) {
-        strings.push(element.getLiteralValue());
+      const value = this.constantEvaluator.evaluateString(element);
+      if (value !== undefined) {
+        strings.push(value);
       }
     }
 
@@ -1591,6 +4019,7 @@ export class ReactAnalyzer implements IFrameworkAnalyzer {
             from: potentialParent.fullPath,
             to: route.fullPath,
             type: "hierarchy",
+            source: route.source,
           });
           break;
         }
@@ -0,0 +1,463 @@
+import { IFrameworkAnalyzer } from "../../core/framework-analyzer.interface.js";
+import {
+  ProjectAnalysisOptions,
+  AnalysisResult,
+  Route,
+  NavigationFlow,
+  MenuDefinition,
+} from "../../core/types.js";
+import { SourceLocator } from "../../core/source-locator.js";
+import { IgnoreFilter } from "../../core/ignore-filter.js";
+import { Project, SourceFile, SyntaxKind, Node, ScriptKind } from "ts-morph";
+import { parse as parseHTML } from "node-html-parser";
+import * as fs from "fs";
+import * as path from "path";
+import glob from "fast-glob";
+
+interface SvelteMarkup {
+  filePath: string;
+  fileText: string;
+  content: string; // File text with <script> and <style> blocks blanked out
+}
+
+export class SvelteKitAnalyzer implements IFrameworkAnalyzer {
+  private project!: Project;
+  private routes: Route[] = [];
+  private flows: NavigationFlow[] = [];
+  private menus: MenuDefinition[] = [];
+  private projectPath!: string;
+  private routesDir!: string;
+  private sourceLocator!: SourceLocator;
+  private ignoreFilter!: IgnoreFilter;
+  private markups: SvelteMarkup[] = [];
+  private redirectOnlyFiles = new Set<string>();
+
+  getFrameworkName(): string {
+    return "SvelteKit";
+  }
+
+  async canAnalyze(projectPath: string): Promise<boolean> {
+    const packageJsonPath = path.join(projectPath, "package.json");
+
+    if (fs.existsSync(packageJsonPath)) {
+      try {
+        const packageJson = JSON.parse(
+          fs.readFileSync(packageJsonPath, "utf-8")
+        );
+        const deps = {
+          ...packageJson.dependencies,
+          ...packageJson.devDependencies,
+        };
+
+        if (deps["@sveltejs/kit"]) {
+          return true;
+        }
+      } catch (error) {
+        // Invalid package.json
+      }
+    }
+
+    // Check for a Svelte config next to the file-based routes directory
+    const hasSvelteConfig = ["svelte.config.js", "svelte.config.ts"].some(
+      (file) => fs.existsSync(path.join(projectPath, file))
+    );
+    return (
+      hasSvelteConfig && fs.existsSync(path.join(projectPath, "src", "routes"))
+    );
+  }
+
+  getSupportedExtensions(): string[] {
+    return [".svelte", ".js", ".ts"];
+  }
+
+  getConfigFilePatterns(): string[] {
+    return [
+      "package.json",
+      "svelte.config.js",
+      "svelte.config.ts",
+      "vite.config.js",
+      "vite.config.ts",
+      "tsconfig.json",
+    ];
+  }
+
+  async analyze(options: ProjectAnalysisOptions): Promise<AnalysisResult> {
+    this.projectPath = options.projectPath;
+    this.routesDir = path.join(options.projectPath, "src", "routes");
+    this.sourceLocator = new SourceLocator(options.projectPath);
+    this.ignoreFilter = await new IgnoreFilter(
+      options.projectPath,
+      options.ignore
+    ).load();
+    this.routes = [];
+    this.flows = [];
+    this.menus = [];
+    this.markups = [];
+    this.redirectOnlyFiles.clear();
+
+    this.project = new Project({
+      compilerOptions: {
+        allowJs: true,
+        module: 99, // ModuleKind.ESNext
+        target: 99, // ScriptTarget.ESNext
+        moduleResolution: 2, // ModuleResolutionKind.NodeJs
+      },
+    });
+
+    console.log("🔍 Starting SvelteKit project analysis...");
+
+    await this.addSourceFiles();
+    console.log(
+      `📁 Total source files loaded: ${
+        this.project.getSourceFiles().length
+      } (${this.markups.length} Svelte components)`
+    );
+
+    if (fs.existsSync(this.routesDir)) {
+      console.log("🧡 Analyzing SvelteKit file-based routes...");
+      const routes = this.analyzeRoutesDirectory(this.routesDir, "/", null);
+      this.assignSegmentPaths(routes, "/");
+      this.routes.push(...routes);
+    } else {
+      console.warn("⚠️ SvelteKit project has no src/routes directory");
+    }
+
+    console.log("🧭 Analyzing navigation flows...");
+    for (const sourceFile of this.project.getSourceFiles()) {
+      this.extractProgrammaticNavigation(sourceFile);
+      this.extractServerRedirects(sourceFile);
+    }
+    for (const markup of this.markups) {
+      this.extractAnchorNavigation(markup);
+    }
+
+    return {
+      routes: this.routes,
+      flows: this.flows,
+      menus: this.menus,
+      router: "sveltekit",
+    };
+  }
+
+  private async addSourceFiles(): Promise<void> {
+    const patterns = [
+      "src/**/*.{js,ts,svelte}",
+      "!**/*.d.ts",
+      "!**/*.{test,spec}.{js,ts}",
+    ];
+
+    const files = await glob(patterns, {
+      cwd: this.projectPath,
+      absolute: true,
+    });
+
+    for (const file of this.ignoreFilter.filter(files)) {
+      if (file.endsWith(".svelte")) {
+        this.addSvelteComponent(file);
+      } else {
+        this.project.addSourceFileAtPath(file);
+      }
+    }
+  }
+
+  /**
+   * Adds the component's <script> blocks to the project (everything else
+   * blanked out so AST positions match the .svelte file) and keeps the
+   * markup for anchor extraction
+   */
+  private addSvelteComponent(filePath: string): void {
+    const fileText = fs.readFileSync(filePath, "utf-8");
+
+    let scriptText = fileText.replace(/[^\n]/g, " ");
+    let hasScript = false;
+    const scriptPattern = /<script(\s[^>]*)?>([\s\S]*?)<\/script>/g;
+    let match: RegExpExecArray | null;
+    while ((match = scriptPattern.exec(fileText)) !== null) {
+      const contentStart = match.index + match[0].indexOf(">") + 1;
+      const content = match[2];
+      scriptText =
+        scriptText.slice(0, contentStart) +
+        content +
+        scriptText.slice(contentStart + content.length);
+      hasScript = true;
+    }
+
+    if (hasScript) {
+      this.project.createSourceFile(filePath, scriptText, {
+        overwrite: true,
+        scriptKind: ScriptKind.TS,
+      });
+    }
+
+    // Blank out scripts and styles but keep their length so offsets still match
+    const content = fileText.replace(
+      /<(script|style)(\s[^>]*)?>[\s\S]*?<\/\1>/g,
+      (block) => block.replace(/[^\n]/g, " ")
+    );
+    this.markups.push({ filePath, fileText, content });
+  }
+
+  /**
+   * Builds the route tree for one directory under src/routes. A directory
+   * with a +layout.svelte becomes a layout route whose children are its own
+   * +page.svelte (as the empty child) and the routes of its subdirectories.
+   * The root layout and (group) layouts add no URL segment, so their routes
+   * are kept flat instead.
+   */
+  private analyzeRoutesDirectory(
+    dir: string,
+    fullPath: string,
+    parentFullPath: string | null
+  ): Route[] {
+    const entries = fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => !this.ignoreFilter.isIgnored(path.join(dir, entry.name)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const hasFile = (name: string) =>
+      entries.some((entry) => entry.isFile() && entry.name === name);
+
+    const routes: Route[] = [];
+
+    const pageFile = path.join(dir, "+page.svelte");
+    if (hasFile("+page.svelte")) {
+      const route: Route = {
+        path: "",
+        fullPath,
+        component: this.getRouteComponentName(pageFile),
+        source: this.sourceLocator.fromFile(pageFile),
+      };
+      if (fullPath === "/") route.isRoot = true;
+      routes.push(route);
+    } else {
+      // A +page.server.ts without a page is usually a redirect-only route
+      const serverFile = ["+page.server.ts", "+page.server.js"].find(hasFile);
+      const redirectTarget =
+        serverFile && this.findRedirectTargets(path.join(dir, serverFile))[0];
+      if (serverFile && redirectTarget) {
+        this.redirectOnlyFiles.add(path.resolve(dir, serverFile));
+        routes.push({
+          path: "",
+          fullPath,
+          redirectTo: redirectTarget,
+          source: this.sourceLocator.fromFile(path.join(dir, serverFile)),
+        });
+      }
+    }
+
+    for (const entry of entries) {
+      if (!entry.isDirectory()) continue;
+      const segment = this.segmentToPath(entry.name);
+      const childFullPath =
+        segment === ""
+          ? fullPath
+          : fullPath === "/"
+          ? `/${segment}`
+          : `${fullPath}/${segment}`;
+      routes.push(
+        ...this.analyzeRoutesDirectory(
+          path.join(dir, entry.name),
+          childFullPath,
+          fullPath
+        )
+      );
+    }
+
+    if (!hasFile("+layout.svelte") || fullPath === (parentFullPath ?? "/")) {
+      return routes;
+    }
+
+    const layoutFile = path.join(dir, "+layout.svelte");
+    return [
+      {
+        path: "",
+        fullPath,
+        component: this.getRouteComponentName(layoutFile),
+        source: this.sourceLocator.fromFile(layoutFile),
+        children: routes,
+      },
+    ];
+  }
+
+  /**
+   * Sets each route's `path` to its segment relative to the enclosing layout
+   */
+  private assignSegmentPaths(routes: Route[], basePath: string): void {
+    for (const route of routes) {
+      route.path = path.posix.relative(basePath, route.fullPath);
+      if (route.children) {
+        this.assignSegmentPaths(route.children, route.fullPath);
+      }
+    }
+  }
+
+  private segmentToPath(name: string): string {
+    // (group) folders organise layouts without adding a URL segment
+    if (/^\(.*\)$/.test(name)) return "";
+
+    return (
+      name
+        // [[optional]] -> :optional?
+        .replace(/\[\[([^\]=]+)(=[^\]]+)?\]\]/g, ":$1?")
+        // [...rest] -> :rest* (catch-all)
+        .replace(/\[\.\.\.([^\]=]+)(=[^\]]+)?\]/g, ":$1*")
+        // [id] and [id=matcher] -> :id
+        .replace(/\[([^\]=]+)(=[^\]]+)?\]/g, ":$1")
+    );
+  }
+
+  private extractProgrammaticNavigation(sourceFile: SourceFile): void {
+    const gotoCalls = sourceFile
+      .getDescendantsOfKind(SyntaxKind.CallExpression)
+      .filter((call) => call.getExpression().getText() === "goto");
+
+    for (const call of gotoCalls) {
+      const targetNode = call.getArguments()[0];
+      const target = targetNode && this.resolveNavigationTarget(targetNode);
+      if (target) {
+        this.flows.push({
+          from: this.getFlowSourceName(sourceFile.getFilePath()),
+          to: target,
+          type: "dynamic",
+          source: this.sourceLocator.fromNode(call),
+        });
+      }
+    }
+  }
+
+  /**
+   * `redirect(status, location)` thrown from load functions and form actions
+   * in +page/+layout server and universal modules
+   */
+  private extractServerRedirects(sourceFile: SourceFile): void {
+    const fileName = sourceFile.getBaseName();
+    if (!/^\+(page|layout)(\.server)?\.(ts|js)$/.test(fileName)) return;
+    // Already recorded as the route's redirectTo
+    if (this.redirectOnlyFiles.has(sourceFile.getFilePath())) return;
+
+    for (const call of this.getRedirectCalls(sourceFile)) {
+      const target = this.resolveNavigationTarget(call.getArguments()[1]);
+      if (target) {
+        this.flows.push({
+          from: this.getFlowSourceName(sourceFile.getFilePath()),
+          to: target,
+          type: "redirect",
+          source: this.sourceLocator.fromNode(call),
+        });
+      }
+    }
+  }
+
+  private findRedirectTargets(filePath: string): string[] {
+    const sourceFile = this.project.getSourceFile(filePath);
+    if (!sourceFile) return [];
+
+    return this.getRedirectCalls(sourceFile)
+      .map((call) => this.resolveNavigationTarget(call.getArguments()[1]))
+      .filter((target): target is string => !!target);
+  }
+
+  private getRedirectCalls(sourceFile: SourceFile) {
+    return sourceFile
+      .getDescendantsOfKind(SyntaxKind.CallExpression)
+      .filter(
+        (call) =>
+          call.getExpression().getText() === "redirect" &&
+          call.getArguments().length >= 2
+      );
+  }
+
+  private extractAnchorNavigation(markup: SvelteMarkup): void {
+    const root = parseHTML(markup.content);
+
+    for (const anchor of root.querySelectorAll("a")) {
+      const href = anchor.getAttribute("href");
+      const target = href && this.resolveHref(href.trim());
+      if (target) {
+        this.flows.push({
+          from: this.getFlowSourceName(markup.filePath),
+          to: target,
+          type: "static",
+          source: this.sourceLocator.fromOffset(
+            markup.filePath,
+            markup.fileText,
+            anchor.range[0]
+          ),
+        });
+      }
+    }
+  }
+
+  private resolveHref(href: string): string | undefined {
+    let target = href;
+
+    // href={expression}: only string and template literals can be followed
+    const expression = href.match(/^\{([\s\S]*)\}$/);
+    if (expression) {
+      const literal = expression[1].trim().match(/^(["'`])([\s\S]*)\1$/);
+      if (!literal) return undefined;
+      target = literal[2].replace(/\$\{[^}]+\}/g, ":param");
+    }
+
+    // Skip external links, protocols and in-page anchors
+    if (
+      target === "" ||
+      target.startsWith("#") ||
+      target.startsWith("//") ||
+      /^[a-z][a-z0-9+.-]*:/i.test(target)
+    ) {
+      return undefined;
+    }
+
+    // href="/blog/{post.slug}" interpolations become parameters
+    return target.replace(/\{[^}]+\}/g, ":param");
+  }
+
+  private resolveNavigationTarget(node: Node | undefined): string | undefined {
+    if (!node) return undefined;
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+      return node.getLiteralValue();
+    }
+    if (Node.isTemplateExpression(node)) {
+      return node
+        .getText()
+        .replace(/\$\{[^}]+\}/g, ":param")
+        .replace(/`/g, "");
+    }
+    return undefined;
+  }
+
+  private getFlowSourceName(filePath: string): string {
+    const isRouteFile =
+      !path.relative(this.routesDir, filePath).startsWith("..") &&
+      path.basename(filePath).startsWith("+");
+    return isRouteFile
+      ? this.getRouteComponentName(filePath)
+      : this.getComponentNameFromFile(filePath);
+  }
+
+  /**
+   * Route files are named after their directory under src/routes, e.g.
+   * blog/[slug]/+page.server.ts -> BlogSlugPage, (app)/+layout.svelte -> AppLayout
+   */
+  private getRouteComponentName(filePath: string): string {
+    const kind = path.basename(filePath).startsWith("+layout")
+      ? "Layout"
+      : "Page";
+    const relativeDir = path.relative(this.routesDir, path.dirname(filePath));
+    const name = relativeDir
+      .split(/[\\/\-_.()[\]=]+/)
+      .filter((part) => part.length > 0)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join("");
+    return (name || "Root") + kind;
+  }
+
+  private getComponentNameFromFile(filePath: string): string {
+    return path
+      .basename(filePath, path.extname(filePath))
+      .split(/[-_.]/)
+      .filter((part) => part.length > 0)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join("");
+  }
+}
@@ -0,0 +1,788 @@
+import { IFrameworkAnalyzer } from "../../core/framework-analyzer.interface.js";
+import {
+  ProjectAnalysisOptions,
+  AnalysisResult,
+  Route,
+  NavigationFlow,
+  MenuDefinition,
+} from "../../core/types.js";
+import { SourceLocator } from "../../core/source-locator.js";
+import { IgnoreFilter } from "../../core/ignore-filter.js";
+import {
+  Project,
+  SourceFile,
+  SyntaxKind,
+  Node,
+  ScriptKind,
+  ObjectLiteralExpression,
+  ArrayLiteralExpression,
+  Symbol as TsMorphSymbol,
+} from "ts-morph";
+import { parse as parseHTML } from "node-html-parser";
+import * as fs from "fs";
+import * as path from "path";
+import glob from "fast-glob";
+
+interface VueTemplate {
+  filePath: string;
+  fileText: string;
+  content: string;
+  start: number; // Offset of the template content within the .vue file
+}
+
+export class VueAnalyzer implements IFrameworkAnalyzer {
+  private project!: Project;
+  private routes: Route[] = [];
+  private flows: NavigationFlow[] = [];
+  private menus: MenuDefinition[] = [];
+  private projectPath!: string;
+  private sourceLocator!: SourceLocator;
+  private ignoreFilter!: IgnoreFilter;
+  private templates: VueTemplate[] = [];
+  private processedRouteArrays = new Set<Node>();
+  private routeNames = new Map<string, string>(); // route name -> fullPath
+  private nuxtPagesDir: string | null = null;
+  private namedRedirects = new Map<Route, string>(); // route -> target route name
+
+  getFrameworkName(): string {
+    return "Vue";
+  }
+
+  async canAnalyze(projectPath: string): Promise<boolean> {
+    const packageJsonPath = path.join(projectPath, "package.json");
+
+    if (fs.existsSync(packageJsonPath)) {
+      try {
+        const packageJson = JSON.parse(
+          fs.readFileSync(packageJsonPath, "utf-8")
+        );
+        const deps = {
+          ...packageJson.dependencies,
+          ...packageJson.devDependencies,
+        };
+
+        if (deps["vue"] || deps["vue-router"] || deps["nuxt"]) {
+          return true;
+        }
+      } catch (error) {
+        // Invalid package.json
+      }
+    }
+
+    // Check for the standard Vue and Nuxt project structures
+    const commonVueFiles = [
+      "src/App.vue",
+      "nuxt.config.ts",
+      "nuxt.config.js",
+      "nuxt.config.mjs",
+    ];
+
+    return commonVueFiles.some((file) =>
+      fs.existsSync(path.join(projectPath, file))
+    );
+  }
+
+  getSupportedExtensions(): string[] {
+    return [".vue", ".js", ".ts", ".mjs"];
+  }
+
+  getConfigFilePatterns(): string[] {
+    return [
+      "package.json",
+      "tsconfig.json",
+      "jsconfig.json",
+      "vite.config.js",
+      "vite.config.ts",
+      "vue.config.js",
+      "nuxt.config.ts",
+      "nuxt.config.js",
+    ];
+  }
+
+  async analyze(options: ProjectAnalysisOptions): Promise<AnalysisResult> {
+    this.projectPath = options.projectPath;
+    this.sourceLocator = new SourceLocator(options.projectPath);
+    this.ignoreFilter = await new IgnoreFilter(
+      options.projectPath,
+      options.ignore
+    ).load();
+    this.routes = [];
+    this.flows = [];
+    this.menus = [];
+    this.templates = [];
+    this.processedRouteArrays.clear();
+    this.routeNames.clear();
+    this.namedRedirects.clear();
+    this.nuxtPagesDir = null;
+
+    // Vue projects rarely have a tsconfig that lists .vue files, so build
+    // the project in memory and add the sources ourselves
+    this.project = new Project({
+      compilerOptions: {
+        allowJs: true,
+        module: 99, // ModuleKind.ESNext
+        target: 99, // ScriptTarget.ESNext
+        moduleResolution: 2, // ModuleResolutionKind.NodeJs
+      },
+    });
+
+    console.log("🔍 Starting Vue project analysis...");
+
+    await this.addSourceFiles();
+    console.log(
+      `📁 Total source files loaded: ${
+        this.project.getSourceFiles().length
+      } (${this.templates.length} SFC templates)`
+    );
+
+    if (this.isNuxtProject()) {
+      this.analyzeNuxtRouting();
+    } else {
+      console.log("🛣️  Analyzing Vue Router routes...");
+      this.analyzeRouterDefinitions();
+      this.resolveNamedRedirects();
+    }
+
+    console.log("🧭 Analyzing navigation flows...");
+    for (const sourceFile of this.project.getSourceFiles()) {
+      this.extractProgrammaticNavigation(sourceFile);
+    }
+    for (const template of this.templates) {
+      this.extractTemplateNavigation(template);
+    }
+
+    return {
+      routes: this.routes,
+      flows: this.flows,
+      menus: this.menus,
+      router: "vue-router",
+    };
+  }
+
+  private async addSourceFiles(): Promise<void> {
+    const patterns = [
+      "**/*.{js,ts,mjs,vue}",
+      "!node_modules/**",
+      "!dist/**",
+      "!build/**",
+      "!public/**",
+      "!coverage/**",
+      "!**/*.d.ts",
+      "!*.config.{js,ts,mjs}",
+    ];
+
+    const files = await glob(patterns, {
+      cwd: this.projectPath,
+      absolute: true,
+    });
+
+    for (const file of this.ignoreFilter.filter(files)) {
+      if (file.endsWith(".vue")) {
+        this.addSingleFileComponent(file);
+      } else {
+        this.project.addSourceFileAtPath(file);
+      }
+    }
+  }
+
+  /**
+   * Splits an SFC into its template and script blocks. The scripts are added
+   * to the project under the .vue path with everything else blanked out, so
+   * AST positions still line up with the original file.
+   */
+  private addSingleFileComponent(filePath: string): void {
+    const fileText = fs.readFileSync(filePath, "utf-8");
+
+    const templateMatch = fileText.match(
+      /<template(\s[^>]*)?>([\s\S]*)<\/template>/
+    );
+    if (templateMatch && templateMatch.index !== undefined) {
+      this.templates.push({
+        filePath,
+        fileText,
+        content: templateMatch[2],
+        start: templateMatch.index + templateMatch[0].indexOf(">") + 1,
+      });
+    }
+
+    let scriptText = fileText.replace(/[^\n]/g, " ");
+    let hasScript = false;
+    const scriptPattern = /<script(\s[^>]*)?>([\s\S]*?)<\/script>/g;
+    let match: RegExpExecArray | null;
+    while ((match = scriptPattern.exec(fileText)) !== null) {
+      const contentStart = match.index + match[0].indexOf(">") + 1;
+      const content = match[2];
+      scriptText =
+        scriptText.slice(0, contentStart) +
+        content +
+        scriptText.slice(contentStart + content.length);
+      hasScript = true;
+    }
+
+    if (hasScript) {
+      this.project.createSourceFile(filePath, scriptText, {
+        overwrite: true,
+        scriptKind: ScriptKind.TS,
+      });
+    }
+  }
+
+  private isNuxtProject(): boolean {
+    const packageJsonPath = path.join(this.projectPath, "package.json");
+
+    if (fs.existsSync(packageJsonPath)) {
+      try {
+        const packageJson = JSON.parse(
+          fs.readFileSync(packageJsonPath, "utf-8")
+        );
+        if (
+          packageJson.dependencies?.["nuxt"] ||
+          packageJson.devDependencies?.["nuxt"]
+        ) {
+          return true;
+        }
+      } catch (error) {
+        console.warn("Error reading package.json:", error);
+      }
+    }
+
+    return ["nuxt.config.ts", "nuxt.config.js", "nuxt.config.mjs"].some(
+      (file) => fs.existsSync(path.join(this.projectPath, file))
+    );
+  }
+
+  private analyzeNuxtRouting(): void {
+    console.log("💚 Analyzing Nuxt file-based routing...");
+
+    // Nuxt 4 moves the source into app/, Nuxt 3 keeps pages/ at the root
+    const pagesDir = [
+      path.join(this.projectPath, "pages"),
+      path.join(this.projectPath, "app", "pages"),
+    ].find((dir) => fs.existsSync(dir));
+
+    if (!pagesDir) {
+      console.warn("⚠️ Nuxt project has no pages/ directory");
+      return;
+    }
+
+    this.nuxtPagesDir = pagesDir;
+    this.routes.push(...this.analyzeNuxtPagesDirectory(pagesDir, "/", ""));
+  }
+
+  /**
+   * Builds the route tree for one pages/ directory. A `parent.vue` next to a
+   * `parent/` directory is a layout whose children are the directory's pages;
+   * a directory without one just prefixes its pages' paths.
+   */
+  private analyzeNuxtPagesDirectory(
+    dir: string,
+    parentFullPath: string,
+    pathPrefix: string
+  ): Route[] {
+    const routes: Route[] = [];
+    const entries = fs
+      .readdirSync(dir, { withFileTypes: true })
+      .filter((entry) => !this.ignoreFilter.isIgnored(path.join(dir, entry.name)))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const pageNames = new Set(
+      entries
+        .filter((entry) => entry.isFile() && entry.name.endsWith(".vue"))
+        .map((entry) => path.basename(entry.name, ".vue"))
+    );
+
+    for (const entry of entries) {
+      const entryPath = path.join(dir, entry.name);
+
+      if (entry.isFile() && entry.name.endsWith(".vue")) {
+        const name = path.basename(entry.name, ".vue");
+        const segment = this.nuxtSegmentToPath(name);
+        const routePath = this.joinSegments(pathPrefix, segment);
+        const route: Route = {
+          path: routePath,
+          fullPath: this.buildFullPath(parentFullPath, routePath),
+          component: this.getNuxtPageName(entryPath),
+          source: this.sourceLocator.fromFile(entryPath),
+        };
+        if (route.fullPath === "/" && !this.routes.some((r) => r.isRoot)) {
+          route.isRoot = true;
+        }
+        this.applyNuxtPageMeta(entryPath, route);
+
+        const childDir = path.join(dir, name);
+        if (fs.existsSync(childDir) && fs.statSync(childDir).isDirectory()) {
+          route.children = this.analyzeNuxtPagesDirectory(
+            childDir,
+            route.fullPath,
+            ""
+          );
+        }
+        routes.push(route);
+      } else if (entry.isDirectory() && !pageNames.has(entry.name)) {
+        routes.push(
+          ...this.analyzeNuxtPagesDirectory(
+            entryPath,
+            parentFullPath,
+            this.joinSegments(pathPrefix, this.nuxtSegmentToPath(entry.name))
+          )
+        );
+      }
+    }
+
+    return routes;
+  }
+
+  private nuxtSegmentToPath(name: string): string {
+    if (name === "index") return "";
+
+    return (
+      name
+        // [[optional]] -> :optional?
+        .replace(/\[\[([^\]]+)\]\]/g, ":$1?")
+        // [...slug] -> :slug* (catch-all)
+        .replace(/\[\.\.\.([^\]]+)\]/g, ":$1*")
+        // [id] -> :id
+        .replace(/\[([^\]]+)\]/g, ":$1")
+    );
+  }
+
+  private joinSegments(prefix: string, segment: string): string {
+    return [prefix, segment].filter((part) => part !== "").join("/");
+  }
+
+  /**
+   * Reads `definePageMeta({ middleware, ... })` from a page: middleware
+   * become guards and the remaining keys become route data
+   */
+  private applyNuxtPageMeta(filePath: string, route: Route): void {
+    const sourceFile = this.project.getSourceFile(filePath);
+    const metaCall = sourceFile
+      ?.getDescendantsOfKind(SyntaxKind.CallExpression)
+      .find((call) => call.getExpression().getText() === "definePageMeta");
+    const meta = metaCall?.getArguments()[0];
+    if (!meta || !Node.isObjectLiteralExpression(meta)) return;
+
+    const data = this.parseMeta(meta);
+    const middleware = meta.getProperty("middleware");
+    if (middleware && Node.isPropertyAssignment(middleware)) {
+      route.guards = this.parseGuards(
+        middleware.getInitializerOrThrow(),
+        "middleware"
+      );
+      delete data["middleware"];
+    }
+    if (Object.keys(data).length > 0) {
+      route.data = data;
+    }
+  }
+
+  /**
+   * Nuxt pages are named after their path under pages/, e.g.
+   * users/[id].vue -> UsersIdPage
+   */
+  private getNuxtPageName(filePath: string): string {
+    const relativePath = path
+      .relative(this.nuxtPagesDir!, filePath)
+      .replace(/\.vue$/, "");
+    return (
+      relativePath
+        .split(/[\\/\-_.\[\]]+/)
+        .filter((part) => part.length > 0)
+        .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+        .join("") + "Page"
+    );
+  }
+
+  private analyzeRouterDefinitions(): void {
+    for (const sourceFile of this.project.getSourceFiles()) {
+      const routerCalls = [
+        ...sourceFile
+          .getDescendantsOfKind(SyntaxKind.CallExpression)
+          .filter((call) =>
+            /(^|\.)createRouter$/.test(call.getExpression().getText())
+          ),
+        // Vue Router 3: new VueRouter({ routes })
+        ...sourceFile
+          .getDescendantsOfKind(SyntaxKind.NewExpression)
+          .filter((expr) => expr.getExpression().getText() === "VueRouter"),
+      ];
+
+      for (const call of routerCalls) {
+        const options = call.getArguments()[0];
+        if (!options || !Node.isObjectLiteralExpression(options)) continue;
+
+        const routesProp = options.getProperty("routes");
+        let routesArray: ArrayLiteralExpression | undefined;
+        if (routesProp && Node.isPropertyAssignment(routesProp)) {
+          const initializer = routesProp.getInitializer();
+          routesArray = initializer && this.resolveRouteArray(initializer);
+        } else if (
+          routesProp &&
+          Node.isShorthandPropertyAssignment(routesProp)
+        ) {
+          routesArray = this.resolveRouteArrayFromSymbol(
+            routesProp.getValueSymbol()
+          );
+        }
+
+        if (!routesArray) {
+          console.warn(
+            `⚠️ Could not resolve routes passed to router in ${sourceFile.getBaseName()}`
+          );
+          continue;
+        }
+
+        this.routes.push(...this.parseRouteArray(routesArray, "/"));
+      }
+    }
+  }
+
+  /**
+   * Follows identifiers (including imports and spread elements) back to the
+   * array literal that declares the routes
+   */
+  private resolveRouteArray(node: Node): ArrayLiteralExpression | undefined {
+    if (Node.isArrayLiteralExpression(node)) return node;
+
+    if (Node.isAsExpression(node) || Node.isSatisfiesExpression(node)) {
+      return this.resolveRouteArray(node.getExpression());
+    }
+
+    if (Node.isIdentifier(node)) {
+      return this.resolveRouteArrayFromSymbol(node.getSymbol());
+    }
+
+    return undefined;
+  }
+
+  private resolveRouteArrayFromSymbol(
+    symbol: TsMorphSymbol | undefined
+  ): ArrayLiteralExpression | undefined {
+    const target = symbol?.getAliasedSymbol() || symbol;
+    for (const declaration of target?.getDeclarations() || []) {
+      if (Node.isVariableDeclaration(declaration)) {
+        const initializer = declaration.getInitializer();
+        if (initializer) return this.resolveRouteArray(initializer);
+      }
+      if (Node.isExportAssignment(declaration)) {
+        return this.resolveRouteArray(declaration.getExpression());
+      }
+    }
+    return undefined;
+  }
+
+  private parseRouteArray(
+    array: ArrayLiteralExpression,
+    parentFullPath: string
+  ): Route[] {
+    if (this.processedRouteArrays.has(array)) return [];
+    this.processedRouteArrays.add(array);
+
+    const routes: Route[] = [];
+    for (const element of array.getElements()) {
+      if (Node.isObjectLiteralExpression(element)) {
+        const route = this.parseRouteObject(element, parentFullPath);
+        if (route) routes.push(route);
+      } else if (Node.isSpreadElement(element)) {
+        const spread = this.resolveRouteArray(element.getExpression());
+        if (spread) routes.push(...this.parseRouteArray(spread, parentFullPath));
+      }
+    }
+    return routes;
+  }
+
+  private parseRouteObject(
+    node: ObjectLiteralExpression,
+    parentFullPath: string
+  ): Route | null {
+    let pathSegment: string | undefined;
+    let name: string | undefined;
+    let children: ArrayLiteralExpression | undefined;
+    const route: Route = { path: "", fullPath: "" };
+    route.source = this.sourceLocator.fromNode(node);
+
+    for (const prop of node.getProperties()) {
+      if (!Node.isPropertyAssignment(prop)) continue;
+      const initializer = prop.getInitializer();
+      if (!initializer) continue;
+
+      switch (prop.getName()) {
+        case "path":
+          if (Node.isStringLiteral(initializer))
+            pathSegment = initializer.getLiteralValue();
+          break;
+        case "name":
+          if (Node.isStringLiteral(initializer))
+            name = initializer.getLiteralValue();
+          break;
+        case "component":
+          route.component = this.parseComponent(initializer);
+          break;
+        case "redirect":
+          this.parseRedirect(initializer, route);
+          break;
+        case "children":
+          children = this.resolveRouteArray(initializer);
+          break;
+        case "beforeEnter":
+          route.guards = this.parseGuards(initializer, "beforeEnter");
+          break;
+        case "meta":
+          if (Node.isObjectLiteralExpression(initializer))
+            route.data = this.parseMeta(initializer);
+          break;
+      }
+    }
+
+    if (pathSegment === undefined) return null;
+
+    route.path = pathSegment;
+    route.fullPath = this.buildFullPath(parentFullPath, pathSegment);
+    if (route.fullPath === "/" && !this.routes.some((r) => r.isRoot)) {
+      route.isRoot = true;
+    }
+    if (name) this.routeNames.set(name, route.fullPath);
+
+    if (children) {
+      route.children = this.parseRouteArray(children, route.fullPath);
+    }
+
+    return route;
+  }
+
+  private parseComponent(initializer: Node): string | undefined {
+    // Lazy component: () => import('../views/UserDetail.vue')
+    if (
+      Node.isArrowFunction(initializer) ||
+      Node.isFunctionExpression(initializer)
+    ) {
+      const importCall = initializer
+        .getDescendantsOfKind(SyntaxKind.CallExpression)
+        .find((call) => call.getExpression().getText() === "import");
+      const importPath = importCall?.getArguments()[0];
+      if (importPath && Node.isStringLiteral(importPath)) {
+        return this.getComponentNameFromFile(importPath.getLiteralValue());
+      }
+      return undefined;
+    }
+
+    if (Node.isIdentifier(initializer)) {
+      // Prefer the imported file's name so it matches the SFC it renders
+      const importDecl = initializer
+        .getSourceFile()
+        .getImportDeclarations()
+        .find(
+          (decl) => decl.getDefaultImport()?.getText() === initializer.getText()
+        );
+      if (importDecl && importDecl.getModuleSpecifierValue().endsWith(".vue")) {
+        return this.getComponentNameFromFile(
+          importDecl.getModuleSpecifierValue()
+        );
+      }
+      return initializer.getText();
+    }
+
+    return undefined;
+  }
+
+  private parseRedirect(initializer: Node, route: Route): void {
+    if (Node.isStringLiteral(initializer)) {
+      route.redirectTo = initializer.getLiteralValue();
+    } else if (Node.isObjectLiteralExpression(initializer)) {
+      const target = this.getLocationTarget(initializer);
+      if (target?.path) {
+        route.redirectTo = target.path;
+      } else if (target?.name) {
+        // Named targets may be declared later; resolved once all routes are known
+        this.namedRedirects.set(route, target.name);
+      }
+    }
+  }
+
+  private resolveNamedRedirects(): void {
+    for (const [route, name] of this.namedRedirects) {
+      const fullPath = this.routeNames.get(name);
+      if (fullPath) {
+        route.redirectTo = fullPath;
+      } else {
+        console.warn(`⚠️ Redirect to unknown route name: ${name}`);
+      }
+    }
+  }
+
+  private parseGuards(initializer: Node, inlineLabel: string): string[] {
+    if (Node.isArrayLiteralExpression(initializer)) {
+      return initializer
+        .getElements()
+        .flatMap((element) => this.parseGuards(element, inlineLabel));
+    }
+    if (
+      Node.isArrowFunction(initializer) ||
+      Node.isFunctionExpression(initializer)
+    ) {
+      return [inlineLabel];
+    }
+    if (Node.isStringLiteral(initializer)) {
+      return [initializer.getLiteralValue()];
+    }
+    return [initializer.getText()];
+  }
+
+  private parseMeta(meta: ObjectLiteralExpression): Record<string, any> {
+    const data: Record<string, any> = {};
+    for (const prop of meta.getProperties()) {
+      if (Node.isPropertyAssignment(prop)) {
+        const value = prop.getInitializer();
+        if (value) {
+          data[prop.getName()] = Node.isStringLiteral(value)
+            ? value.getLiteralValue()
+            : value.getText();
+        }
+      }
+    }
+    return data;
+  }
+
+  private buildFullPath(parentFullPath: string, segment: string): string {
+    if (segment.startsWith("/")) return segment;
+    if (segment === "") return parentFullPath;
+    return parentFullPath === "/"
+      ? `/${segment}`
+      : `${parentFullPath}/${segment}`;
+  }
+
+  private extractProgrammaticNavigation(sourceFile: SourceFile): void {
+    const navigationCalls = sourceFile
+      .getDescendantsOfKind(SyntaxKind.CallExpression)
+      .filter((call) =>
+        /(^|\.)\$?router\.(push|replace)$|^navigateTo$/.test(
+          call.getExpression().getText()
+        )
+      );
+
+    for (const call of navigationCalls) {
+      const targetNode = call.getArguments()[0];
+      const target = targetNode && this.resolveNavigationTarget(targetNode);
+      if (target) {
+        this.flows.push({
+          from: this.getFlowSourceName(sourceFile.getFilePath()),
+          to: target,
+          type: "dynamic",
+          source: this.sourceLocator.fromNode(call),
+        });
+      }
+    }
+  }
+
+  private extractTemplateNavigation(template: VueTemplate): void {
+    const root = parseHTML(template.content);
+    const links = root
+      .querySelectorAll("*")
+      .filter((el) =>
+        ["router-link", "routerlink", "nuxt-link", "nuxtlink"].includes(
+          el.rawTagName.toLowerCase()
+        )
+      );
+
+    for (const link of links) {
+      let target: string | undefined;
+      const staticTo = link.getAttribute("to");
+      const boundTo = link.getAttribute(":to") ?? link.getAttribute("v-bind:to");
+
+      if (staticTo) {
+        target = staticTo.trim();
+      } else if (boundTo) {
+        target = this.resolveBindingTarget(boundTo);
+      }
+
+      if (target) {
+        this.flows.push({
+          from: this.getFlowSourceName(template.filePath),
+          to: target,
+          type: "static",
+          source: this.sourceLocator.fromOffset(
+            template.filePath,
+            template.fileText,
+            template.start + link.range[0]
+          ),
+        });
+      }
+    }
+  }
+
+  /**
+   * Parses a `:to` binding expression with the same rules as script targets
+   */
+  private resolveBindingTarget(expression: string): string | undefined {
+    const scratch = this.project.createSourceFile(
+      path.join(this.projectPath, "__vue_binding__.ts"),
+      `(${expression});`,
+      { overwrite: true }
+    );
+    try {
+      const parenthesized = scratch.getFirstDescendantByKind(
+        SyntaxKind.ParenthesizedExpression
+      );
+      return parenthesized
+        ? this.resolveNavigationTarget(parenthesized.getExpression())
+        : undefined;
+    } finally {
+      this.project.removeSourceFile(scratch);
+    }
+  }
+
+  private resolveNavigationTarget(node: Node): string | undefined {
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+      return node.getLiteralValue();
+    }
+    if (Node.isTemplateExpression(node)) {
+      return node
+        .getText()
+        .replace(/\$\{[^}]+\}/g, ":param")
+        .replace(/`/g, "");
+    }
+    if (Node.isObjectLiteralExpression(node)) {
+      const target = this.getLocationTarget(node);
+      if (target?.path) return target.path;
+      if (target?.name) return this.routeNames.get(target.name);
+    }
+    return undefined;
+  }
+
+  private getLocationTarget(
+    location: ObjectLiteralExpression
+  ): { path?: string; name?: string } | undefined {
+    const target: { path?: string; name?: string } = {};
+    for (const key of ["path", "name"] as const) {
+      const prop = location.getProperty(key);
+      if (prop && Node.isPropertyAssignment(prop)) {
+        const value = prop.getInitializer();
+        if (value && Node.isStringLiteral(value)) {
+          target[key] = value.getLiteralValue();
+        } else if (value && Node.isTemplateExpression(value)) {
+          target[key] = this.resolveNavigationTarget(value);
+        }
+      }
+    }
+    return target.path || target.name ? target : undefined;
+  }
+
+  private getFlowSourceName(filePath: string): string {
+    const isNuxtPage =
+      this.nuxtPagesDir !== null &&
+      !path.relative(this.nuxtPagesDir, filePath).startsWith("..");
+    return isNuxtPage
+      ? this.getNuxtPageName(filePath)
+      : this.getComponentNameFromFile(filePath);
+  }
+
+  private getComponentNameFromFile(filePath: string): string {
+    const fileName = path.basename(filePath, path.extname(filePath));
+    const baseName =
+      fileName === "index" ? path.basename(path.dirname(filePath)) : fileName;
+    return baseName
+      .split(/[-_.]/)
+      .filter((part) => part.length > 0)
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join("");
+  }
+}
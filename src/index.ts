@@ -1,5 +1,17 @@
 // Core exports
 export { FlowAnalyzer } from "./core/flow-analyzer.js";
+export { ConfigLoader, LoadedConfig } from "./core/config-loader.js";
+export { IgnoreFilter } from "./core/ignore-filter.js";
+export { AnalysisDiffer } from "./core/analysis-differ.js";
+export { FlowLinter } from "./core/flow-linter.js";
+export { RouteMatcher } from "./core/route-matcher.js";
+export { BrokenLinkDetector } from "./core/broken-link-detector.js";
+export { ConstantEvaluator } from "./core/constant-evaluator.js";
+export { ImportTracer, ImportedBinding } from "./core/import-tracer.js";
+export {
+  WorkspaceDetector,
+  WorkspaceProject,
+} from "./core/workspace-detector.js";
 export { IFrameworkAnalyzer } from "./core/framework-analyzer.interface.js";
 export {
   IOutputGenerator,
@@ -10,8 +22,26 @@ export {
   Route,
   NavigationFlow,
   MenuDefinition,
+  RouteFunction,
+  RouteGuardType,
+  BrokenLink,
+  ApiRoute,
   AnalysisResult,
   ProjectAnalysisOptions,
+  UserPravahConfig,
+  DetectedProject,
+  MonorepoProjectResult,
+  MonorepoAnalysisResult,
+  AnalysisDiff,
+  RouteChange,
+  RouteFieldChange,
+  FlowChange,
+  LintRuleName,
+  LintSeverity,
+  LintRuleConfig,
+  LintIssue,
+  LintResult,
+  SourceLocation,
   RouteNode,
   FlowEdge,
 } from "./core/types.js";
@@ -19,7 +49,17 @@ export {
 // Framework analyzers
 export { AngularAnalyzer } from "./frameworks/angular/angular-analyzer.js";
 export { ReactAnalyzer } from "./frameworks/react/react-analyzer.js";
+export { VueAnalyzer } from "./frameworks/vue/vue-analyzer.js";
+export { SvelteKitAnalyzer } from "./frameworks/sveltekit/sveltekit-analyzer.js";
 
 // Output generators
 export { DotGenerator } from "./outputs/dot/dot-generator.js";
 export { JsonGenerator } from "./outputs/json/json-generator.js";
+export { MermaidGenerator } from "./outputs/mermaid/mermaid-generator.js";
+export { HtmlGenerator } from "./outputs/html/html-generator.js";
+export {
+  DiffReportGenerator,
+  DiffReportOptions,
+} from "./outputs/diff/diff-report-generator.js";
+export { MonorepoIndexGenerator } from "./outputs/monorepo/monorepo-index-generator.js";
+export { GraphBuilder, GraphData, GraphBuildOptions } from "./outputs/shared/graph-builder.js";
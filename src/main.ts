@@ -3,9 +3,22 @@
 import { FlowAnalyzer } from "./core/flow-analyzer.js";
 import { AngularAnalyzer } from "./frameworks/angular/angular-analyzer.js";
 import { ReactAnalyzer } from "./frameworks/react/react-analyzer.js";
+import { VueAnalyzer } from "./frameworks/vue/vue-analyzer.js";
+import { SvelteKitAnalyzer } from "./frameworks/sveltekit/sveltekit-analyzer.js";
 import { DotGenerator } from "./outputs/dot/dot-generator.js";
 import { JsonGenerator } from "./outputs/json/json-generator.js";
-import { ProjectAnalysisOptions } from "./core/types.js";
+import { MermaidGenerator } from "./outputs/mermaid/mermaid-generator.js";
+import { HtmlGenerator } from "./outputs/html/html-generator.js";
+import { ConfigLoader, LoadedConfig } from "./core/config-loader.js";
+import { AnalysisDiffer } from "./core/analysis-differ.js";
+import { DiffReportGenerator } from "./outputs/diff/diff-report-generator.js";
+import {
+  AnalysisResult,
+  LintResult,
+  LintRuleConfig,
+  ProjectAnalysisOptions,
+} from "./core/types.js";
+import * as fs from "fs";
 
 async function main() {
   console.log("🚀 UserPravah - Universal User Flow Analyzer");
@@ -32,12 +45,36 @@ async function main() {
       "  --output-dir <path>    Output directory (default: current directory)"
     );
     console.log(
-      "  --theme <theme>        Theme for DOT output (default, dark, colorful)"
+      "  --theme <theme>        Theme for graph output (light, dark)"
     );
     console.log(
-      "  --layout <layout>      Layout for DOT output (LR, TB, BT, RL)"
+      "  --layout <layout>      Layout for graph output (LR, TB, BT, RL)"
     );
     console.log("  --no-image            Skip image generation for DOT output");
+    console.log(
+      "  --show-missing        Draw broken link targets as red missing nodes"
+    );
+    console.log(
+      "  --monorepo            Analyze every project in the workspace"
+    );
+    console.log(
+      "  --diff <baseline>     Compare with a saved JSON output and report changes"
+    );
+    console.log(
+      "  --lint                Check navigation for problems; exits 1 on errors"
+    );
+    console.log(
+      "  --lint-rule <r=level> Set a lint rule to off, warn or error (comma-separated)"
+    );
+    console.log(
+      "  --ignore <globs>      Skip matching files and folders (comma-separated)"
+    );
+    console.log(
+      "  --guard-components <names> React wrapper components that guard routes (comma-separated)"
+    );
+    console.log(
+      "  --config <path>       Config file (default: userpravah.config.json or .userpravah.json in the project)"
+    );
     console.log("");
     console.log("Examples:");
     console.log("  user-pravah ./my-angular-app");
@@ -48,22 +85,25 @@ async function main() {
 
   const projectPath = process.argv[2];
 
-  // Parse CLI arguments
+  // Parse CLI arguments; anything not given here falls back to the config file
   const args = process.argv.slice(3);
-  const options: ProjectAnalysisOptions = {
-    projectPath,
-    framework: "auto",
-    outputFormats: ["dot"],
-  };
-
-  const outputOptions: any = {
-    outputDirectory: process.cwd(),
-    generateImage: true,
-    theme: "light",
-    layout: "LR",
-  };
+  const cli: {
+    framework?: string;
+    outputFormats?: string[];
+    outputDirectory?: string;
+    theme?: string;
+    layout?: string;
+    generateImage?: boolean;
+    showMissing?: boolean;
+    configPath?: string;
+    ignore?: string[];
+    guardComponents?: string[];
+    monorepo?: boolean;
+    diffBaseline?: string;
+    lint?: boolean;
+    lintRules?: Record<string, string>;
+  } = {};
 
-  // Parse arguments
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     const nextArg = args[i + 1];
@@ -71,41 +111,139 @@ async function main() {
     switch (arg) {
       case "--framework":
         if (nextArg) {
-          options.framework = nextArg;
+          cli.framework = nextArg;
           i++;
         }
         break;
       case "--output":
         if (nextArg) {
-          options.outputFormats = nextArg.split(",").map((f) => f.trim());
+          cli.outputFormats = nextArg.split(",").map((f) => f.trim());
           i++;
         }
         break;
       case "--output-dir":
         if (nextArg) {
-          outputOptions.outputDirectory = nextArg;
+          cli.outputDirectory = nextArg;
           i++;
         }
         break;
       case "--theme":
         if (nextArg) {
-          outputOptions.theme = nextArg;
+          cli.theme = nextArg;
           i++;
         }
         break;
       case "--layout":
         if (nextArg) {
-          outputOptions.layout = nextArg;
-          outputOptions.rankdir = nextArg; // For DOT compatibility
+          cli.layout = nextArg;
+          i++;
+        }
+        break;
+      case "--config":
+        if (nextArg) {
+          cli.configPath = nextArg;
+          i++;
+        }
+        break;
+      case "--ignore":
+        if (nextArg) {
+          cli.ignore = [
+            ...(cli.ignore ?? []),
+            ...nextArg.split(",").map((p) => p.trim()),
+          ];
+          i++;
+        }
+        break;
+      case "--guard-components":
+        if (nextArg) {
+          cli.guardComponents = [
+            ...(cli.guardComponents ?? []),
+            ...nextArg.split(",").map((name) => name.trim()),
+          ];
           i++;
         }
         break;
       case "--no-image":
-        outputOptions.generateImage = false;
+        cli.generateImage = false;
+        break;
+      case "--show-missing":
+        cli.showMissing = true;
+        break;
+      case "--monorepo":
+        cli.monorepo = true;
+        break;
+      case "--diff":
+        if (nextArg) {
+          cli.diffBaseline = nextArg;
+          i++;
+        }
+        break;
+      case "--lint":
+        cli.lint = true;
+        break;
+      case "--lint-rule":
+        if (nextArg) {
+          for (const setting of nextArg.split(",")) {
+            const [rule, severity] = setting.split("=").map((p) => p.trim());
+            cli.lintRules = { ...(cli.lintRules ?? {}), [rule]: severity };
+          }
+          i++;
+        }
         break;
     }
   }
 
+  // Load userpravah.config.json / .userpravah.json (or the --config file)
+  const configLoader = new ConfigLoader();
+  let loadedConfig: LoadedConfig | null;
+  try {
+    loadedConfig = configLoader.load(projectPath, cli.configPath);
+  } catch (error: any) {
+    console.error(`❌ Error: ${error.message}`);
+    process.exit(1);
+  }
+  const config = loadedConfig?.config ?? {};
+  if (loadedConfig) {
+    console.log(`⚙️  Using config file: ${loadedConfig.filePath}`);
+  }
+
+  const lintRuleErrors = configLoader.validateLintRules(cli.lintRules ?? {});
+  if (lintRuleErrors.length > 0) {
+    console.error(`❌ Error: Invalid --lint-rule:\n  - ${lintRuleErrors.join("\n  - ")}`);
+    process.exit(1);
+  }
+
+  const options: ProjectAnalysisOptions = {
+    projectPath,
+    framework: cli.framework ?? config.framework ?? "auto",
+    outputFormats: cli.outputFormats ??
+      configLoader.getOutputFormats(config) ?? ["dot"],
+    configPath: loadedConfig?.filePath,
+    // Ignore globs add up: the config's shared list plus any ad-hoc --ignore
+    ignore: [...(config.ignore ?? []), ...(cli.ignore ?? [])],
+    guardComponents: [
+      ...(config.guardComponents ?? []),
+      ...(cli.guardComponents ?? []),
+    ],
+  };
+
+  // A committed config may point at a directory that is not checked in yet
+  if (!cli.outputDirectory && config.outputDir) {
+    fs.mkdirSync(config.outputDir, { recursive: true });
+  }
+
+  const layout = cli.layout ?? config.layout ?? "LR";
+  const outputOptions: any = {
+    outputDirectory: cli.outputDirectory ?? config.outputDir ?? process.cwd(),
+    generateImage: cli.generateImage ?? config.generateImage ?? true,
+    theme: cli.theme ?? config.theme ?? "light",
+    layout,
+    rankdir: layout, // For DOT compatibility
+    generators: config.generators,
+    ...(cli.showMissing ? { showMissing: true } : {}),
+  };
+  const monorepo = cli.monorepo ?? config.monorepo ?? false;
+
   try {
     // Initialize the flow analyzer
     const analyzer = new FlowAnalyzer();
@@ -113,13 +251,14 @@ async function main() {
     // Register framework analyzers
     analyzer.registerFrameworkAnalyzer(new AngularAnalyzer());
     analyzer.registerFrameworkAnalyzer(new ReactAnalyzer());
-    // Future: analyzer.registerFrameworkAnalyzer(new VueAnalyzer());
+    analyzer.registerFrameworkAnalyzer(new VueAnalyzer());
+    analyzer.registerFrameworkAnalyzer(new SvelteKitAnalyzer());
 
     // Register output generators
     analyzer.registerOutputGenerator(new DotGenerator());
     analyzer.registerOutputGenerator(new JsonGenerator());
-    // Future: analyzer.registerOutputGenerator(new MermaidGenerator());
-    // Future: analyzer.registerOutputGenerator(new HtmlGenerator());
+    analyzer.registerOutputGenerator(new MermaidGenerator());
+    analyzer.registerOutputGenerator(new HtmlGenerator());
 
     console.log(`🔍 Project path: ${options.projectPath}`);
     console.log(
@@ -142,6 +281,31 @@ async function main() {
         .join(", ")}`
     );
 
+    if (cli.lint) {
+      if (monorepo || cli.diffBaseline) {
+        throw new Error("--lint cannot be combined with --monorepo or --diff");
+      }
+      // Rules from the config file are applied by the analyzer
+      await runLint(analyzer, options, (cli.lintRules ?? {}) as LintRuleConfig);
+      return;
+    }
+
+    if (monorepo) {
+      if (cli.diffBaseline) {
+        throw new Error("--diff cannot be combined with --monorepo");
+      }
+      await runMonorepoAnalysis(analyzer, options, outputOptions);
+      return;
+    }
+
+    // Read the baseline first: the JSON output may be about to overwrite it
+    const differ = new AnalysisDiffer();
+    let baseline: AnalysisResult | null = null;
+    if (cli.diffBaseline) {
+      baseline = differ.loadBaseline(cli.diffBaseline);
+      console.log(`🔀 Comparing against baseline: ${cli.diffBaseline}`);
+    }
+
     // Perform analysis and generate outputs
     const result = await analyzer.analyzeAndGenerate(options, outputOptions);
 
@@ -149,6 +313,10 @@ async function main() {
     console.log(`   📍 Routes found: ${result.analysis.routes.length}`);
     console.log(`   🔄 Navigation flows: ${result.analysis.flows.length}`);
     console.log(`   📂 Menu definitions: ${result.analysis.menus.length}`);
+    if (result.analysis.apiRoutes?.length) {
+      console.log(`   🔌 API routes: ${result.analysis.apiRoutes.length}`);
+    }
+    printBrokenLinks(result.analysis);
 
     console.log("\n🎨 Generated Outputs:");
     result.outputs.forEach((output) => {
@@ -160,6 +328,23 @@ async function main() {
       }
     });
 
+    if (baseline) {
+      const diff = differ.diff(baseline, result.analysis);
+      const reportFiles = new DiffReportGenerator().generate(diff, {
+        outputDirectory: outputOptions.outputDirectory,
+        baselinePath: cli.diffBaseline,
+      });
+
+      console.log("\n🔀 Navigation Changes:");
+      console.log(
+        `   📍 Routes: +${diff.routes.added.length} -${diff.routes.removed.length} ~${diff.routes.changed.length}`
+      );
+      console.log(
+        `   🔄 Flows: +${diff.flows.added.length} -${diff.flows.removed.length}`
+      );
+      reportFiles.forEach((file) => console.log(`   📄 ${file}`));
+    }
+
     console.log("\n🎉 Analysis complete!");
   } catch (error) {
     console.error("❌ Fatal Error during analysis:", error);
@@ -185,6 +370,84 @@ main().catch((error) => {
   process.exit(1);
 });
 
+async function runMonorepoAnalysis(
+  analyzer: FlowAnalyzer,
+  options: ProjectAnalysisOptions,
+  outputOptions: any
+) {
+  const result = await analyzer.analyzeMonorepo(options, outputOptions);
+
+  console.log("\n✨ Monorepo Summary:");
+  result.projects.forEach((project) => {
+    if (project.error) {
+      console.log(`   ❌ ${project.name} (${project.framework}): ${project.error}`);
+    } else {
+      console.log(
+        `   📦 ${project.name} (${project.framework}): ${
+          project.analysis!.routes.length
+        } routes, ${project.analysis!.flows.length} flows, ${
+          project.outputs.length
+        } outputs`
+      );
+    }
+  });
+
+  console.log("\n🗂️  Index:");
+  result.indexFiles.forEach((file) => console.log(`   📄 ${file}`));
+
+  const failed = result.projects.filter((project) => project.error);
+  if (failed.length > 0) {
+    console.error(`\n❌ ${failed.length} of ${result.projects.length} projects failed`);
+    process.exit(1);
+  }
+  console.log("\n🎉 Analysis complete!");
+}
+
+function printBrokenLinks(analysis: AnalysisResult) {
+  const brokenLinks = analysis.brokenLinks ?? [];
+  console.log(`   🔗 Broken links: ${brokenLinks.length}`);
+  brokenLinks.forEach((link) => {
+    const from = link.fromPath ? `${link.from} (${link.fromPath})` : link.from;
+    const location = link.source
+      ? ` at ${link.source.file}:${link.source.line}`
+      : "";
+    console.log(`      ❌ ${from} → ${link.to}${location}`);
+  });
+}
+
+async function runLint(
+  analyzer: FlowAnalyzer,
+  options: ProjectAnalysisOptions,
+  rules: LintRuleConfig
+) {
+  const { lint } = await analyzer.lint(options, rules);
+  printLintResult(lint);
+
+  if (lint.errorCount > 0) {
+    process.exit(1);
+  }
+  console.log("\n🎉 Lint passed!");
+}
+
+function printLintResult(lint: LintResult) {
+  console.log("\n🧹 Navigation Lint:");
+  if (lint.issues.length === 0) {
+    console.log("   ✅ No navigation problems found");
+    return;
+  }
+
+  lint.issues.forEach((issue) => {
+    const icon = issue.severity === "error" ? "❌" : "⚠️ ";
+    const location = issue.source
+      ? ` (${issue.source.file}:${issue.source.line})`
+      : "";
+    console.log(`   ${icon} ${issue.rule}: ${issue.message}${location}`);
+  });
+  console.log(
+    `\n   ${lint.errorCount} error(s), ${lint.warningCount} warning(s)`
+  );
+}
+
 function showHelp() {
   console.log(`
 🚀 UserPravah - Universal User Flow Analyzer
@@ -196,12 +459,33 @@ ARGUMENTS:
   <project-path>         Path to the project to analyze
 
 OPTIONS:
-  --framework <name>     Force specific framework (angular, react)
-  --output <formats>     Output formats (dot, json) - comma separated
+  --framework <name>     Force specific framework (angular, react, vue, sveltekit)
+  --output <formats>     Output formats (dot, json, mermaid, html) - comma separated
   --output-dir <path>    Output directory (default: current directory)
-  --theme <theme>        Theme for DOT output (light, dark)
+  --theme <theme>        Theme for DOT, Mermaid and HTML output (light, dark)
   --layout <direction>   Graph layout direction (LR, TB, BT, RL)
   --no-image            Skip PNG image generation
+  --show-missing        Add broken link targets to DOT (red "missing" nodes)
+                        and JSON (missingRoutes)
+  --ignore <globs>      Skip matching files and folders, relative to the
+                        project path (comma-separated, repeatable)
+  --monorepo            Analyze every project in the workspace (Nx,
+                        angular.json, npm/pnpm workspaces); writes one
+                        output folder per project plus index.json/index.md
+  --diff <baseline>     Compare with a previously saved JSON output and write
+                        user-flows-diff.md / user-flows-diff.json
+  --lint                Check navigation instead of generating outputs:
+                        orphan-route, dead-end, navigation-cycle,
+                        unreachable-route, shadowed-route. Exits 1 when
+                        a rule set to "error" fails
+  --lint-rule <r=level> Override a lint rule (off, warn, error), e.g.
+                        --lint-rule dead-end=off,orphan-route=error
+  --guard-components <names>
+                        React components that guard the routes they wrap,
+                        besides ProtectedRoute, PrivateRoute, RequireAuth and
+                        other common names (comma-separated, repeatable)
+  --config <path>       Config file (default: userpravah.config.json or
+                        .userpravah.json in the project root)
   --help                Show this help message
 
 EXAMPLES:
@@ -209,13 +493,40 @@ EXAMPLES:
   userpravah ./my-react-app --framework react --output dot,json
   userpravah ./project --theme dark --layout TB
   userpravah ./project --output-dir ./output --no-image
+  userpravah ./project --output mermaid --layout TB
+  userpravah ./project --output html --no-image
+  userpravah ./project --config ./ci/userpravah.config.json
+  userpravah ./project --ignore "storybook/**,**/*.stories.tsx"
+  userpravah ./nx-workspace --monorepo --output json,html --output-dir ./flows
+  userpravah ./project --output json --diff ./baseline/user-flows.json
+  userpravah ./project --lint --lint-rule dead-end=off
+
+CONFIG FILE:
+  Settings in userpravah.config.json are used unless overridden by a flag:
+  {
+    "framework": "angular",
+    "output": ["dot", "mermaid"],
+    "outputDir": "./docs/flows",
+    "theme": "dark",
+    "layout": "TB",
+    "generateImage": false,
+    "ignore": ["src/legacy/**"],
+    "guardComponents": ["RequireAdmin"],
+    "generators": { "mermaid": { "markdown": true } },
+    "monorepo": false,
+    "lint": { "orphan-route": "error", "dead-end": "off" }
+  }
 
 SUPPORTED FRAMEWORKS:
   - Angular (routing modules, standalone components)
   - React (React Router, Next.js App Router)
+  - Vue (Vue Router, single-file components, Nuxt pages/)
+  - SvelteKit (src/routes file-based routing)
 
 OUTPUT FORMATS:
   - DOT: Graphviz format with PNG image generation
   - JSON: Structured data format
+  - MERMAID: Mermaid flowchart (.mmd) that renders in GitHub and wikis
+  - HTML: Self-contained interactive viewer (pan/zoom, search, route details)
 `);
 }
@@ -0,0 +1,150 @@
+import { AnalysisDiff, FlowChange, Route, RouteFieldChange } from "../../core/types.js";
+import * as fs from "fs";
+import * as path from "path";
+
+export interface DiffReportOptions {
+  outputDirectory: string;
+  filename?: string;
+  baselinePath?: string; // Shown in the report header
+}
+
+/**
+ * Writes a navigation diff as a Markdown summary for reviewers and as JSON
+ * for tooling
+ */
+export class DiffReportGenerator {
+  generate(diff: AnalysisDiff, options: DiffReportOptions): string[] {
+    console.log("🔀 Writing navigation diff report...");
+
+    const filename = options.filename || "user-flows-diff";
+
+    const jsonPath = path.join(options.outputDirectory, `${filename}.json`);
+    fs.writeFileSync(
+      jsonPath,
+      JSON.stringify(
+        {
+          metadata: {
+            generatedAt: new Date().toISOString(),
+            baseline: options.baselinePath,
+            summary: this.getSummary(diff),
+          },
+          ...diff,
+        },
+        null,
+        2
+      ),
+      "utf-8"
+    );
+
+    const markdownPath = path.join(options.outputDirectory, `${filename}.md`);
+    fs.writeFileSync(
+      markdownPath,
+      this.createMarkdown(diff, options.baselinePath),
+      "utf-8"
+    );
+
+    console.log(`✅ Diff report generated: ${markdownPath}, ${jsonPath}`);
+    return [markdownPath, jsonPath];
+  }
+
+  private getSummary(diff: AnalysisDiff) {
+    return {
+      routesAdded: diff.routes.added.length,
+      routesRemoved: diff.routes.removed.length,
+      routesChanged: diff.routes.changed.length,
+      flowsAdded: diff.flows.added.length,
+      flowsRemoved: diff.flows.removed.length,
+    };
+  }
+
+  private createMarkdown(diff: AnalysisDiff, baselinePath?: string): string {
+    const summary = this.getSummary(diff);
+    const lines = ["# Navigation Changes", ""];
+
+    const against = baselinePath ? ` against \`${path.basename(baselinePath)}\`` : "";
+    if (!diff.hasChanges) {
+      lines.push(`No navigation changes${against}.`);
+      return lines.join("\n") + "\n";
+    }
+
+    lines.push(
+      `Compared${against}: ` +
+        `${this.count(summary.routesAdded, "route")} added, ` +
+        `${summary.routesRemoved} removed, ${summary.routesChanged} changed; ` +
+        `${this.count(summary.flowsAdded, "flow")} added, ` +
+        `${summary.flowsRemoved} removed.`,
+      ""
+    );
+
+    if (summary.routesAdded + summary.routesRemoved + summary.routesChanged > 0) {
+      lines.push("## Routes", "");
+      this.pushSection(lines, "Added", diff.routes.added.map((r) => this.describeRoute(r)));
+      this.pushSection(lines, "Removed", diff.routes.removed.map((r) => this.describeRoute(r)));
+      this.pushSection(
+        lines,
+        "Changed",
+        diff.routes.changed.map(
+          (change) =>
+            `\`${change.fullPath}\`\n` +
+            change.changes
+              .map((fieldChange) => `  - ${this.describeFieldChange(fieldChange)}`)
+              .join("\n")
+        )
+      );
+    }
+
+    if (summary.flowsAdded + summary.flowsRemoved > 0) {
+      lines.push("## Navigation Flows", "");
+      this.pushSection(lines, "Added", diff.flows.added.map((f) => this.describeFlow(f)));
+      this.pushSection(lines, "Removed", diff.flows.removed.map((f) => this.describeFlow(f)));
+    }
+
+    return lines.join("\n").trimEnd() + "\n";
+  }
+
+  private pushSection(lines: string[], title: string, items: string[]): void {
+    if (items.length === 0) return;
+    lines.push(`### ${title}`, "", ...items.map((item) => `- ${item}`), "");
+  }
+
+  private describeRoute(route: Route): string {
+    const details: string[] = [];
+    if (route.component) details.push(route.component);
+    if (route.redirectTo !== undefined) details.push(`redirects to \`${route.redirectTo}\``);
+    if (route.guards && route.guards.length > 0) {
+      details.push(`guards: ${route.guards.join(", ")}`);
+    }
+    return `\`${route.fullPath}\`${details.length > 0 ? ` (${details.join("; ")})` : ""}`;
+  }
+
+  private describeFieldChange(change: RouteFieldChange): string {
+    // Guard and resolver lists
+    if (Array.isArray(change.before) || Array.isArray(change.after)) {
+      const before = (change.before as string[]) ?? [];
+      const after = (change.after as string[]) ?? [];
+      const added = after.filter((guard) => !before.includes(guard));
+      const removed = before.filter((guard) => !after.includes(guard));
+      const parts: string[] = [];
+      if (added.length > 0) parts.push(`added ${added.map((g) => `\`${g}\``).join(", ")}`);
+      if (removed.length > 0) parts.push(`removed ${removed.map((g) => `\`${g}\``).join(", ")}`);
+      return `${change.field}: ${parts.join("; ")}`;
+    }
+    return `${change.field}: ${this.formatValue(change.before)} → ${this.formatValue(change.after)}`;
+  }
+
+  private describeFlow(change: FlowChange): string {
+    const { flow } = change;
+    const from = change.fromPath ? `${flow.from} (\`${change.fromPath}\`)` : flow.from;
+    const label = flow.label ? ` "${flow.label}"` : "";
+    const location = flow.source ? ` at ${flow.source.file}:${flow.source.line}` : "";
+    return `${from} → \`${flow.to}\` (${flow.type}${label})${location}`;
+  }
+
+  private formatValue(value?: string | string[]): string {
+    return value === undefined || value === "" ? "_none_" : `\`${value}\``;
+  }
+
+  private count(value: number, noun: string): string {
+    return `${value} ${noun}${value === 1 ? "" : "s"}`;
+  }
+}
@@ -0,0 +1,484 @@
+import {
+  IOutputGenerator,
+  OutputGenerationOptions,
+  GeneratedOutput,
+} from "../../core/output-generator.interface.js";
+import { AnalysisResult, FlowEdge, Route, RouteNode } from "../../core/types.js";
+import { GraphBuilder } from "../shared/graph-builder.js";
+import { GraphTheme } from "../shared/graph-theme.js";
+import * as fs from "fs";
+import * as path from "path";
+
+interface ViewerNode {
+  id: string;
+  label: string;
+  path: string;
+  component?: string;
+  x: number;
+  y: number;
+  fill: string;
+  fontColor: string;
+  route?: Partial<Route>;
+}
+
+interface ViewerEdge {
+  source: string;
+  target: string;
+  type: string;
+  label?: string;
+  color: string;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 56;
+const RANK_SPACING = 300;
+const NODE_SPACING = 90;
+
+export class HtmlGenerator implements IOutputGenerator {
+  private graphBuilder = new GraphBuilder();
+  private graphTheme = new GraphTheme();
+
+  getFormatName(): string {
+    return "html";
+  }
+
+  getFileExtension(): string {
+    return ".html";
+  }
+
+  getSupportedOptions(): string[] {
+    return [
+      "outputDirectory",
+      "filename",
+      "layout", // 'LR', 'TB', 'BT', 'RL'
+      "theme", // 'light', 'dark'
+      "title", // Page title
+    ];
+  }
+
+  validateOptions(options: OutputGenerationOptions): string[] {
+    const errors: string[] = [];
+
+    if (!options.outputDirectory) {
+      errors.push("outputDirectory is required");
+    } else if (!fs.existsSync(options.outputDirectory)) {
+      errors.push(`outputDirectory does not exist: ${options.outputDirectory}`);
+    }
+
+    if (options.layout && !["LR", "TB", "BT", "RL"].includes(options.layout)) {
+      errors.push("layout must be one of: LR, TB, BT, RL");
+    }
+
+    if (
+      options.theme &&
+      options.theme !== "" &&
+      !["light", "dark"].includes(options.theme)
+    ) {
+      errors.push("theme must be one of: light, dark");
+    }
+
+    return errors;
+  }
+
+  async generate(
+    analysisResult: AnalysisResult,
+    options: OutputGenerationOptions
+  ): Promise<GeneratedOutput> {
+    console.log("🌐 Starting HTML viewer generation...");
+
+    const defaultOptions = {
+      filename: "user-flows",
+      layout: "LR",
+      theme: "light",
+      title: "UserPravah - User Flows",
+      ...options,
+    };
+
+    const viewerData = this.createViewerData(analysisResult, defaultOptions);
+    const html = this.renderPage(viewerData, defaultOptions);
+
+    const filePath = path.join(
+      defaultOptions.outputDirectory,
+      `${defaultOptions.filename}${this.getFileExtension()}`
+    );
+    fs.writeFileSync(filePath, html, "utf-8");
+
+    console.log(`✅ HTML viewer generated: ${filePath}`);
+    return {
+      filePath,
+      format: this.getFormatName(),
+    };
+  }
+
+  private createViewerData(
+    analysisResult: AnalysisResult,
+    options: any
+  ): { nodes: ViewerNode[]; edges: ViewerEdge[] } {
+    const theme = options.theme || "light";
+    const graphData = this.graphBuilder.build(analysisResult);
+    const { routeNodes } = graphData;
+    const edges = this.graphBuilder.resolveEdges(graphData);
+    const routesByPath = this.indexRoutesByPath(analysisResult.routes);
+    const positions = this.computeLayout(routeNodes, edges, options.layout);
+
+    console.log(
+      `📊 Creating viewer with ${routeNodes.size} nodes and ${edges.length} edges`
+    );
+
+    const nodes: ViewerNode[] = [];
+    for (const [key, node] of routeNodes.entries()) {
+      const position = positions.get(key)!;
+      nodes.push({
+        id: key,
+        label: node.displayName,
+        path: key === "ROOT" ? "" : node.originalPath,
+        component: node.component,
+        x: position.x,
+        y: position.y,
+        fill:
+          key === "ROOT"
+            ? "#FF6B35"
+            : this.graphTheme.getNodeColor(node.category, node.importance, theme),
+        fontColor: this.graphTheme.getFontColor(theme),
+        route:
+          key === "ROOT"
+            ? undefined
+            : this.summarizeRoute(routesByPath.get(node.originalPath)),
+      });
+    }
+
+    return {
+      nodes,
+      edges: edges.map((edge) => ({
+        source: edge.source,
+        target: edge.target,
+        type: edge.type,
+        label: edge.label,
+        color:
+          this.graphTheme.getEdgeColor(edge.type, theme) ||
+          (theme === "dark" ? "#e2e8f0" : "#333333"),
+      })),
+    };
+  }
+
+  private indexRoutesByPath(routes: Route[]): Map<string, Route> {
+    const index = new Map<string, Route>();
+    const visit = (route: Route) => {
+      if (!index.has(route.fullPath)) {
+        index.set(route.fullPath, route);
+      }
+      route.children?.forEach(visit);
+    };
+    routes.forEach(visit);
+    return index;
+  }
+
+  private summarizeRoute(route?: Route): Partial<Route> | undefined {
+    if (!route) return undefined;
+    // Children are shown as their own nodes; keep the panel flat
+    const { children, ...fields } = route;
+    return fields;
+  }
+
+  /**
+   * Layered layout: nodes are ranked by their distance from the root and
+   * stacked within each rank, then rotated for the requested direction.
+   */
+  private computeLayout(
+    routeNodes: Map<string, RouteNode>,
+    edges: FlowEdge[],
+    layout: string = "LR"
+  ): Map<string, { x: number; y: number }> {
+    const ranks = new Map<string, number>();
+    const adjacency = new Map<string, string[]>();
+    for (const edge of edges) {
+      if (!adjacency.has(edge.source)) adjacency.set(edge.source, []);
+      adjacency.get(edge.source)!.push(edge.target);
+    }
+
+    // Breadth-first ranks from the root; unreachable nodes fall back to path depth
+    const queue: string[] = routeNodes.has("ROOT") ? ["ROOT"] : [];
+    if (queue.length > 0) ranks.set("ROOT", 0);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const next of adjacency.get(current) || []) {
+        if (!ranks.has(next)) {
+          ranks.set(next, ranks.get(current)! + 1);
+          queue.push(next);
+        }
+      }
+    }
+    for (const [key, node] of routeNodes.entries()) {
+      if (!ranks.has(key)) {
+        ranks.set(key, Math.max(1, node.pathDepth));
+      }
+    }
+
+    const byRank = new Map<number, string[]>();
+    for (const [key, rank] of ranks.entries()) {
+      if (!byRank.has(rank)) byRank.set(rank, []);
+      byRank.get(rank)!.push(key);
+    }
+
+    const positions = new Map<string, { x: number; y: number }>();
+    const maxRank = Math.max(...Array.from(byRank.keys()), 0);
+    for (const [rank, keys] of byRank.entries()) {
+      keys.sort((a, b) =>
+        routeNodes.get(a)!.originalPath.localeCompare(
+          routeNodes.get(b)!.originalPath
+        )
+      );
+      const vertical = layout === "TB" || layout === "BT";
+      // Vertical layouts stack nodes side by side, so space them by width
+      const spacing = vertical ? NODE_WIDTH + 40 : NODE_SPACING;
+      const rankSpacing = vertical ? NODE_HEIGHT * 3 : RANK_SPACING;
+      const offset = ((keys.length - 1) * spacing) / 2;
+      keys.forEach((key, index) => {
+        const along =
+          (layout === "BT" || layout === "RL" ? maxRank - rank : rank) *
+          rankSpacing;
+        const across = index * spacing - offset;
+        positions.set(
+          key,
+          vertical ? { x: across, y: along } : { x: along, y: across }
+        );
+      });
+    }
+
+    return positions;
+  }
+
+  private renderPage(
+    data: { nodes: ViewerNode[]; edges: ViewerEdge[] },
+    options: any
+  ): string {
+    const dark = options.theme === "dark";
+    // Escape "<" so route data can never close the inline script early
+    const json = JSON.stringify(data).replace(/</g, "\\u003c");
+    const title = this.escapeHtml(options.title);
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Arial, sans-serif; display: flex; height: 100vh; overflow: hidden;
+         background: ${dark ? "#2d3748" : "#ffffff"}; color: ${dark ? "#e2e8f0" : "#1f2937"}; }
+  #main { flex: 1; display: flex; flex-direction: column; min-width: 0; }
+  #toolbar { display: flex; gap: 8px; align-items: center; padding: 8px 12px;
+             border-bottom: 1px solid ${dark ? "#4a5568" : "#e5e7eb"}; }
+  #toolbar input { flex: 1; max-width: 360px; padding: 6px 8px; font-size: 14px; }
+  #toolbar button { padding: 6px 10px; cursor: pointer; }
+  #matches { font-size: 12px; opacity: 0.8; }
+  #canvas { flex: 1; cursor: grab; }
+  #canvas.panning { cursor: grabbing; }
+  #panel { width: 340px; overflow-y: auto; padding: 12px 16px; font-size: 13px;
+           border-left: 1px solid ${dark ? "#4a5568" : "#e5e7eb"}; }
+  #panel h2 { font-size: 16px; margin: 4px 0 12px; }
+  #panel h3 { font-size: 13px; margin: 14px 0 6px; text-transform: uppercase; opacity: 0.7; }
+  #panel pre { white-space: pre-wrap; word-break: break-word; margin: 0; font-size: 12px; }
+  #panel ul { margin: 0; padding-left: 18px; }
+  .node { cursor: pointer; }
+  .node rect { stroke: ${dark ? "#e2e8f0" : "#1f2937"}; stroke-width: 1.5; }
+  .node text { font-size: 12px; pointer-events: none; }
+  .dimmed { opacity: 0.12; }
+  .selected rect { stroke-width: 4; }
+  .match rect { stroke: #f59e0b; stroke-width: 4; }
+  .edge-label { font-size: 10px; fill: ${dark ? "#E5E7EB" : "#374151"}; }
+</style>
+</head>
+<body>
+<div id="main">
+  <div id="toolbar">
+    <input id="search" type="search" placeholder="Search route path or component...">
+    <span id="matches"></span>
+    <button id="reset">Reset view</button>
+  </div>
+  <svg id="canvas" xmlns="http://www.w3.org/2000/svg">
+    <defs>
+      <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+        <path d="M 0 0 L 10 5 L 0 10 z" fill="context-stroke"></path>
+      </marker>
+    </defs>
+    <g id="viewport"><g id="edges"></g><g id="nodes"></g></g>
+  </svg>
+</div>
+<aside id="panel"><h2>${title}</h2><p>Click a node to see its route details and highlight its incoming and outgoing flows.</p></aside>
+<script>
+const DATA = ${json};
+const NODE_WIDTH = ${NODE_WIDTH}, NODE_HEIGHT = ${NODE_HEIGHT};
+const SVG_NS = "http://www.w3.org/2000/svg";
+const svg = document.getElementById("canvas");
+const viewport = document.getElementById("viewport");
+const panel = document.getElementById("panel");
+const nodesById = new Map(DATA.nodes.map((n) => [n.id, n]));
+const nodeEls = new Map();
+const edgeEls = [];
+let view = { x: 0, y: 0, scale: 1 };
+let selected = null;
+
+function el(tag, attrs, parent) {
+  const e = document.createElementNS(SVG_NS, tag);
+  for (const k in attrs) e.setAttribute(k, attrs[k]);
+  if (parent) parent.appendChild(e);
+  return e;
+}
+
+// Point where the line between two node centres leaves the first node's box
+function boxEdge(from, to) {
+  const dx = to.x - from.x, dy = to.y - from.y;
+  if (!dx && !dy) return { x: from.x, y: from.y };
+  const t = Math.min((NODE_WIDTH / 2) / Math.abs(dx || 1e-9), (NODE_HEIGHT / 2) / Math.abs(dy || 1e-9));
+  return { x: from.x + dx * t, y: from.y + dy * t };
+}
+
+function escapeHtml(s) {
+  return String(s).replace(/[&<>"]/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" }[c]));
+}
+
+function render() {
+  const edgeLayer = document.getElementById("edges");
+  const nodeLayer = document.getElementById("nodes");
+  for (const edge of DATA.edges) {
+    const s = nodesById.get(edge.source), t = nodesById.get(edge.target);
+    if (!s || !t) continue;
+    const g = el("g", {}, edgeLayer);
+    const dash = edge.type === "redirect" ? "8 5" : edge.type === "hierarchy" ? "2 4" : "";
+    const start = boxEdge(s, t), end = boxEdge(t, s);
+    el("line", {
+      x1: start.x, y1: start.y, x2: end.x, y2: end.y,
+      stroke: edge.color, "stroke-width": edge.type === "hierarchy" ? 1.5 : 2.5,
+      "stroke-dasharray": dash, "marker-end": "url(#arrow)"
+    }, g);
+    if (edge.label) {
+      const label = el("text", { x: (s.x + t.x) / 2, y: (s.y + t.y) / 2 - 4, "text-anchor": "middle", class: "edge-label" }, g);
+      label.textContent = edge.label;
+    }
+    edgeEls.push({ edge, el: g });
+  }
+  for (const node of DATA.nodes) {
+    const g = el("g", { class: "node", transform: "translate(" + (node.x - NODE_WIDTH / 2) + "," + (node.y - NODE_HEIGHT / 2) + ")" }, nodeLayer);
+    el("rect", { width: NODE_WIDTH, height: NODE_HEIGHT, rx: node.id === "ROOT" ? 28 : 10, fill: node.fill }, g);
+    const name = el("text", { x: NODE_WIDTH / 2, y: node.path ? 23 : 33, "text-anchor": "middle", fill: node.fontColor, "font-weight": "bold" }, g);
+    name.textContent = node.label;
+    if (node.path) {
+      const p = el("text", { x: NODE_WIDTH / 2, y: 41, "text-anchor": "middle", fill: node.fontColor }, g);
+      p.textContent = node.path;
+    }
+    g.addEventListener("click", (e) => { e.stopPropagation(); select(node.id); });
+    nodeEls.set(node.id, g);
+  }
+}
+
+function applyView() {
+  viewport.setAttribute("transform", "translate(" + view.x + "," + view.y + ") scale(" + view.scale + ")");
+}
+
+function fit() {
+  const box = viewport.getBBox();
+  const rect = svg.getBoundingClientRect();
+  if (!box.width || !box.height) return;
+  view.scale = Math.min(rect.width / (box.width + 80), rect.height / (box.height + 80), 1.5);
+  view.x = (rect.width - box.width * view.scale) / 2 - box.x * view.scale;
+  view.y = (rect.height - box.height * view.scale) / 2 - box.y * view.scale;
+  applyView();
+}
+
+function centerOn(node) {
+  const rect = svg.getBoundingClientRect();
+  view.x = rect.width / 2 - node.x * view.scale;
+  view.y = rect.height / 2 - node.y * view.scale;
+  applyView();
+}
+
+function list(title, items) {
+  if (!items.length) return "";
+  return "<h3>" + title + "</h3><ul>" + items.map((i) => "<li>" + escapeHtml(i) + "</li>").join("") + "</ul>";
+}
+
+function showDetails(node) {
+  const route = node.route || {};
+  const incoming = DATA.edges.filter((e) => e.target === node.id).map((e) => e.type + " from " + (nodesById.get(e.source).path || "Root"));
+  const outgoing = DATA.edges.filter((e) => e.source === node.id).map((e) => e.type + " to " + nodesById.get(e.target).path);
+  let html = "<h2>" + escapeHtml(node.label) + "</h2>";
+  html += "<h3>Path</h3><pre>" + escapeHtml(node.path || "/") + "</pre>";
+  if (route.component) html += "<h3>Component</h3><pre>" + escapeHtml(route.component) + "</pre>";
+  if (route.source) html += "<h3>Declared In</h3><pre>" + escapeHtml(route.source.file + ":" + route.source.line + ":" + route.source.column) + "</pre>";
+  if (route.redirectTo) html += "<h3>Redirect To</h3><pre>" + escapeHtml(route.redirectTo) + "</pre>";
+  if (route.loadChildren) html += "<h3>Load Children</h3><pre>" + escapeHtml(route.loadChildren) + "</pre>";
+  if (route.errorElement) html += "<h3>Error Boundary</h3><pre>" + escapeHtml(route.errorElement) + "</pre>";
+  if (route.loading) html += "<h3>Loading</h3><pre>" + escapeHtml(route.loading) + "</pre>";
+  if (route.notFound) html += "<h3>Not Found</h3><pre>" + escapeHtml(route.notFound) + "</pre>";
+  if (route.outlet) html += "<h3>Outlet</h3><pre>" + escapeHtml(route.outlet) + "</pre>";
+  html += list("Data Functions", ["loader", "action"].filter((kind) => route[kind]).map((kind) => kind + ": " + route[kind].name));
+  html += list("Guards", route.guards || []);
+  if (route.data && Object.keys(route.data).length) html += "<h3>Data</h3><pre>" + escapeHtml(JSON.stringify(route.data, null, 2)) + "</pre>";
+  html += list("Incoming flows", incoming);
+  html += list("Outgoing flows", outgoing);
+  panel.innerHTML = html;
+}
+
+function select(id) {
+  selected = selected === id ? null : id;
+  const related = new Set(selected ? [selected] : []);
+  for (const { edge, el: e } of edgeEls) {
+    const touches = selected && (edge.source === selected || edge.target === selected);
+    if (touches) { related.add(edge.source); related.add(edge.target); }
+    e.classList.toggle("dimmed", !!selected && !touches);
+  }
+  for (const [nodeId, e] of nodeEls) {
+    e.classList.toggle("dimmed", !!selected && !related.has(nodeId));
+    e.classList.toggle("selected", nodeId === selected);
+  }
+  if (selected) showDetails(nodesById.get(selected));
+}
+
+function search(term) {
+  const q = term.trim().toLowerCase();
+  let first = null, count = 0;
+  for (const node of DATA.nodes) {
+    const hit = !!q && (node.path.toLowerCase().includes(q) || (node.component || "").toLowerCase().includes(q) || node.label.toLowerCase().includes(q));
+    nodeEls.get(node.id).classList.toggle("match", hit);
+    if (hit) { count++; if (!first) first = node; }
+  }
+  document.getElementById("matches").textContent = q ? count + " match" + (count === 1 ? "" : "es") : "";
+  if (first) centerOn(first);
+}
+
+let drag = null;
+svg.addEventListener("mousedown", (e) => { drag = { x: e.clientX - view.x, y: e.clientY - view.y }; svg.classList.add("panning"); });
+window.addEventListener("mousemove", (e) => { if (drag) { view.x = e.clientX - drag.x; view.y = e.clientY - drag.y; applyView(); } });
+window.addEventListener("mouseup", () => { drag = null; svg.classList.remove("panning"); });
+svg.addEventListener("click", () => { if (selected) select(selected); });
+svg.addEventListener("wheel", (e) => {
+  e.preventDefault();
+  const rect = svg.getBoundingClientRect();
+  const mx = e.clientX - rect.left, my = e.clientY - rect.top;
+  const factor = e.deltaY < 0 ? 1.1 : 1 / 1.1;
+  const scale = Math.min(4, Math.max(0.1, view.scale * factor));
+  view.x = mx - (mx - view.x) * (scale / view.scale);
+  view.y = my - (my - view.y) * (scale / view.scale);
+  view.scale = scale;
+  applyView();
+}, { passive: false });
+document.getElementById("search").addEventListener("input", (e) => search(e.target.value));
+document.getElementById("reset").addEventListener("click", fit);
+
+render();
+fit();
+</script>
+</body>
+</html>
+`;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
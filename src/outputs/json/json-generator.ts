@@ -3,7 +3,7 @@ import {
   OutputGenerationOptions,
   GeneratedOutput,
 } from "../../core/output-generator.interface.js";
-import { AnalysisResult } from "../../core/types.js";
+import { AnalysisResult, BrokenLink } from "../../core/types.js";
 import * as fs from "fs";
 import * as path from "path";
 
@@ -23,6 +23,7 @@ export class JsonGenerator implements IOutputGenerator {
       "pretty", // Pretty print JSON
       "includeMetadata", // Include analysis metadata
       "separateFiles", // Generate separate files for routes, flows, and menus
+      "showMissing", // List broken link targets as missing routes
     ];
   }
 
@@ -86,7 +87,14 @@ export class JsonGenerator implements IOutputGenerator {
       routes: analysisResult.routes,
       flows: analysisResult.flows,
       menus: analysisResult.menus,
+      brokenLinks: analysisResult.brokenLinks ?? [],
     };
+    if (analysisResult.apiRoutes?.length) {
+      outputData.apiRoutes = analysisResult.apiRoutes;
+    }
+    if (options.showMissing) {
+      outputData.missingRoutes = this.getMissingRoutes(outputData.brokenLinks);
+    }
 
     if (options.includeMetadata) {
       outputData.metadata = {
@@ -96,6 +104,8 @@ export class JsonGenerator implements IOutputGenerator {
           totalRoutes: analysisResult.routes.length,
           totalFlows: analysisResult.flows.length,
           totalMenus: analysisResult.menus.length,
+          totalApiRoutes: analysisResult.apiRoutes?.length ?? 0,
+          totalBrokenLinks: outputData.brokenLinks.length,
           routesByType: this.categorizeRoutes(analysisResult.routes),
           flowsByType: this.categorizeFlows(analysisResult.flows),
         },
@@ -190,6 +200,57 @@ export class JsonGenerator implements IOutputGenerator {
       files.push(menusFile);
     }
 
+    // API routes file (if any)
+    const apiRoutes = analysisResult.apiRoutes ?? [];
+    if (apiRoutes.length > 0) {
+      const apiRoutesFile = path.join(baseDir, `${baseName}-api-routes.json`);
+      const apiRoutesData = {
+        apiRoutes,
+        metadata: options.includeMetadata
+          ? {
+              generatedAt: new Date().toISOString(),
+              type: "apiRoutes",
+              count: apiRoutes.length,
+            }
+          : undefined,
+      };
+      fs.writeFileSync(
+        apiRoutesFile,
+        options.pretty
+          ? JSON.stringify(apiRoutesData, null, 2)
+          : JSON.stringify(apiRoutesData),
+        "utf-8"
+      );
+      files.push(apiRoutesFile);
+    }
+
+    // Broken links file (if any)
+    const brokenLinks = analysisResult.brokenLinks ?? [];
+    if (brokenLinks.length > 0) {
+      const brokenLinksFile = path.join(baseDir, `${baseName}-broken-links.json`);
+      const brokenLinksData = {
+        brokenLinks,
+        ...(options.showMissing
+          ? { missingRoutes: this.getMissingRoutes(brokenLinks) }
+          : {}),
+        metadata: options.includeMetadata
+          ? {
+              generatedAt: new Date().toISOString(),
+              type: "brokenLinks",
+              count: brokenLinks.length,
+            }
+          : undefined,
+      };
+      fs.writeFileSync(
+        brokenLinksFile,
+        options.pretty
+          ? JSON.stringify(brokenLinksData, null, 2)
+          : JSON.stringify(brokenLinksData),
+        "utf-8"
+      );
+      files.push(brokenLinksFile);
+    }
+
     // Summary file
     if (options.includeMetadata) {
       const summaryFile = path.join(baseDir, `${baseName}-summary.json`);
@@ -200,6 +261,8 @@ export class JsonGenerator implements IOutputGenerator {
           totalRoutes: analysisResult.routes.length,
           totalFlows: analysisResult.flows.length,
           totalMenus: analysisResult.menus.length,
+          totalApiRoutes: apiRoutes.length,
+          totalBrokenLinks: brokenLinks.length,
           files: files.map((f) => path.basename(f)),
           routesByType: this.categorizeRoutes(analysisResult.routes),
           flowsByType: this.categorizeFlows(analysisResult.flows),
@@ -218,6 +281,22 @@ export class JsonGenerator implements IOutputGenerator {
     return files;
   }
 
+  // One entry per missing path with every component linking to it
+  private getMissingRoutes(brokenLinks: BrokenLink[]) {
+    const missing = new Map<string, Set<string>>();
+    for (const link of brokenLinks) {
+      if (!missing.has(link.path)) {
+        missing.set(link.path, new Set());
+      }
+      missing.get(link.path)!.add(link.from);
+    }
+    return Array.from(missing.entries()).map(([missingPath, sources]) => ({
+      path: missingPath,
+      status: "missing",
+      linkedFrom: Array.from(sources),
+    }));
+  }
+
   private categorizeRoutes(routes: any[]): Record<string, number> {
     const categories: Record<string, number> = {
       withComponent: 0,
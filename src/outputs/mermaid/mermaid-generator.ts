@@ -0,0 +1,180 @@
+import {
+  IOutputGenerator,
+  OutputGenerationOptions,
+  GeneratedOutput,
+} from "../../core/output-generator.interface.js";
+import { AnalysisResult, FlowEdge, RouteNode } from "../../core/types.js";
+import { GraphBuilder } from "../shared/graph-builder.js";
+import { GraphTheme } from "../shared/graph-theme.js";
+import * as fs from "fs";
+import * as path from "path";
+
+export class MermaidGenerator implements IOutputGenerator {
+  private graphBuilder = new GraphBuilder();
+  private graphTheme = new GraphTheme();
+
+  getFormatName(): string {
+    return "mermaid";
+  }
+
+  getFileExtension(): string {
+    return ".mmd";
+  }
+
+  getSupportedOptions(): string[] {
+    return [
+      "outputDirectory",
+      "filename",
+      "layout", // 'LR', 'TB', 'BT', 'RL'
+      "theme", // 'light', 'dark'
+      "markdown", // Wrap the flowchart in a ```mermaid fenced block (.md)
+    ];
+  }
+
+  validateOptions(options: OutputGenerationOptions): string[] {
+    const errors: string[] = [];
+
+    if (!options.outputDirectory) {
+      errors.push("outputDirectory is required");
+    } else if (!fs.existsSync(options.outputDirectory)) {
+      errors.push(`outputDirectory does not exist: ${options.outputDirectory}`);
+    }
+
+    if (options.layout && !["LR", "TB", "BT", "RL"].includes(options.layout)) {
+      errors.push("layout must be one of: LR, TB, BT, RL");
+    }
+
+    if (
+      options.theme &&
+      options.theme !== "" &&
+      !["light", "dark"].includes(options.theme)
+    ) {
+      errors.push("theme must be one of: light, dark");
+    }
+
+    return errors;
+  }
+
+  async generate(
+    analysisResult: AnalysisResult,
+    options: OutputGenerationOptions
+  ): Promise<GeneratedOutput> {
+    console.log("🧜 Starting Mermaid flowchart generation...");
+
+    const defaultOptions = {
+      filename: "user-flows",
+      layout: "LR",
+      theme: "light",
+      markdown: false,
+      ...options,
+    };
+
+    const flowchart = this.createFlowchart(analysisResult, defaultOptions);
+    const content = defaultOptions.markdown
+      ? `# User Flows\n\n\`\`\`mermaid\n${flowchart}\`\`\`\n`
+      : flowchart;
+
+    const filePath = path.join(
+      defaultOptions.outputDirectory,
+      `${defaultOptions.filename}${
+        defaultOptions.markdown ? ".md" : this.getFileExtension()
+      }`
+    );
+    fs.writeFileSync(filePath, content, "utf-8");
+
+    console.log(`✅ Mermaid file generated: ${filePath}`);
+    return {
+      filePath,
+      format: this.getFormatName(),
+    };
+  }
+
+  private createFlowchart(analysisResult: AnalysisResult, options: any): string {
+    const theme = options.theme || "light";
+    const graphData = this.graphBuilder.build(analysisResult);
+    const { routeNodes } = graphData;
+    const edges = this.graphBuilder.resolveEdges(graphData);
+
+    console.log(
+      `📊 Creating flowchart with ${routeNodes.size} nodes and ${edges.length} edges`
+    );
+
+    const lines: string[] = [];
+    if (theme === "dark") {
+      lines.push(`%%{init: {"theme": "dark"}}%%`);
+    }
+    lines.push(`flowchart ${options.layout || "LR"}`);
+
+    // Mermaid ids must be plain identifiers, so map every node key to nN
+    const mermaidIds = new Map<string, string>();
+    for (const key of routeNodes.keys()) {
+      mermaidIds.set(key, `n${mermaidIds.size}`);
+    }
+
+    const styleLines: string[] = [];
+    for (const [key, node] of routeNodes.entries()) {
+      const id = mermaidIds.get(key)!;
+      lines.push(`  ${id}${this.getNodeShape(key, node)}`);
+
+      const fill =
+        key === "ROOT"
+          ? "#FF6B35"
+          : this.graphTheme.getNodeColor(node.category, node.importance, theme);
+      styleLines.push(
+        `  style ${id} fill:${fill},color:${this.graphTheme.getFontColor(
+          theme
+        )}`
+      );
+    }
+
+    const linkStyleLines: string[] = [];
+    edges.forEach((edge, index) => {
+      const source = mermaidIds.get(edge.source)!;
+      const target = mermaidIds.get(edge.target)!;
+      const label = edge.label ? `|"${this.escapeText(edge.label)}"|` : "";
+      lines.push(`  ${source} ${this.getArrow(edge)}${label} ${target}`);
+      linkStyleLines.push(
+        `  linkStyle ${index} ${this.getLinkStyle(edge, theme)}`
+      );
+    });
+
+    return [...lines, ...styleLines, ...linkStyleLines].join("\n") + "\n";
+  }
+
+  private getNodeShape(key: string, node: RouteNode): string {
+    if (key === "ROOT") {
+      return `(["${this.escapeText(node.displayName)}"])`;
+    }
+    return `["${this.escapeText(node.displayName)}<br/>(${this.escapeText(
+      node.originalPath
+    )})"]`;
+  }
+
+  private getArrow(edge: FlowEdge): string {
+    // Redirects and hierarchy links are drawn dashed, like in the DOT output
+    if (edge.type === "redirect" || edge.type === "hierarchy") {
+      return "-.->";
+    }
+    return "-->";
+  }
+
+  private getLinkStyle(edge: FlowEdge, theme: string): string {
+    const color =
+      this.graphTheme.getEdgeColor(edge.type, theme) ||
+      (theme === "dark" ? "#e2e8f0" : "#333333");
+    const width = edge.type === "hierarchy" ? 1.5 : 2.5;
+    const styles = [`stroke:${color}`, `stroke-width:${width}px`];
+    if (edge.type === "hierarchy") {
+      styles.push("stroke-dasharray:2 4");
+    }
+    return styles.join(",");
+  }
+
+  private escapeText(text: string): string {
+    // Mermaid uses HTML entity codes for characters that break its syntax
+    return text
+      .replace(/"/g, "#quot;")
+      .replace(/</g, "#lt;")
+      .replace(/>/g, "#gt;");
+  }
+}
@@ -0,0 +1,86 @@
+import { MonorepoProjectResult } from "../../core/types.js";
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Writes index.json and index.md listing every project analyzed in monorepo
+ * mode, with links to each project's generated outputs
+ */
+export class MonorepoIndexGenerator {
+  generate(
+    projects: MonorepoProjectResult[],
+    rootPath: string,
+    outputDirectory: string
+  ): string[] {
+    console.log("🗂️  Writing monorepo index...");
+
+    const entries = projects.map((project) => ({
+      name: project.name,
+      framework: project.framework,
+      path: this.toPosix(path.relative(rootPath, project.path)) || ".",
+      routes: project.analysis?.routes.length ?? 0,
+      flows: project.analysis?.flows.length ?? 0,
+      menus: project.analysis?.menus.length ?? 0,
+      outputs: project.outputs.flatMap((output) =>
+        [output.filePath, ...(output.additionalFiles ?? [])].map((file) =>
+          this.toPosix(path.relative(outputDirectory, file))
+        )
+      ),
+      ...(project.error ? { error: project.error } : {}),
+    }));
+
+    const jsonPath = path.join(outputDirectory, "index.json");
+    fs.writeFileSync(
+      jsonPath,
+      JSON.stringify(
+        {
+          metadata: {
+            generatedAt: new Date().toISOString(),
+            root: path.resolve(rootPath),
+            totalProjects: entries.length,
+            failedProjects: entries.filter((entry) => entry.error).length,
+          },
+          projects: entries,
+        },
+        null,
+        2
+      ),
+      "utf-8"
+    );
+
+    const lines = [
+      "# User Flows",
+      "",
+      `${entries.length} projects analyzed in \`${path.basename(
+        path.resolve(rootPath)
+      )}\`.`,
+      "",
+      "| Project | Framework | Path | Routes | Flows | Menus | Outputs |",
+      "| --- | --- | --- | ---: | ---: | ---: | --- |",
+    ];
+    for (const entry of entries) {
+      const outputs = entry.error
+        ? `❌ ${this.escapeCell(entry.error)}`
+        : entry.outputs
+            .map((file) => `[${path.extname(file).slice(1)}](${encodeURI(file)})`)
+            .join(", ");
+      lines.push(
+        `| ${this.escapeCell(entry.name)} | ${entry.framework} | \`${entry.path}\` | ${entry.routes} | ${entry.flows} | ${entry.menus} | ${outputs} |`
+      );
+    }
+
+    const markdownPath = path.join(outputDirectory, "index.md");
+    fs.writeFileSync(markdownPath, lines.join("\n") + "\n", "utf-8");
+
+    console.log(`✅ Monorepo index generated: ${jsonPath}, ${markdownPath}`);
+    return [jsonPath, markdownPath];
+  }
+
+  private toPosix(filePath: string): string {
+    return filePath.split(path.sep).join("/");
+  }
+
+  private escapeCell(text: string): string {
+    return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+  }
+}
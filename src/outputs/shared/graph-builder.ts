@@ -0,0 +1,545 @@
+import { AnalysisResult, Route, RouteNode, FlowEdge } from "../../core/types.js";
+import * as path from "path";
+
+export interface GraphData {
+  routeNodes: Map<string, RouteNode>;
+  flowEdges: FlowEdge[];
+}
+
+export interface GraphBuildOptions {
+  showMissing?: boolean; // Add a node for every broken link target
+}
+
+/**
+ * Builds the renderer-agnostic node/edge model shared by the graph output
+ * generators (DOT, Mermaid, ...).
+ */
+export class GraphBuilder {
+  /**
+   * Convert analysis results into route nodes and flow edges
+   */
+  build(
+    analysisResult: AnalysisResult,
+    options: GraphBuildOptions = {}
+  ): GraphData {
+    const routeNodes = new Map<string, RouteNode>();
+    const flowEdges: FlowEdge[] = [];
+    const outletNodeIds = new Set<string>();
+
+    // Graph data structure to properly model the routing hierarchy
+    class RouteGraph {
+      private nodes = new Map<string, {
+        route: any;
+        nodeId: string;
+        children: Set<string>;
+        parent?: string;
+        isLayoutComponent: boolean;
+        isTopLevel: boolean;
+      }>();
+
+      addRoute(route: any, parentId?: string) {
+        if (!route.fullPath || route.fullPath.includes("**")) return;
+
+        const isLayoutComponent = !!(route.component && route.children && route.children.length > 0);
+        const isTopLevel = !parentId && route.fullPath !== "/";
+        
+        // Create unique node ID
+        let nodeId: string;
+        if (isLayoutComponent) {
+          nodeId = `layout_${route.component}_${route.fullPath}`;
+        } else if (route.outlet || route.data?.interceptedFrom) {
+          // Named outlets (parallel route slots) and intercepting routes
+          // render their own component at a path that may have a page
+          nodeId = `${route.fullPath}@${route.outlet ?? route.component}`;
+          outletNodeIds.add(nodeId);
+        } else {
+          nodeId = route.fullPath;
+        }
+
+        // Add node to graph
+        this.nodes.set(nodeId, {
+          route,
+          nodeId,
+          children: new Set(),
+          parent: parentId,
+          isLayoutComponent,
+          isTopLevel
+        });
+
+        // Add to parent's children if parent exists
+        if (parentId && this.nodes.has(parentId)) {
+          this.nodes.get(parentId)!.children.add(nodeId);
+        }
+
+        // Process children recursively
+        if (route.children && Array.isArray(route.children)) {
+          for (const childRoute of route.children) {
+            // Skip redirect-only routes as children of layout components
+            if (childRoute.redirectTo && !childRoute.component && isLayoutComponent) {
+              continue;
+            }
+            this.addRoute(childRoute, nodeId);
+          }
+        }
+
+        return nodeId;
+      }
+
+      getNodes() {
+        return this.nodes;
+      }
+
+      // Get the proper hierarchy edges with root connections
+      getHierarchyEdges(): Array<{source: string, target: string}> {
+        const edges: Array<{source: string, target: string}> = [];
+        
+        // Add edges from parent to children
+        for (const [nodeId, node] of this.nodes) {
+          if (node.parent) {
+            edges.push({
+              source: node.parent,
+              target: nodeId
+            });
+          }
+        }
+        
+        // Connect top-level routes to root
+        const rootNodeId = "ROOT";
+        for (const [nodeId, node] of this.nodes) {
+          if (node.isTopLevel || (node.route.fullPath === "/" && node.isLayoutComponent)) {
+            edges.push({
+              source: rootNodeId,
+              target: nodeId
+            });
+          }
+        }
+        
+        return edges;
+      }
+
+      // Check if we need a root node
+      needsRootNode(): boolean {
+        return true; // Always create a root for better organization
+      }
+    }
+
+    // Build the route graph
+    const routeGraph = new RouteGraph();
+    
+    // Process all routes and build the graph structure
+    for (const route of analysisResult.routes) {
+      routeGraph.addRoute(route);
+    }
+
+    // Add root node if needed
+    if (routeGraph.needsRootNode()) {
+      routeNodes.set("ROOT", {
+        id: "root",
+        originalPath: "ROOT",
+        displayName: "Root",
+        pathDepth: 0,
+        category: "root",
+        importance: 0,
+      });
+    }
+
+    // Convert graph nodes to RouteNode format
+    for (const [nodeId, graphNode] of routeGraph.getNodes()) {
+      const route = graphNode.route;
+      const cleanPath = this.cleanRoutePath(route.fullPath);
+      const pathDepth = route.fullPath.split("/").filter(Boolean).length;
+      const category = this.getNodeCategory(route.fullPath);
+
+      let displayName = "";
+      let visualNodeId =
+        nodeId === route.fullPath ? cleanPath : this.cleanRoutePath(nodeId);
+
+      if (graphNode.isLayoutComponent) {
+        // Layout component
+        displayName = route.component.replace(/Component$/, "");
+        displayName = displayName
+          .replace(/([A-Z])/g, " $1")
+          .replace(/^./, (str) => str.toUpperCase())
+          .trim();
+        visualNodeId = `layout_${route.component}`;
+      } else if (route.fullPath === "/" && !route.component) {
+        displayName = "Root";
+      } else if (route.component) {
+        displayName = route.component.replace(/Component$/, "");
+        displayName = displayName
+          .replace(/([A-Z])/g, " $1")
+          .replace(/^./, (str) => str.toUpperCase())
+          .trim();
+      } else {
+        const lastSegment = route.fullPath.split("/").filter(Boolean).pop() || "";
+        displayName = this.deriveDisplayName(lastSegment);
+      }
+
+      routeNodes.set(nodeId, {
+        id: visualNodeId,
+        originalPath: route.fullPath,
+        displayName,
+        pathDepth,
+        category,
+        component: route.component,
+        importance: 0,
+        guards: route.guards,
+        guardSummary: this.describeGuards(route),
+      });
+
+      // Add redirects to edges
+      if (route.redirectTo) {
+        let targetPath = route.redirectTo;
+        if (!targetPath.startsWith("/")) {
+          const parentDir =
+            route.fullPath.substring(0, route.fullPath.lastIndexOf("/") + 1) ||
+            "/";
+          targetPath = path.posix
+            .resolve(parentDir, targetPath)
+            .replace(/\\/g, "/");
+        }
+
+        targetPath = targetPath.replace(/\/\//g, "/");
+        if (targetPath !== "/" && targetPath.endsWith("/")) {
+          targetPath = targetPath.slice(0, -1);
+        }
+
+        // Find target node by path
+        let targetNodeId: string | undefined;
+        for (const [id, node] of routeNodes.entries()) {
+          if (node.originalPath === targetPath) {
+            targetNodeId = id;
+            break;
+          }
+        }
+
+        if (targetNodeId) {
+          flowEdges.push({
+            source: nodeId,
+            target: targetNodeId,
+            type: "redirect",
+          });
+        }
+      }
+    }
+
+    // Add hierarchy edges from the graph structure
+    const hierarchyEdges = routeGraph.getHierarchyEdges();
+    for (const edge of hierarchyEdges) {
+      flowEdges.push({
+        source: edge.source,
+        target: edge.target,
+        type: "hierarchy",
+      });
+    }
+
+    // Add navigation flows - Enhanced for React support
+    const componentToNodeId = new Map<string, string>();
+    const pathToNodeId = new Map<string, string>();
+    
+    // Build comprehensive mapping for both components and paths
+    for (const [nodeId, node] of routeNodes.entries()) {
+      // Map by path, keeping the page over slots and intercepting routes
+      if (
+        !pathToNodeId.has(node.originalPath) ||
+        nodeId === node.originalPath
+      ) {
+        pathToNodeId.set(node.originalPath, nodeId);
+      }
+      
+      // Map by component name (for Angular-style)
+      if (node.component) {
+        componentToNodeId.set(node.component, nodeId);
+        const baseName = node.component.replace(/Component$/, "");
+        if (baseName !== node.component) {
+          componentToNodeId.set(baseName, nodeId);
+        }
+      }
+      
+      // Map by display name (for React-style)
+      if (node.displayName && node.displayName !== "Root") {
+        componentToNodeId.set(node.displayName, nodeId);
+        // Also try without spaces
+        const noSpaces = node.displayName.replace(/\s+/g, "");
+        if (noSpaces !== node.displayName) {
+          componentToNodeId.set(noSpaces, nodeId);
+        }
+      }
+    }
+
+    // Build reverse mapping: component name -> route path (for React)
+    // This maps React component names to the routes where they are used
+    for (const route of analysisResult.routes) {
+      if (route.component && route.fullPath) {
+        const nodeId = pathToNodeId.get(route.fullPath);
+        if (nodeId) {
+          componentToNodeId.set(route.component, nodeId);
+          // Also map without Component suffix
+          const baseName = route.component.replace(/Component$/, "");
+          if (baseName !== route.component) {
+            componentToNodeId.set(baseName, nodeId);
+          }
+        }
+      }
+    }
+
+    console.log(`📊 Component mappings: ${componentToNodeId.size}, Path mappings: ${pathToNodeId.size}`);
+
+    // Broken links are reported on their own; keyed by source and target
+    const brokenLinks = new Map(
+      (analysisResult.brokenLinks ?? []).map((link) => [
+        `${link.from}\u0000${link.to}`,
+        link,
+      ])
+    );
+
+    for (const flow of analysisResult.flows) {
+      if (!flow.from || !flow.to) continue;
+
+      // Find source node - try multiple strategies
+      let sourceNodeId = componentToNodeId.get(flow.from);
+      if (!sourceNodeId) {
+        // Try with Component suffix
+        const withComponent = flow.from + "Component";
+        sourceNodeId = componentToNodeId.get(withComponent);
+      }
+      if (!sourceNodeId) {
+        // Try as path
+        sourceNodeId = pathToNodeId.get(flow.from);
+      }
+      if (!sourceNodeId) {
+        // Try to find by partial match
+        for (const [component, nodeId] of componentToNodeId.entries()) {
+          if (component.toLowerCase().includes(flow.from.toLowerCase()) || 
+              flow.from.toLowerCase().includes(component.toLowerCase())) {
+            sourceNodeId = nodeId;
+            break;
+          }
+        }
+      }
+
+      // Find target node - normalize target path
+      let targetPath = flow.to;
+      
+      // Handle template literals and dynamic paths
+      if (targetPath.includes("`") || targetPath.includes("${")) {
+        // Extract the base path from template literals
+        targetPath = targetPath.replace(/`([^`]*)`/, "$1");
+        targetPath = targetPath.replace(/\$\{[^}]+\}/g, ":param");
+      }
+      
+      if (!targetPath.startsWith("/")) {
+        if (sourceNodeId) {
+          const sourceNode = routeNodes.get(sourceNodeId);
+          if (sourceNode) {
+            const parentDir =
+              sourceNode.originalPath.substring(0, sourceNode.originalPath.lastIndexOf("/") + 1) || "/";
+            targetPath = path.posix
+              .resolve(parentDir, targetPath)
+              .replace(/\\/g, "/");
+          }
+        } else {
+          targetPath = "/" + targetPath;
+        }
+      }
+
+      targetPath = targetPath.replace(/\/\//g, "/");
+      if (targetPath !== "/" && targetPath.endsWith("/")) {
+        targetPath = targetPath.slice(0, -1);
+      }
+
+      // Find target node by path
+      let targetNodeId = pathToNodeId.get(targetPath);
+      
+      // If not found, try pattern matching for parameterized routes,
+      // preferring pages over the slots and intercepting routes beside them
+      if (!targetNodeId) {
+        let outletNodeId: string | undefined;
+        for (const [nodeId, node] of routeNodes.entries()) {
+          if (node.isMissing) continue;
+          const matches =
+            node.originalPath === targetPath ||
+            this.toPathPattern(node.originalPath).test(targetPath);
+          if (!matches) continue;
+          if (!outletNodeIds.has(nodeId)) {
+            targetNodeId = nodeId;
+            break;
+          }
+          outletNodeId ??= nodeId;
+        }
+        targetNodeId ??= outletNodeId;
+      }
+
+      // Links into protected routes carry the guards they have to pass
+      let edgeLabel: string | undefined = undefined;
+      if ((flow.type === "dynamic" || flow.type === "static") && targetNodeId) {
+        edgeLabel = routeNodes.get(targetNodeId)?.guardSummary;
+      }
+
+      const brokenLink = targetNodeId
+        ? undefined
+        : brokenLinks.get(`${flow.from}\u0000${flow.to}`);
+
+      if (sourceNodeId && targetNodeId) {
+        flowEdges.push({
+          source: sourceNodeId,
+          target: targetNodeId,
+          type: flow.type,
+          label: edgeLabel,
+        });
+      } else if (brokenLink) {
+        if (options.showMissing) {
+          // Links from shell components hang off the root node
+          flowEdges.push({
+            source: sourceNodeId ?? "ROOT",
+            target: this.addMissingNode(routeNodes, brokenLink.path),
+            type: flow.type,
+          });
+        }
+      } else {
+        console.log(`⚠️ Could not map flow: ${flow.from} -> ${flow.to} (source: ${!!sourceNodeId}, target: ${!!targetNodeId})`);
+      }
+    }
+
+    return { routeNodes, flowEdges };
+  }
+
+  /**
+   * Resolve edge targets against the route nodes (redirect targets by path,
+   * parameterized routes by pattern) and drop duplicate edges. The returned
+   * edges reference routeNodes keys for both source and target.
+   */
+  resolveEdges(graphData: GraphData): FlowEdge[] {
+    const { routeNodes, flowEdges } = graphData;
+    const resolvedEdges: FlowEdge[] = [];
+    const existingEdges = new Set<string>();
+
+    for (const edge of flowEdges) {
+      const sourceNode = routeNodes.get(edge.source);
+      let targetNode = routeNodes.get(edge.target);
+
+      // If target is not found by key, try to find by path (for redirects)
+      if (!targetNode && edge.type === "redirect") {
+        for (const [key, node] of routeNodes.entries()) {
+          if (node.originalPath === edge.target) {
+            targetNode = node;
+            edge.target = key; // Update to use the key
+            break;
+          }
+        }
+      }
+
+      // Handle parameterized routes
+      if (!targetNode && edge.target) {
+        for (const [key, rn] of routeNodes.entries()) {
+          const regex = this.toPathPattern(rn.originalPath);
+          if (regex.test(edge.target)) {
+            targetNode = rn;
+            edge.target = key; // Update to use the key
+            break;
+          }
+        }
+      }
+
+      if (sourceNode && targetNode) {
+        const edgeKey = `${sourceNode.id}->${targetNode.id}->${
+          edge.type
+        }${edge.label ? "->" + edge.label : ""}`;
+        if (!existingEdges.has(edgeKey)) {
+          resolvedEdges.push(edge);
+          existingEdges.add(edgeKey);
+        }
+      }
+    }
+
+    return resolvedEdges;
+  }
+
+  /**
+   * One-line summary of a route's guards and resolvers, e.g.
+   * "canActivate: AuthGuard; canMatch: hasRole('admin'); resolve: user"
+   */
+  private describeGuards(route: Route): string | undefined {
+    if (!route.guardDetails && !route.resolve) {
+      return route.guards && route.guards.length > 0
+        ? route.guards.join(", ")
+        : undefined;
+    }
+
+    const parts = Object.entries(route.guardDetails ?? {}).map(
+      ([guardType, guards]) =>
+        `${guardType}: ${guards
+          .map((guard) =>
+            guard.kind === "factory" && guard.expression ? guard.expression : guard.name
+          )
+          .join(", ")}`
+    );
+    if (route.resolve) {
+      parts.push(`resolve: ${Object.keys(route.resolve).join(", ")}`);
+    }
+    return parts.join("; ");
+  }
+
+  private addMissingNode(
+    routeNodes: Map<string, RouteNode>,
+    missingPath: string
+  ): string {
+    const nodeId = `MISSING:${missingPath}`;
+    if (!routeNodes.has(nodeId)) {
+      routeNodes.set(nodeId, {
+        id: `missing_${this.cleanRoutePath(missingPath)}`,
+        originalPath: missingPath,
+        displayName: "Missing",
+        pathDepth: missingPath.split("/").filter(Boolean).length,
+        category: "missing",
+        importance: 0,
+        isMissing: true,
+      });
+    }
+    return nodeId;
+  }
+
+  private toPathPattern(routePath: string): RegExp {
+    const patternText = routePath
+      .split(/(\/:\w+[?*]$|:[^/]+)/)
+      .map((part) => {
+        // Optional segments (/:page?) may be omitted
+        if (/^\/:\w+\?$/.test(part)) return "(?:/[^/]+)?";
+        // Catch-all segments (/:slug*) match any number of segments
+        if (/^\/:\w+\*$/.test(part)) return "(?:/.+)?";
+        if (part.startsWith(":")) return "[^/]+";
+        // Static text, e.g. /v1.0 or /c++, matches literally
+        return this.escape(part);
+      })
+      .join("");
+    return new RegExp(`^${patternText}$`);
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  }
+
+  private cleanRoutePath(path: string): string {
+    return path.replace(/:[^\/]+/g, (match) => match.substring(1));
+  }
+
+  private getNodeCategory(path: string): string {
+    const segments = path.split("/").filter(Boolean);
+    if (segments.length === 0) return "root";
+    return segments[0].toLowerCase();
+  }
+
+  private deriveDisplayName(routePathSegment: string): string {
+    if (
+      !routePathSegment ||
+      routePathSegment === "/" ||
+      routePathSegment === ""
+    )
+      return "Segment";
+    return routePathSegment
+      .replace(/^[:*]/, "") // Remove starting : or *
+      .split(/[-_]/) // Split by dash or underscore
+      .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+      .join(" ");
+  }
+}
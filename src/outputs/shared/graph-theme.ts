@@ -0,0 +1,78 @@
+/**
+ * Colour palette shared by the graph output generators so that every format
+ * renders nodes and edge types the same way.
+ */
+export class GraphTheme {
+  getNodeColor(
+    category: string,
+    importance: number,
+    theme: string
+  ): string {
+    // Special color for root - this is universal
+    if (category === "root") return "#FF6B35"; // Vibrant orange for root
+    if (category === "missing") return "#E53E3E"; // Red for broken link targets
+    
+    // Generate vibrant colors based on category hash - completely generic
+    switch (theme) {
+      case "dark":
+        return this.generateVibrantColor(category, true);
+      case "light":
+        return this.generateVibrantColor(category, false);
+      default:
+        return this.generateVibrantColor(category, false);
+    }
+  }
+
+  private generateVibrantColor(str: string, dark: boolean = false): string {
+    let hash = 0;
+    for (let i = 0; i < str.length; i++) {
+      hash = str.charCodeAt(i) + ((hash << 5) - hash);
+    }
+
+    // Generate more vibrant colors using HSL for better control
+    const hue = Math.abs(hash) % 360;
+    const saturation = dark ? 80 : 85; // High saturation for vibrancy
+    const lightness = dark ? 45 : 55; // Darker background for better white text contrast
+
+    return this.hslToHex(hue, saturation, lightness);
+  }
+
+  private hslToHex(h: number, s: number, l: number): string {
+    l /= 100;
+    const a = s * Math.min(l, 1 - l) / 100;
+    const f = (n: number) => {
+      const k = (n + h / 30) % 12;
+      const color = l - a * Math.max(Math.min(k - 3, 9 - k, 1), -1);
+      return Math.round(255 * color).toString(16).padStart(2, '0');
+    };
+    return `#${f(0)}${f(8)}${f(4)}`;
+  }
+
+  getFontColor(theme: string): string {
+    switch (theme) {
+      case "dark":
+        return "#ffffff"; // Pure white for maximum contrast on dark backgrounds
+      default:
+        return "#000000"; // Pure black for maximum contrast on light backgrounds
+    }
+  }
+
+  getEdgeColor(edgeType: string, theme: string): string | undefined {
+    switch (edgeType) {
+      case "redirect":
+        return theme === "dark" ? "#60A5FA" : "#2563EB"; // Bright blue
+      case "dynamic":
+        return theme === "dark" ? "#34D399" : "#059669"; // Bright green
+      case "static":
+        return theme === "dark" ? "#A78BFA" : "#7C3AED"; // Bright purple
+      case "hierarchy":
+        return theme === "dark" ? "#9CA3AF" : "#6B7280"; // Subtle gray
+      default:
+        return undefined;
+    }
+  }
+
+  getEdgeFontColor(theme: string): string {
+    return theme === "dark" ? "#E5E7EB" : "#374151";
+  }
+}
@@ -0,0 +1,17 @@
+// Every route path lives here so pages, links and menus stay in sync
+export enum AppRoutes {
+  Home = '',
+  Dashboard = 'dashboard',
+  Reports = 'reports',
+  Profile = 'profile',
+  UserDetail = 'users/:id',
+}
+
+const ADMIN = 'admin';
+
+export const ADMIN_PATHS = {
+  users: `${ADMIN}/users`,
+  settings: ADMIN + '/settings',
+} as const;
+
+export const PROFILE_URL = '/' + AppRoutes.Profile;
@@ -0,0 +1,21 @@
+import { Component } from '@angular/core';
+import { RouterOutlet } from '@angular/router';
+
+import { HeaderComponent } from './layout/header.component';
+import { SidebarComponent } from './layout/sidebar.component';
+
+@Component({
+  selector: 'app-root',
+  standalone: true,
+  imports: [RouterOutlet, HeaderComponent, SidebarComponent],
+  template: `
+    <app-header></app-header>
+    <div class="shell">
+      <app-sidebar></app-sidebar>
+      <main>
+        <router-outlet></router-outlet>
+      </main>
+    </div>
+  `,
+})
+export class AppComponent {}
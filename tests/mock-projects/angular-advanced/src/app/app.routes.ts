@@ -0,0 +1,54 @@
+import { inject } from '@angular/core';
+import { Routes, mapToCanActivate } from '@angular/router';
+
+import { HomeComponent } from './pages/home.component';
+import { DashboardComponent } from './pages/dashboard.component';
+import { ReportsComponent } from './pages/reports.component';
+import { ProfileComponent } from './pages/profile.component';
+import { AdminUsersComponent } from './pages/admin-users.component';
+import { AdminSettingsComponent } from './pages/admin-settings.component';
+import { UserDetailComponent } from './pages/user-detail.component';
+import { AuthGuard, adminMatchGuard, hasRole, unsavedChangesGuard } from './core/auth/auth.guards';
+import { AuthService } from './core/auth/auth.service';
+import { ProfileResolver } from './core/auth/profile.resolver';
+import { ADMIN_PATHS, AppRoutes } from './app-paths';
+
+export const routes: Routes = [
+  { path: AppRoutes.Home, component: HomeComponent, title: 'Home', pathMatch: 'full' },
+  {
+    path: AppRoutes.Dashboard,
+    component: DashboardComponent,
+    title: 'Dashboard',
+    canActivate: [() => inject(AuthService).isLoggedIn()],
+  },
+  {
+    path: AppRoutes.Reports,
+    component: ReportsComponent,
+    title: 'Reports',
+    canActivate: [AuthGuard, hasRole('manager')],
+    runGuardsAndResolvers: 'always',
+  },
+  {
+    path: AppRoutes.Profile,
+    component: ProfileComponent,
+    title: 'Profile',
+    canActivate: [...mapToCanActivate([AuthGuard])],
+    canDeactivate: [unsavedChangesGuard],
+    resolve: { profile: ProfileResolver },
+  },
+  {
+    path: ADMIN_PATHS.users,
+    component: AdminUsersComponent,
+    title: 'Users',
+    canMatch: [adminMatchGuard],
+    canActivateChild: [hasRole('admin')],
+  },
+  {
+    path: ADMIN_PATHS['settings'],
+    component: AdminSettingsComponent,
+    title: 'Settings',
+    canMatch: [adminMatchGuard],
+    outlet: 'primary',
+  },
+  { path: AppRoutes.UserDetail, component: UserDetailComponent, title: 'User' },
+];
@@ -0,0 +1,23 @@
+import { Injectable, inject } from '@angular/core';
+import { CanActivate, CanActivateFn, CanDeactivateFn, CanMatchFn, Router } from '@angular/router';
+
+import { AuthService } from './auth.service';
+
+@Injectable({ providedIn: 'root' })
+export class AuthGuard implements CanActivate {
+  private auth = inject(AuthService);
+  private router = inject(Router);
+
+  canActivate() {
+    return this.auth.isLoggedIn() || this.router.createUrlTree(['/']);
+  }
+}
+
+export const adminMatchGuard: CanMatchFn = () => inject(AuthService).hasRole('admin');
+
+export function hasRole(role: string): CanActivateFn {
+  return () => inject(AuthService).hasRole(role);
+}
+
+export const unsavedChangesGuard: CanDeactivateFn<unknown> = () =>
+  confirm('Discard unsaved changes?');
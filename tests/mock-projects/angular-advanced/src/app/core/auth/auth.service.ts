@@ -0,0 +1,18 @@
+import { Injectable } from '@angular/core';
+
+@Injectable({ providedIn: 'root' })
+export class AuthService {
+  private roles = new Set<string>(['user']);
+
+  isLoggedIn(): boolean {
+    return this.roles.size > 0;
+  }
+
+  hasRole(role: string): boolean {
+    return this.roles.has(role);
+  }
+
+  currentUser() {
+    return { name: 'Demo User', roles: Array.from(this.roles) };
+  }
+}
@@ -0,0 +1,13 @@
+import { Injectable, inject } from '@angular/core';
+import { Resolve } from '@angular/router';
+
+import { AuthService } from './auth.service';
+
+@Injectable({ providedIn: 'root' })
+export class ProfileResolver implements Resolve<{ name: string; roles: string[] }> {
+  private auth = inject(AuthService);
+
+  resolve() {
+    return this.auth.currentUser();
+  }
+}
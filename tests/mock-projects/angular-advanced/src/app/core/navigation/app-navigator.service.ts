@@ -0,0 +1,16 @@
+import { Injectable } from '@angular/core';
+import { Router as AngularRouter } from '@angular/router';
+
+// Thin wrapper so components do not depend on the Router directly
+@Injectable({ providedIn: 'root' })
+export class AppNavigator {
+  constructor(private readonly _router: AngularRouter) {}
+
+  goTo(url: string) {
+    return this._router.navigateByUrl(url);
+  }
+
+  openSection(section: string) {
+    return this._router.navigate(['/', section]);
+  }
+}
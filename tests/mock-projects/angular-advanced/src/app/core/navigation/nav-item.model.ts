@@ -0,0 +1,7 @@
+export interface NavItem {
+  label: string;
+  route: string | string[];
+  icon?: string;
+  roles?: string[];
+  children?: NavItem[];
+}
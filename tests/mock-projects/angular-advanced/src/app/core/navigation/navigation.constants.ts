@@ -0,0 +1,13 @@
+import { NavItem } from './nav-item.model';
+import { AppRoutes } from '../../app-paths';
+
+export const MAIN_NAV: NavItem[] = [
+  { label: 'Home', route: '/', icon: 'home' },
+  { label: 'Dashboard', route: '/' + AppRoutes.Dashboard, icon: 'dashboard' },
+  {
+    label: 'Reports',
+    route: '/reports',
+    icon: 'bar_chart',
+    roles: ['manager', 'admin'],
+  },
+];
@@ -0,0 +1,17 @@
+import { Injectable } from '@angular/core';
+
+import { NavItem } from './nav-item.model';
+
+@Injectable({ providedIn: 'root' })
+export class NavigationService {
+  readonly adminItems: NavItem[] = [
+    {
+      label: 'Administration',
+      route: '/admin/users',
+      children: [
+        { label: 'Users', route: ['/admin', 'users'] },
+        { label: 'Settings', route: ['/admin', 'settings'] },
+      ],
+    },
+  ];
+}
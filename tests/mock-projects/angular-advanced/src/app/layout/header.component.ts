@@ -0,0 +1,15 @@
+import { Component } from '@angular/core';
+import { NgIf } from '@angular/common';
+import { RouterLink } from '@angular/router';
+
+import { AuthService } from '../core/auth/auth.service';
+
+@Component({
+  selector: 'app-header',
+  standalone: true,
+  imports: [NgIf, RouterLink],
+  templateUrl: './header.component.html',
+})
+export class HeaderComponent {
+  constructor(public auth: AuthService) {}
+}
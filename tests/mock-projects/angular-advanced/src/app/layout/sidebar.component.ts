@@ -0,0 +1,35 @@
+import { Component } from '@angular/core';
+import { NgFor } from '@angular/common';
+import { RouterLink } from '@angular/router';
+
+import { MAIN_NAV } from '../core/navigation/navigation.constants';
+import { NavigationService } from '../core/navigation/navigation.service';
+import { HasRoleDirective } from '../shared/has-role.directive';
+
+@Component({
+  selector: 'app-sidebar',
+  standalone: true,
+  imports: [NgFor, RouterLink, HasRoleDirective],
+  template: `
+    <aside>
+      <ul>
+        <li *ngFor="let item of items">
+          <a [routerLink]="item.route">{{ item.label }}</a>
+        </li>
+      </ul>
+      <ul *appHasRole="'admin'">
+        <li *ngFor="let section of nav.adminItems">
+          <span>{{ section.label }}</span>
+          <a *ngFor="let child of section.children" [routerLink]="child.route">
+            {{ child.label }}
+          </a>
+        </li>
+      </ul>
+    </aside>
+  `,
+})
+export class SidebarComponent {
+  items = MAIN_NAV;
+
+  constructor(public nav: NavigationService) {}
+}
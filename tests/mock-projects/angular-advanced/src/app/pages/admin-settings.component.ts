@@ -0,0 +1,7 @@
+import { Component } from '@angular/core';
+
+@Component({
+  standalone: true,
+  template: `<h1>Admin Settings</h1>`,
+})
+export class AdminSettingsComponent {}
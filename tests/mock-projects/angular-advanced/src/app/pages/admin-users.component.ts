@@ -0,0 +1,18 @@
+import { Component } from '@angular/core';
+import { NgFor } from '@angular/common';
+import { RouterLink } from '@angular/router';
+
+@Component({
+  standalone: true,
+  imports: [NgFor, RouterLink],
+  template: `
+    <h1>Admin Users</h1>
+    <a *ngFor="let user of users" [routerLink]="['/users', user.id]" [queryParams]="{ tab: 'activity', page: currentPage }">
+      {{ user.name }}
+    </a>
+  `,
+})
+export class AdminUsersComponent {
+  currentPage = 1;
+  users = [{ id: 1, name: 'Ada' }];
+}
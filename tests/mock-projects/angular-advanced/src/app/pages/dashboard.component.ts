@@ -0,0 +1,18 @@
+import { Component, inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { PROFILE_URL } from '../app-paths';
+
+@Component({
+  standalone: true,
+  template: `
+    <h1>Dashboard</h1>
+    <button (click)="editProfile()">Edit profile</button>
+  `,
+})
+export class DashboardComponent {
+  private router = inject(Router);
+
+  editProfile() {
+    this.router.navigateByUrl(PROFILE_URL);
+  }
+}
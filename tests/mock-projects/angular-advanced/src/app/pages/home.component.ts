@@ -0,0 +1,20 @@
+import { Component, inject } from '@angular/core';
+import { Router, RouterLink } from '@angular/router';
+import { AppRoutes } from '../app-paths';
+
+@Component({
+  standalone: true,
+  imports: [RouterLink],
+  template: `
+    <h1>Home</h1>
+    <a routerLink="/profile">Your profile</a>
+    <button (click)="openReports()">Reports</button>
+  `,
+})
+export class HomeComponent {
+  private router = inject(Router);
+
+  openReports() {
+    this.router.navigate(['/', AppRoutes.Reports]);
+  }
+}
@@ -0,0 +1,34 @@
+import { Component, inject } from '@angular/core';
+import { AppNavigator } from '../core/navigation/app-navigator.service';
+import { AppRoutes } from '../app-paths';
+
+// Local wizard state that happens to have a navigate() method
+class ProfileWizard {
+  step = 0;
+
+  navigate(commands: string[]) {
+    this.step = commands.length;
+  }
+}
+
+@Component({
+  standalone: true,
+  template: `
+    <h1>Profile</h1>
+    <button (click)="done()">Done</button>
+  `,
+})
+export class ProfileComponent {
+  private navigator = inject(AppNavigator);
+  private wizard = new ProfileWizard();
+  private router = this.wizard;
+
+  next() {
+    this.router.navigate(['/profile-step-2']);
+  }
+
+  done() {
+    this.navigator.goTo('/');
+    this.navigator.openSection(AppRoutes.Dashboard);
+  }
+}
@@ -0,0 +1,47 @@
+import { Component, inject } from '@angular/core';
+import { Router, RouterLink } from '@angular/router';
+
+@Component({
+  standalone: true,
+  imports: [RouterLink],
+  template: `
+    <h1>Reports</h1>
+    @if (reports.length < limit) {
+      <a routerLink="/dashboard">Back to the dashboard</a>
+    } @else {
+      <p>{{ reports.length > limit ? 'Too many reports' : '' }}</p>
+    }
+    @for (report of reports; track report.id) {
+      <button (click)="openUser(report.ownerId)">Owner</button>
+    }
+    @defer (on viewport) {
+      <a href="/profile">Profile</a>
+    } @placeholder {
+      <p>Loading...</p>
+    }
+    <ng-template #actions>
+      <button (click)="router.navigate(['/admin', 'settings'])">Settings</button>
+      <button (click)="openFirstUser()">First user</button>
+      <button (click)="track(); goTo('/')">Home</button>
+    </ng-template>
+  `,
+})
+export class ReportsComponent {
+  readonly router = inject(Router);
+  limit = 10;
+  reports = [{ id: 1, ownerId: 7 }];
+
+  goTo(url: string) {
+    this.router.navigateByUrl(url);
+  }
+
+  openUser(id: number) {
+    this.router.navigate(['/users', id]);
+  }
+
+  openFirstUser() {
+    this.router.navigate(['/users', 1]);
+  }
+
+  track() {}
+}
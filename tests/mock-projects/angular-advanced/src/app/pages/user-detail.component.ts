@@ -0,0 +1,21 @@
+import { Component } from '@angular/core';
+import { RouterLink } from '@angular/router';
+import { ADMIN_PATHS, PROFILE_URL } from '../app-paths';
+
+@Component({
+  standalone: true,
+  imports: [RouterLink],
+  template: `
+    <h1>User</h1>
+    <a [routerLink]="backLink">All users</a>
+    <a [routerLink]="profileLink">My profile</a>
+    <a routerLink="../../reports" fragment="latest">Latest reports</a>
+    <a [routerLink]="['/users', 1]">First user</a>
+    <a [routerLink]="nextUserLink">Next user</a>
+  `,
+})
+export class UserDetailComponent {
+  readonly backLink = ['/', ADMIN_PATHS.users];
+  readonly profileLink = PROFILE_URL;
+  readonly nextUserLink = ['/users', 2];
+}
@@ -0,0 +1,23 @@
+import { Directive, Input, TemplateRef, ViewContainerRef } from '@angular/core';
+
+import { AuthService } from '../core/auth/auth.service';
+
+@Directive({
+  selector: '[appHasRole]',
+  standalone: true,
+})
+export class HasRoleDirective {
+  constructor(
+    private templateRef: TemplateRef<unknown>,
+    private viewContainer: ViewContainerRef,
+    private auth: AuthService
+  ) {}
+
+  @Input() set appHasRole(role: string | string[]) {
+    const roles = Array.isArray(role) ? role : [role];
+    this.viewContainer.clear();
+    if (roles.some((r) => this.auth.hasRole(r))) {
+      this.viewContainer.createEmbeddedView(this.templateRef);
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Routes } from '@angular/router';
+
+export const routes: Routes = [
+  { path: '', component: HomeComponent },
+  { path: 'reports', component: ReportsComponent },
+  { path: 'archive', component: ArchiveComponent },
+  { path: 'archive/:year', component: ArchiveYearComponent },
+  { path: 'old-reports', redirectTo: 'legacy-reports' },
+  { path: 'legacy-reports', redirectTo: 'old-reports' },
+  { path: '**', component: NotFoundComponent },
+  { path: 'help', component: HelpComponent },
+];
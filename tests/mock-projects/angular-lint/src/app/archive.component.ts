@@ -0,0 +1,4 @@
+import { Component } from '@angular/core';
+
+@Component({ selector: 'app-archive', template: '<a routerLink="/archive/2023">2023</a>' })
+export class ArchiveComponent {}
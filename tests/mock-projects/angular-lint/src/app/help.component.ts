@@ -0,0 +1,4 @@
+import { Component } from '@angular/core';
+
+@Component({ selector: 'app-help', template: '<a routerLink="/">Home</a>' })
+export class HelpComponent {}
@@ -0,0 +1,4 @@
+import { Component } from '@angular/core';
+
+@Component({ selector: 'app-home', template: '<a routerLink="/reports">Reports</a>' })
+export class HomeComponent {}
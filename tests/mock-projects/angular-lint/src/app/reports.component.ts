@@ -0,0 +1,4 @@
+import { Component } from '@angular/core';
+
+@Component({ selector: 'app-reports', template: '<h1>Reports</h1>' })
+export class ReportsComponent {}
@@ -0,0 +1,26 @@
+import React from 'react';
+import { BrowserRouter, Link, Route, Switch } from 'react-router-dom';
+
+function Home() {
+  return <Link to="/about">About</Link>;
+}
+
+function About() {
+  return <Link to="/">Home</Link>;
+}
+
+function NotFound() {
+  return <Link to="/">Home</Link>;
+}
+
+export default function App() {
+  return (
+    <BrowserRouter>
+      <Switch>
+        <Route path="*" component={NotFound} />
+        <Route path="/" exact component={Home} />
+        <Route path="/about" component={About} />
+      </Switch>
+    </BrowserRouter>
+  );
+}
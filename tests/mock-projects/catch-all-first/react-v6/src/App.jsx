@@ -0,0 +1,26 @@
+import React from 'react';
+import { BrowserRouter, Link, Route, Routes } from 'react-router-dom';
+
+function Home() {
+  return <Link to="/about">About</Link>;
+}
+
+function About() {
+  return <Link to="/">Home</Link>;
+}
+
+function NotFound() {
+  return <Link to="/">Home</Link>;
+}
+
+export default function App() {
+  return (
+    <BrowserRouter>
+      <Routes>
+        <Route path="*" element={<NotFound />} />
+        <Route path="/" element={<Home />} />
+        <Route path="/about" element={<About />} />
+      </Routes>
+    </BrowserRouter>
+  );
+}
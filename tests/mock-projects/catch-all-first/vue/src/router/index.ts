@@ -0,0 +1,13 @@
+import { createRouter, createWebHistory } from 'vue-router';
+import HomeView from '../views/HomeView.vue';
+import AboutView from '../views/AboutView.vue';
+import NotFound from '../views/NotFound.vue';
+
+export default createRouter({
+  history: createWebHistory(),
+  routes: [
+    { path: '/:pathMatch(.*)*', component: NotFound },
+    { path: '/', component: HomeView },
+    { path: '/about', component: AboutView },
+  ],
+});
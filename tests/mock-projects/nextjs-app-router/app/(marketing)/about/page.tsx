@@ -0,0 +1,5 @@
+import Link from 'next/link';
+
+export default function AboutPage() {
+  return <Link href="/docs/getting-started">Docs</Link>;
+}
@@ -0,0 +1,5 @@
+import Link from 'next/link';
+
+export default function PhotoModal() {
+  return <Link href="/dashboard">Close</Link>;
+}
@@ -0,0 +1,3 @@
+export default function Hidden() {
+  return <p>Hidden</p>;
+}
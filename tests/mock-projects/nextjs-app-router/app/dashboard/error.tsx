@@ -0,0 +1,5 @@
+'use client';
+
+export default function DashboardError() {
+  return <p>Something went wrong</p>;
+}
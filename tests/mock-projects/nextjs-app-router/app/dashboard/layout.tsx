@@ -0,0 +1,5 @@
+import Link from 'next/link';
+
+export default function Layout({ children }: { children: React.ReactNode }) {
+  return <section><Link href="/dashboard/settings">Settings</Link>{children}</section>;
+}
@@ -0,0 +1,5 @@
+import Link from 'next/link';
+
+export default function Dashboard() {
+  return <Link href="/photos/1">Photo</Link>;
+}
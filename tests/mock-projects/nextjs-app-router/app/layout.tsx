@@ -0,0 +1,3 @@
+export default function RootLayout({ children, modal }: { children: React.ReactNode; modal: React.ReactNode }) {
+  return <html><body>{children}{modal}</body></html>;
+}
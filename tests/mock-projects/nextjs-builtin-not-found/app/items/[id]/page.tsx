@@ -0,0 +1,7 @@
+import { notFound } from 'next/navigation';
+
+export default async function Item({ params }: { params: { id: string } }) {
+  const item = await fetch(`/api/items/${params.id}`).then((r) => r.json());
+  if (!item) notFound();
+  return <h1>{item.name}</h1>;
+}
@@ -0,0 +1,11 @@
+export async function getStaticProps() {
+  const items = await fetch('https://cms.example.com/items').then((r) => r.json());
+  if (items.length === 0) {
+    return { notFound: true };
+  }
+  return { props: { items } };
+}
+
+export default function Archive() {
+  return null;
+}
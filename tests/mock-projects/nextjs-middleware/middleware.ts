@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+
+export function middleware(request: NextRequest) {
+  const token = request.cookies.get('token');
+  const { pathname } = request.nextUrl;
+
+  if (!token && !pathname.startsWith('/account/help')) {
+    return NextResponse.redirect(new URL(`/login?from=${pathname}`, request.url));
+  }
+
+  if (pathname.startsWith('/account/') && request.nextUrl.searchParams.has('legacy')) {
+    const url = request.nextUrl.clone();
+    url.pathname = '/account';
+    return NextResponse.rewrite(url);
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/account/:path*', { source: '/admin' }],
+};
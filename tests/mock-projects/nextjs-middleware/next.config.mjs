@@ -0,0 +1,30 @@
+const legacyRedirects = [
+  { source: '/old-blog/:slug(\\d{1,})', destination: '/blog/:slug', permanent: true },
+];
+
+function withAnalyzer(config) {
+  return config;
+}
+
+/** @type {import('next').NextConfig} */
+const nextConfig = {
+  basePath: '/docs',
+  i18n: { locales: ['en', 'de'], defaultLocale: 'en' },
+  async redirects() {
+    return [
+      ...legacyRedirects,
+      { source: '/home', destination: '/', permanent: false },
+      { source: '/de/alt', destination: '/de/about', locale: false, permanent: false },
+      { source: '/outside', destination: '/about', basePath: false, permanent: false },
+      { source: '/github', destination: 'https://github.com/acme', permanent: false },
+    ];
+  },
+  async rewrites() {
+    return {
+      beforeFiles: [{ source: '/team', destination: '/about' }],
+      fallback: [{ source: '/api/:path*', destination: 'https://backend.example.com/:path*' }],
+    };
+  },
+};
+
+export default withAnalyzer(nextConfig);
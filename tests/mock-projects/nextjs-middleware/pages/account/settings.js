@@ -0,0 +1,5 @@
+import Link from 'next/link';
+
+export default function Settings() {
+  return <Link href="/about">About</Link>;
+}
@@ -0,0 +1,5 @@
+import Link from 'next/link';
+
+export default function Admin() {
+  return <Link href="/about">About</Link>;
+}
@@ -0,0 +1,5 @@
+import { NextResponse } from 'next/server';
+
+export async function GET(request: Request) {
+  return NextResponse.redirect(new URL('/dashboard', request.url));
+}
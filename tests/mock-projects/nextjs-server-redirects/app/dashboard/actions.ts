@@ -0,0 +1,8 @@
+'use server';
+
+import { redirect as go } from 'next/navigation';
+
+export async function archive(id: string) {
+  await fetch(`/api/projects/${id}`, { method: 'DELETE' });
+  go(`/projects?archived=${id}`);
+}
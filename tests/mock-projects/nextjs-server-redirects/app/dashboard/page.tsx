@@ -0,0 +1,10 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
+import { cookies } from 'next/headers';
+
+export default async function Dashboard() {
+  if (!cookies().get('session')) {
+    redirect('/login');
+  }
+  return <Link href="/settings">Settings</Link>;
+}
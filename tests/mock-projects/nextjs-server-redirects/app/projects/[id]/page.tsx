@@ -0,0 +1,8 @@
+import { notFound, permanentRedirect } from 'next/navigation';
+
+export default async function Project({ params }: { params: { id: string } }) {
+  const project = await fetch(`/api/projects/${params.id}`).then((r) => r.json());
+  if (!project) notFound();
+  if (project.movedTo) permanentRedirect(`/projects/${project.movedTo}`);
+  return <h1>{project.name}</h1>;
+}
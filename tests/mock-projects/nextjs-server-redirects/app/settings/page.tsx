@@ -0,0 +1,6 @@
+import { requireUser } from '../../lib/auth';
+
+export default async function Settings() {
+  await requireUser();
+  return <p>Settings</p>;
+}
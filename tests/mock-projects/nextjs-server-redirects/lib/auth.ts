@@ -0,0 +1,7 @@
+import { redirect } from 'next/navigation';
+
+export async function requireUser() {
+  const user = null;
+  if (!user) redirect('/login');
+  return user;
+}
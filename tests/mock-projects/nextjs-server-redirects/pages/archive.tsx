@@ -0,0 +1,11 @@
+export async function getStaticProps() {
+  const posts = await fetch('https://cms.example.com/posts').then((r) => r.json());
+  if (posts.length === 0) {
+    return { notFound: true };
+  }
+  return { props: { posts } };
+}
+
+export default function Archive() {
+  return null;
+}
@@ -0,0 +1,9 @@
+import type { GetServerSideProps } from 'next';
+
+export const getServerSideProps: GetServerSideProps = async () => {
+  return { redirect: { destination: '/dashboard', permanent: true } };
+};
+
+export default function Legacy() {
+  return null;
+}
@@ -0,0 +1,6 @@
+export default defineNuxtRouteMiddleware(() => {
+  const role = useCookie("role");
+  if (role.value !== "admin") {
+    return abortNavigation();
+  }
+});
@@ -0,0 +1,6 @@
+export default defineNuxtRouteMiddleware(() => {
+  const token = useCookie("token");
+  if (!token.value) {
+    return navigateTo("/");
+  }
+});
@@ -3,6 +3,8 @@ import { Link, useNavigate } from 'react-router-dom';
 
 const Dashboard: React.FC = () => {
   const navigate = useNavigate();
+  const goTo = navigate;
+  const recentPages: string[] = [];
 
   const handleQuickAction = (action: string) => {
     switch (action) {
@@ -15,6 +17,11 @@ const Dashboard: React.FC = () => {
       case 'users':
         navigate('/users/current');
         break;
+      case 'contact':
+        // Remembered for the "recently visited" list, not a navigation
+        recentPages.push('/recently-visited');
+        goTo('/contact');
+        break;
       default:
         navigate('/');
     }
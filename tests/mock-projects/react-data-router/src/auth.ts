@@ -0,0 +1,9 @@
+import { redirect } from 'react-router-dom';
+
+export async function requireUser() {
+  const user = localStorage.getItem('user');
+  if (!user) {
+    throw redirect('/login');
+  }
+  return user;
+}
@@ -0,0 +1,52 @@
+import React from 'react';
+import { createBrowserRouter, createRoutesFromElements, Route, RouterProvider, redirect } from 'react-router-dom';
+import Root from './pages/Root';
+import Home from './pages/Home';
+import ErrorPage from './pages/ErrorPage';
+import Projects, { projectsLoader } from './pages/Projects';
+import Project from './pages/Project';
+import Login from './pages/Login';
+import { requireUser } from './auth';
+
+const router = createBrowserRouter(
+  [
+    {
+      path: '/',
+      element: <Root />,
+      errorElement: <ErrorPage />,
+      loader: requireUser,
+      children: [
+        { index: true, element: <Home /> },
+        {
+          path: 'projects',
+          element: <Projects />,
+          loader: projectsLoader,
+          children: [
+            {
+              path: ':projectId',
+              element: <Project />,
+              action: async ({ params }) => {
+                await fetch(`/api/projects/${params.projectId}`, { method: 'DELETE' });
+                return redirect('/projects');
+              },
+            },
+          ],
+        },
+        { path: 'settings', lazy: () => import('./routes/settings') },
+        { path: 'old-projects', loader: () => redirect('/projects') },
+      ],
+    },
+    {
+      path: '/login',
+      element: <Login />,
+      children: createRoutesFromElements(
+        <Route path="reset" element={<Login />} errorElement={<ErrorPage />} />
+      ),
+    },
+  ],
+  { basename: '/app' }
+);
+
+export default function App() {
+  return <RouterProvider router={router} />;
+}
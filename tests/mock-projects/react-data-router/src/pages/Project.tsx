@@ -0,0 +1,6 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+
+export default function Project() {
+  return <Link to="/projects">Projects</Link>;
+}
@@ -0,0 +1,15 @@
+import React from 'react';
+import { redirect, useNavigate } from 'react-router-dom';
+
+export async function projectsLoader() {
+  const projects = await fetch('/api/projects').then((r) => r.json());
+  if (projects.length === 0) {
+    return redirect('/projects/new');
+  }
+  return projects;
+}
+
+export default function Projects() {
+  const navigate = useNavigate();
+  return <button onClick={() => navigate('/settings')}>Settings</button>;
+}
@@ -0,0 +1,17 @@
+import React from 'react';
+import { Link, redirect } from 'react-router-dom';
+
+export async function loader() {
+  if (!localStorage.getItem('token')) {
+    return redirect('/login');
+  }
+  return null;
+}
+
+export function Component() {
+  return <Link to="/">Home</Link>;
+}
+
+export function ErrorBoundary() {
+  return <p>Settings failed to load</p>;
+}
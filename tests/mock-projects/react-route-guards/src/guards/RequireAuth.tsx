@@ -0,0 +1,13 @@
+import React from 'react';
+import { Navigate } from 'react-router-dom';
+
+export default function RequireAuth({ children, roles }: { children: React.ReactNode; roles?: string[] }) {
+  const user = JSON.parse(localStorage.getItem('user') ?? 'null');
+  if (!user) {
+    return <Navigate to="/login" replace />;
+  }
+  if (roles && !roles.some((role) => user.roles.includes(role))) {
+    return <Navigate to="/" replace />;
+  }
+  return <>{children}</>;
+}
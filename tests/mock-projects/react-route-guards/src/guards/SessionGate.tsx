@@ -0,0 +1,7 @@
+import React from 'react';
+import { Navigate, Outlet } from 'react-router-dom';
+
+export default function SessionGate() {
+  const expired = sessionStorage.getItem('expired') === 'true';
+  return expired ? <Navigate to="/login" /> : <Outlet />;
+}
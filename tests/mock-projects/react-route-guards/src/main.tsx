@@ -0,0 +1,49 @@
+import React, { Suspense } from 'react';
+import { createBrowserRouter, RouterProvider } from 'react-router-dom';
+import { AdminOnly } from '@acme/auth';
+import RequireAuth from './guards/RequireAuth';
+import SessionGate from './guards/SessionGate';
+import Home from './pages/Home';
+import Login from './pages/Login';
+import Account from './pages/Account';
+import Billing from './pages/Billing';
+import Reports from './pages/Reports';
+import Exports from './pages/Exports';
+import Admin from './pages/Admin';
+
+const router = createBrowserRouter([
+  { path: '/', element: <Home /> },
+  { path: '/login', element: <Login /> },
+  {
+    path: '/account',
+    element: (
+      <RequireAuth>
+        <Suspense fallback={null}>
+          <Account />
+        </Suspense>
+      </RequireAuth>
+    ),
+    children: [{ path: 'billing', element: <Billing /> }],
+  },
+  {
+    element: <SessionGate />,
+    children: [
+      { path: '/reports', element: <Reports /> },
+      { path: '/exports', element: <Exports /> },
+    ],
+  },
+  {
+    path: '/admin',
+    element: (
+      <AdminOnly>
+        <RequireAuth roles={['admin']}>
+          <Admin />
+        </RequireAuth>
+      </AdminOnly>
+    ),
+  },
+]);
+
+export default function App() {
+  return <RouterProvider router={router} />;
+}
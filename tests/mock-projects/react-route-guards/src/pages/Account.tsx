@@ -0,0 +1,5 @@
+import React from 'react';
+
+export default function Account() {
+  return <h1>Account</h1>;
+}
@@ -0,0 +1,5 @@
+import React from 'react';
+
+export default function Admin() {
+  return <h1>Admin</h1>;
+}
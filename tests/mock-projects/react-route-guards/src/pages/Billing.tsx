@@ -0,0 +1,5 @@
+import React from 'react';
+
+export default function Billing() {
+  return <h1>Billing</h1>;
+}
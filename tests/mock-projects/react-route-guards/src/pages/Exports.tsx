@@ -0,0 +1,5 @@
+import React from 'react';
+
+export default function Exports() {
+  return <h1>Exports</h1>;
+}
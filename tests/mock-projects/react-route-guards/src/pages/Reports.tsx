@@ -0,0 +1,5 @@
+import React from 'react';
+
+export default function Reports() {
+  return <h1>Reports</h1>;
+}
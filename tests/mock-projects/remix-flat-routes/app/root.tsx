@@ -0,0 +1,5 @@
+import { Link, Outlet } from '@remix-run/react';
+
+export default function App() {
+  return <><Link to="/">Home</Link><Outlet /></>;
+}
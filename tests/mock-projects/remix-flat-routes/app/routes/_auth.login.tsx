@@ -0,0 +1,7 @@
+export default function Login() {
+  return <p>Login</p>;
+}
+
+export function ErrorBoundary() {
+  return <p>Login failed</p>;
+}
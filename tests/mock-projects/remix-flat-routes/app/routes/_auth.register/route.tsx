@@ -0,0 +1,3 @@
+export default function Register() {
+  return <p>Register</p>;
+}
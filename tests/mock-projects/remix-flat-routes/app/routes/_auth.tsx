@@ -0,0 +1,11 @@
+import { redirect } from '@remix-run/node';
+import { Outlet } from '@remix-run/react';
+
+export async function loader() {
+  if (globalThis.user) throw redirect('/users');
+  return null;
+}
+
+export default function AuthLayout() {
+  return <Outlet />;
+}
@@ -0,0 +1,11 @@
+import { Form, Link } from '@remix-run/react';
+
+export default function Index() {
+  return (
+    <>
+      <Link to="/users">Users</Link>
+      <Form action="/logout" method="post"><button>Log out</button></Form>
+      <Form method="post"><button>Stay</button></Form>
+    </>
+  );
+}
@@ -0,0 +1,3 @@
+export default function Files() {
+  return <p>Files</p>;
+}
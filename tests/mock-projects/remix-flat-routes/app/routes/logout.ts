@@ -0,0 +1,5 @@
+import { redirect } from '@remix-run/node';
+
+export async function action() {
+  return redirect('/');
+}
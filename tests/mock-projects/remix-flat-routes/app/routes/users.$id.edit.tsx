@@ -0,0 +1,9 @@
+import { redirect, type ActionFunctionArgs } from '@remix-run/node';
+
+export async function action({ params }: ActionFunctionArgs) {
+  return redirect(`/users/${params.id}`);
+}
+
+export default function () {
+  return <p>Edit</p>;
+}
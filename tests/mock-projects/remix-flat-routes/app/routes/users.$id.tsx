@@ -0,0 +1,3 @@
+export default function UserProfile() {
+  return <p>UserProfile</p>;
+}
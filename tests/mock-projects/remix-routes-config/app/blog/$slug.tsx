@@ -0,0 +1,3 @@
+export default function BlogPost() {
+  return <p>BlogPost</p>;
+}
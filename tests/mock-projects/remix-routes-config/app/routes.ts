@@ -0,0 +1,14 @@
+import { type RouteConfig, index, layout, prefix, route } from '@react-router/dev/routes';
+import { flatRoutes } from '@react-router/fs-routes';
+
+export default [
+  index('routes/home.tsx'),
+  layout('routes/auth/layout.tsx', [route('login', 'routes/auth/login.tsx')]),
+  ...prefix('concerts', [
+    index('routes/concerts/home.tsx'),
+    route(':city', 'routes/concerts/city.tsx', { id: 'city' }, [
+      route('trending', 'routes/concerts/trending.tsx'),
+    ]),
+  ]),
+  ...(await flatRoutes({ rootDirectory: 'blog' })),
+] satisfies RouteConfig;
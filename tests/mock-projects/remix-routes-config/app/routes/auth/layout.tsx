@@ -0,0 +1,10 @@
+import { Outlet, redirect } from 'react-router';
+
+export async function loader() {
+  if (globalThis.user) return redirect('/');
+  return null;
+}
+
+export default function AuthLayout() {
+  return <Outlet />;
+}
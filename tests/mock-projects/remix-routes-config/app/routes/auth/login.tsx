@@ -0,0 +1,5 @@
+import { Form } from 'react-router';
+
+export default function Login() {
+  return <Form action="/concerts" method="post" />;
+}
@@ -0,0 +1,10 @@
+import { redirect } from 'react-router';
+
+export async function loader({ params }: { params: { city: string } }) {
+  if (params.city === 'nyc') throw redirect('/concerts/new-york');
+  return null;
+}
+
+export default function City() {
+  return null;
+}
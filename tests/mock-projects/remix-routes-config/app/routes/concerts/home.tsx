@@ -0,0 +1,3 @@
+export default function ConcertsHome() {
+  return <p>ConcertsHome</p>;
+}
@@ -0,0 +1,3 @@
+export default function Trending() {
+  return <p>Trending</p>;
+}
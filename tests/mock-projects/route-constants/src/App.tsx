@@ -0,0 +1,20 @@
+import React from 'react';
+import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { ROUTES } from './routes';
+import Home from './pages/Home';
+import Cart from './pages/Cart';
+import Checkout from './pages/Checkout';
+import Orders from './pages/Orders';
+
+export default function App() {
+  return (
+    <BrowserRouter>
+      <Routes>
+        <Route path={ROUTES.home} element={<Home />} />
+        <Route path={ROUTES.cart} element={<Cart />} />
+        <Route path={ROUTES.checkout} element={<Checkout />} />
+        <Route path={ROUTES.orders.list} element={<Orders />} />
+      </Routes>
+    </BrowserRouter>
+  );
+}
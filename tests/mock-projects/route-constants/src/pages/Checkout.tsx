@@ -0,0 +1,8 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ROUTES } from '../routes';
+
+export default function Checkout({ orderId }: { orderId: string }) {
+  const navigate = useNavigate();
+  return <button onClick={() => navigate(`${ROUTES.orders.list}/${orderId}`)}>Place order</button>;
+}
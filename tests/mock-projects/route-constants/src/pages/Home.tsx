@@ -0,0 +1,7 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ROUTES } from '../routes';
+
+export default function Home() {
+  return <Link to={ROUTES.cart}>Cart</Link>;
+}
@@ -0,0 +1,16 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ROUTES } from '../routes';
+
+const links = [{ to: '/shop/cart' }, { to: '/shop/checkout' }];
+
+export default function Orders() {
+  return (
+    <nav>
+      <Link to={ROUTES['home']}>Home</Link>
+      {links.map((link) => (
+        <Link key={link.to} to={link.to}>{link.to}</Link>
+      ))}
+    </nav>
+  );
+}
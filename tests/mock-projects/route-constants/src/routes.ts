@@ -0,0 +1,12 @@
+export enum Section {
+  Shop = 'shop',
+}
+
+const SHOP = '/' + Section.Shop;
+
+export const ROUTES = {
+  home: '/',
+  cart: `${SHOP}/cart`,
+  checkout: `${SHOP}/checkout`,
+  orders: { list: '/orders' },
+} as const;
@@ -0,0 +1,9 @@
+export interface Post {
+  slug: string;
+  title: string;
+}
+
+export const posts: Post[] = [
+  { slug: "hello-world", title: "Hello World" },
+  { slug: "routing", title: "Routing in SvelteKit" },
+];
@@ -0,0 +1,11 @@
+import { redirect } from "@sveltejs/kit";
+import { posts } from "$lib/posts";
+import type { PageServerLoad } from "./$types";
+
+export const load: PageServerLoad = ({ params }) => {
+  const post = posts.find((p) => p.slug === params.slug);
+  if (!post) {
+    throw redirect(307, "/blog");
+  }
+  return { post };
+};
@@ -0,0 +1,10 @@
+import { redirect } from "@sveltejs/kit";
+import type { Actions } from "./$types";
+
+export const actions: Actions = {
+  default: async ({ cookies, request }) => {
+    const data = await request.formData();
+    cookies.set("session", String(data.get("email")), { path: "/" });
+    throw redirect(303, "/dashboard");
+  },
+};
@@ -0,0 +1,13 @@
+// This file was automatically generated by TanStack Router.
+// You should NOT make any changes in this file as it will be overwritten.
+
+import { Route as rootRoute } from './routes/__root'
+import { Route as PostsImport } from './routes/posts'
+
+const PostsRoute = PostsImport.update({
+  id: '/posts',
+  path: '/posts',
+  getParentRoute: () => rootRoute,
+} as any)
+
+export const routeTree = rootRoute.addChildren([PostsRoute])
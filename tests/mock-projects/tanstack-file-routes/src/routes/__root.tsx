@@ -0,0 +1,9 @@
+import { Link, Outlet, createRootRouteWithContext } from '@tanstack/react-router';
+
+export const Route = createRootRouteWithContext<{ user?: string }>()({
+  component: RootComponent,
+});
+
+function RootComponent() {
+  return <><Link to="/">Home</Link><Outlet /></>;
+}
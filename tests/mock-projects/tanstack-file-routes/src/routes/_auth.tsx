@@ -0,0 +1,10 @@
+import { Outlet, createFileRoute, redirect } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/_auth')({
+  beforeLoad: ({ context, location }) => {
+    if (!context.user) {
+      throw redirect({ to: '/login', search: { redirect: location.href } });
+    }
+  },
+  component: () => <Outlet />,
+});
@@ -0,0 +1,9 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/_auth/dashboard')({
+  component: Dashboard,
+});
+
+function Dashboard() {
+  return <p>Dashboard</p>;
+}
@@ -0,0 +1,12 @@
+import { createFileRoute, redirect } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/_auth/settings')({
+  beforeLoad({ context }) {
+    if (context.user !== 'admin') throw redirect({ to: '/dashboard' });
+  },
+  component: Settings,
+});
+
+function Settings() {
+  return <p>Settings</p>;
+}
@@ -0,0 +1,9 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/files/$')({
+  component: Files,
+});
+
+function Files() {
+  return <p>Files</p>;
+}
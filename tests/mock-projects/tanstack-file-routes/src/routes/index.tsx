@@ -0,0 +1,5 @@
+import { Link, createFileRoute } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/')({
+  component: () => <Link to="/posts">Posts</Link>,
+});
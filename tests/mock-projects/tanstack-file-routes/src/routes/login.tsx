@@ -0,0 +1,9 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/login')({
+  component: Login,
+});
+
+function Login() {
+  return <p>Login</p>;
+}
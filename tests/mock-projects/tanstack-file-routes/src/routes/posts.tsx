@@ -0,0 +1,19 @@
+import { Outlet, createFileRoute, redirect } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/posts')({
+  loader: async () => {
+    const posts = await fetch('/api/posts').then((r) => r.json());
+    if (posts.length === 0) throw redirect({ to: '/posts/new' });
+    return posts;
+  },
+  component: PostsLayout,
+  errorComponent: PostsError,
+});
+
+function PostsLayout() {
+  return <Outlet />;
+}
+
+function PostsError() {
+  return <p>Failed</p>;
+}
@@ -0,0 +1,9 @@
+import { Link, createLazyFileRoute } from '@tanstack/react-router';
+
+export const Route = createLazyFileRoute('/posts/$postId')({
+  component: PostDetail,
+});
+
+function PostDetail() {
+  return <Link from="/posts/$postId" to="./edit">Edit</Link>;
+}
@@ -0,0 +1,5 @@
+import { createFileRoute } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/posts/$postId')({
+  loader: ({ params }) => fetch(`/api/posts/${params.postId}`),
+});
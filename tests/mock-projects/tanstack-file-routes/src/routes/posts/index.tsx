@@ -0,0 +1,9 @@
+import { Link, createFileRoute } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/posts/')({
+  component: PostList,
+});
+
+function PostList() {
+  return <Link to="/posts/$postId" params={{ postId: '1' }}>First</Link>;
+}
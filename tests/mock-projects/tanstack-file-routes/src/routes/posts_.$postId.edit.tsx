@@ -0,0 +1,10 @@
+import { createFileRoute, useNavigate } from '@tanstack/react-router';
+
+export const Route = createFileRoute('/posts_/$postId/edit')({
+  component: EditPost,
+});
+
+function EditPost() {
+  const navigate = useNavigate();
+  return <button onClick={() => navigate({ to: '/posts/$postId', params: { postId: '1' } })}>Save</button>;
+}
@@ -0,0 +1,11 @@
+import type { NavigationGuard } from "vue-router";
+
+export const requireAuth: NavigationGuard = () => {
+  if (!localStorage.getItem("token")) {
+    return "/";
+  }
+};
+
+export const requireAdmin: NavigationGuard = () => {
+  return localStorage.getItem("role") === "admin";
+};
@@ -0,0 +1,59 @@
+import type { RouteRecordRaw } from "vue-router";
+import HomeView from "../views/HomeView.vue";
+import UsersLayout from "../views/UsersLayout.vue";
+import { requireAuth, requireAdmin } from "./guards";
+
+export const routes: RouteRecordRaw[] = [
+  {
+    path: "/",
+    name: "home",
+    component: HomeView,
+  },
+  {
+    path: "/about",
+    name: "about",
+    component: () => import("../views/AboutView.vue"),
+    meta: { title: "About Us" },
+  },
+  {
+    path: "/users",
+    component: UsersLayout,
+    children: [
+      {
+        path: "",
+        name: "users",
+        component: () => import("../views/UserList.vue"),
+      },
+      {
+        path: ":id",
+        name: "user-detail",
+        component: () => import("../views/UserDetail.vue"),
+        beforeEnter: requireAuth,
+        meta: { title: "User Detail", requiresAuth: true },
+      },
+    ],
+  },
+  {
+    path: "/admin",
+    name: "admin",
+    component: () => import("../views/AdminView.vue"),
+    beforeEnter: [requireAuth, requireAdmin],
+    meta: { requiresAdmin: true },
+  },
+  {
+    path: "/home",
+    redirect: "/",
+  },
+  {
+    path: "/dashboard",
+    redirect: { name: "admin" },
+  },
+  {
+    path: "/:pathMatch(.*)*",
+    name: "not-found",
+    component: () => import("../views/NotFound.vue"),
+    beforeEnter: (to) => {
+      console.warn(`No route for ${to.fullPath}`);
+    },
+  },
+];